@@ -4,44 +4,49 @@
  * GET /api/health/auth
  * Validates the device token and returns auth status.
  *
- * Requires: x-abba-device-token header
+ * Requires: x-abba-device-token header, or x-abba-key-id/timestamp/nonce/signature
+ * headers for a signed request
  *
  * Responses:
- * - 200: { ok: true, auth: "ok", time: ISO8601 }
+ * - 200: { ok: true, auth: "ok", device: { id, label, source, scopes },
+ *         token: { slot, expiresAt, rotationPending }, time: ISO8601 }
  * - 401: { error: "Unauthorized", message: "Missing device token" }
  * - 401: { error: "Unauthorized", message: "Invalid device token" }
+ * - 401: { error: "Unauthorized", message: "Device token expired" }
+ * - 401: { error: "Unauthorized", message: "Device token revoked" }
+ * - 401: { error: "Unauthorized", message: "Invalid request signature" }
+ * - 429: { error: "TooManyFailedAttempts", message } with Retry-After header
  * - 503: { error: "BrokerMisconfigured", message: "ABBA_DEVICE_TOKEN not configured..." }
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getDeviceToken, validateDeviceTokenDetailed } from '@/lib/auth';
+import { authenticateRequest, authErrorResponse, isTokenRotationPending } from '@/lib/auth';
+import { withRateLimitHeaders } from '@/lib/rate-limit';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET(request: NextRequest) {
-  const token = getDeviceToken(request);
-  const result = validateDeviceTokenDetailed(token);
+export const GET = withRateLimitHeaders(async (request: NextRequest) => {
+  const result = await authenticateRequest(request);
 
   if (!result.valid) {
-    // Server misconfigured - return 503
-    if (result.reason === 'not_configured') {
-      return NextResponse.json(
-        {
-          error: 'BrokerMisconfigured',
-          message: 'ABBA_DEVICE_TOKEN not configured on server. Set it in Vercel env and redeploy.',
-        },
-        { status: 503 }
-      );
-    }
-
-    // Client error - return 401
-    const message = result.reason === 'missing' ? 'Missing device token' : 'Invalid device token';
-    return NextResponse.json({ error: 'Unauthorized', message }, { status: 401 });
+    return authErrorResponse(result.reason, result.retryAfter);
   }
 
   return NextResponse.json({
     ok: true,
     auth: 'ok',
+    device: {
+      id: result.device.id,
+      label: result.device.label,
+      source: result.device.source,
+      scopes: result.device.scopes,
+    },
+    // Lets the desktop app fetch the next token before the current slot expires
+    token: {
+      slot: result.device.slot,
+      expiresAt: result.device.expiresAt,
+      rotationPending: result.device.slot === 'current' && isTokenRotationPending(),
+    },
     time: new Date().toISOString(),
   });
-}
+});
@@ -6,12 +6,13 @@
  */
 
 import { NextResponse } from 'next/server';
+import { withRateLimitHeaders } from '@/lib/rate-limit';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET() {
+export const GET = withRateLimitHeaders(async () => {
   return NextResponse.json({
     ok: true,
     time: new Date().toISOString(),
   });
-}
+});
@@ -0,0 +1,65 @@
+/**
+ * Admin Device Revoke Endpoint
+ *
+ * POST /api/v1/admin/devices/revoke
+ * Revokes a device token so it can no longer authenticate
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { checkRateLimit, withRateLimitHeaders } from '@/lib/rate-limit';
+import { readJsonBody } from '@/lib/json-body';
+import { revokeDeviceToken, toDeviceTokenSummary } from '@/lib/device-tokens';
+import { DeviceTokenRevokeRequestSchema } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = withRateLimitHeaders(async (request: NextRequest) => {
+  // Check auth
+  const authError = await requireAuth(request, 'admin');
+  if (authError) return authError;
+
+  // Check rate limit
+  const rateLimitError = await checkRateLimit(request);
+  if (rateLimitError) return rateLimitError;
+
+  try {
+    // Parse and validate request body
+    const json = await readJsonBody(request);
+    if (!json.ok) return json.response;
+    const parseResult = DeviceTokenRevokeRequestSchema.safeParse(json.body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: parseResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { deviceId } = parseResult.data;
+
+    console.log(`[admin:devices:revoke] Revoking device: ${deviceId}`);
+
+    const device = await revokeDeviceToken(deviceId);
+    if (!device) {
+      return NextResponse.json({ error: 'Device not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      device: toDeviceTokenSummary(device),
+    });
+  } catch (error) {
+    console.error('[admin:devices:revoke] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+});
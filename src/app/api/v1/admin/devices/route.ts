@@ -0,0 +1,92 @@
+/**
+ * Admin Device Tokens Endpoint
+ *
+ * GET /api/v1/admin/devices
+ * Lists registered device tokens (hashes are never returned)
+ *
+ * POST /api/v1/admin/devices
+ * Issues a new device token. The raw token is only returned in this response.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { checkRateLimit, withRateLimitHeaders } from '@/lib/rate-limit';
+import { readJsonBody } from '@/lib/json-body';
+import { issueDeviceToken, listDeviceTokens, toDeviceTokenSummary } from '@/lib/device-tokens';
+import { DeviceTokenIssueRequestSchema } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withRateLimitHeaders(async (request: NextRequest) => {
+  // Check auth
+  const authError = await requireAuth(request, 'admin');
+  if (authError) return authError;
+
+  // Check rate limit
+  const rateLimitError = await checkRateLimit(request);
+  if (rateLimitError) return rateLimitError;
+
+  try {
+    const devices = await listDeviceTokens();
+
+    return NextResponse.json({
+      devices: devices.map(toDeviceTokenSummary),
+    });
+  } catch (error) {
+    console.error('[admin:devices] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withRateLimitHeaders(async (request: NextRequest) => {
+  // Check auth
+  const authError = await requireAuth(request, 'admin');
+  if (authError) return authError;
+
+  // Check rate limit
+  const rateLimitError = await checkRateLimit(request);
+  if (rateLimitError) return rateLimitError;
+
+  try {
+    // Parse and validate request body
+    const json = await readJsonBody(request);
+    if (!json.ok) return json.response;
+    const parseResult = DeviceTokenIssueRequestSchema.safeParse(json.body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: parseResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { label, profileId, scopes } = parseResult.data;
+
+    const { token, device } = await issueDeviceToken({ label, profileId, scopes });
+
+    console.log(`[admin:devices] Issued device token: ${device.id}`);
+
+    return NextResponse.json({
+      token,
+      device: toDeviceTokenSummary(device),
+    });
+  } catch (error) {
+    console.error('[admin:devices] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+});
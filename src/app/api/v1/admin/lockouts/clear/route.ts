@@ -0,0 +1,61 @@
+/**
+ * Admin Auth Lockout Clear Endpoint
+ *
+ * POST /api/v1/admin/lockouts/clear
+ * Clears the lockout for one source, or all sources when no key is given
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { checkRateLimit, withRateLimitHeaders } from '@/lib/rate-limit';
+import { readJsonBody } from '@/lib/json-body';
+import { clearLockout } from '@/lib/lockout';
+import { LockoutClearRequestSchema } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = withRateLimitHeaders(async (request: NextRequest) => {
+  // Check auth
+  const authError = await requireAuth(request, 'admin');
+  if (authError) return authError;
+
+  // Check rate limit
+  const rateLimitError = await checkRateLimit(request);
+  if (rateLimitError) return rateLimitError;
+
+  try {
+    // Parse and validate request body
+    const json = await readJsonBody(request, { optional: true });
+    if (!json.ok) return json.response;
+    const parseResult = LockoutClearRequestSchema.safeParse(json.body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: parseResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { key } = parseResult.data;
+    const cleared = await clearLockout(key);
+
+    console.log(`[admin:lockouts:clear] Cleared ${cleared} lockout(s): ${key || 'all'}`);
+
+    return NextResponse.json({
+      success: true,
+      cleared,
+    });
+  } catch (error) {
+    console.error('[admin:lockouts:clear] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+});
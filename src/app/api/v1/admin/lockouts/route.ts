@@ -0,0 +1,38 @@
+/**
+ * Admin Auth Lockouts Endpoint
+ *
+ * GET /api/v1/admin/lockouts
+ * Lists sources that are locked out or accumulating failed auth attempts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { checkRateLimit, withRateLimitHeaders } from '@/lib/rate-limit';
+import { listLockouts } from '@/lib/lockout';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withRateLimitHeaders(async (request: NextRequest) => {
+  // Check auth
+  const authError = await requireAuth(request, 'admin');
+  if (authError) return authError;
+
+  // Check rate limit
+  const rateLimitError = await checkRateLimit(request);
+  if (rateLimitError) return rateLimitError;
+
+  try {
+    return NextResponse.json({
+      lockouts: await listLockouts(),
+    });
+  } catch (error) {
+    console.error('[admin:lockouts] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,105 @@
+/**
+ * Bundle Validation Endpoint
+ *
+ * POST /api/v1/bundles/validate[?strict=true][&mode=source][&spa=true|false]
+ * Dry run of publish/upload: accepts the same bundle formats and runs the
+ * same size, hash, extraction, safety and secret checks, then reports what
+ * would be deployed. No job is touched and nothing is sent to Vercel.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { checkRateLimit, withRateLimitHeaders } from '@/lib/rate-limit';
+import { BundleValidationError, discardExtractedBundle } from '@/lib/bundle';
+import { packageBundle, secretsBlockedMessage } from '@/lib/packaging';
+import { discardReceivedBundle, receiveBundle, type ReceivedBundle } from '@/lib/upload';
+
+export const dynamic = 'force-dynamic';
+
+export const maxDuration = 60; // same budget as publish/upload
+
+export const POST = withRateLimitHeaders(async (request: NextRequest) => {
+  // Check auth (a signed upload's declared body hash is checked as the body streams in)
+  const authError = await requireAuth(request, 'publish:write', { streamedBody: true });
+  if (authError) return authError;
+
+  // Check rate limit (extraction costs as much as a real upload)
+  const rateLimitError = await checkRateLimit(request, { cost: 20 });
+  if (rateLimitError) return rateLimitError;
+
+  let bundle: ReceivedBundle | null = null;
+
+  try {
+    const strict = request.nextUrl.searchParams.get('strict') === 'true';
+    const mode = request.nextUrl.searchParams.get('mode') === 'source' ? 'source' : 'static';
+    const spaParam = request.nextUrl.searchParams.get('spa');
+    const spa = spaParam === 'true' ? true : spaParam === 'false' ? false : undefined;
+
+    // Stream the bundle to disk, enforcing the size limit and hashing it as it arrives
+    const received = await receiveBundle(request);
+    if (!received.ok) {
+      return NextResponse.json({ error: received.error }, { status: received.status });
+    }
+    bundle = received.bundle;
+
+    const summary = { size: bundle.size, hash: bundle.hash };
+
+    let packaged;
+    try {
+      packaged = await packageBundle(bundle, {
+        contentType: bundle.contentType,
+        strict,
+        mode,
+        spa,
+      });
+    } catch (error) {
+      if (error instanceof BundleValidationError) {
+        return NextResponse.json({
+          valid: false,
+          ...summary,
+          error: 'Invalid bundle',
+          code: error.code,
+          message: error.message,
+          path: error.path,
+        });
+      }
+      throw error;
+    }
+
+    // A dry run only needs the file list, not the extracted contents
+    await discardExtractedBundle(packaged.directory);
+
+    const { files, format, projectSettings, report, secretFindings } = packaged;
+    console.log(
+      `[bundles:validate] Validated ${format} bundle: ${files.length} files, ${secretFindings.length} possible secrets`
+    );
+
+    return NextResponse.json({
+      valid: !packaged.blockedBySecrets,
+      ...summary,
+      format,
+      fileCount: files.length,
+      bundleReport: report,
+      secretFindings,
+      build: mode === 'source' ? projectSettings : undefined,
+      spaFallback: packaged.spaFallback,
+      ...(packaged.blockedBySecrets && {
+        error: 'Secrets found in bundle',
+        message: secretsBlockedMessage(secretFindings),
+      }),
+    });
+  } catch (error) {
+    console.error('[bundles:validate] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Validation failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    if (bundle) {
+      await discardReceivedBundle(bundle);
+    }
+  }
+});
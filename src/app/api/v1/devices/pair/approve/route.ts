@@ -0,0 +1,69 @@
+/**
+ * Device Pairing Approve Endpoint
+ *
+ * POST /api/v1/devices/pair/approve
+ * Approves the code shown on a desktop so it can claim a device token
+ *
+ * Requires: admin scope
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { checkRateLimit, withRateLimitHeaders } from '@/lib/rate-limit';
+import { readJsonBody } from '@/lib/json-body';
+import { approvePairing } from '@/lib/device-pairing';
+import { DevicePairApproveRequestSchema } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = withRateLimitHeaders(async (request: NextRequest) => {
+  // Check auth
+  const authError = await requireAuth(request, 'admin');
+  if (authError) return authError;
+
+  // Check rate limit
+  const rateLimitError = await checkRateLimit(request);
+  if (rateLimitError) return rateLimitError;
+
+  try {
+    // Parse and validate request body
+    const json = await readJsonBody(request);
+    if (!json.ok) return json.response;
+    const parseResult = DevicePairApproveRequestSchema.safeParse(json.body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: parseResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { code, label, profileId, scopes } = parseResult.data;
+
+    const pairing = await approvePairing(code, { label, profileId, scopes });
+    if (!pairing) {
+      return NextResponse.json({ error: 'Pairing code not found or expired' }, { status: 404 });
+    }
+
+    console.log(`[devices:pair:approve] Approved pairing: ${pairing.code}`);
+
+    return NextResponse.json({
+      success: true,
+      code: pairing.code,
+      label: pairing.label,
+      expiresAt: pairing.expires_at,
+    });
+  } catch (error) {
+    console.error('[devices:pair:approve] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,88 @@
+/**
+ * Device Pairing Claim Endpoint
+ *
+ * POST /api/v1/devices/pair/claim
+ * Polled by the desktop until its code is approved, then returns a freshly
+ * minted device token (once).
+ *
+ * Unauthenticated: the pairing ID is only known to the desktop.
+ *
+ * Responses:
+ * - 200: { status: "claimed", token, deviceId }
+ * - 202: { status: "pending", expiresAt }
+ * - 404: { error: "Pairing not found" }
+ * - 410: { error: "PairingExpired" | "PairingAlreadyClaimed", message }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, withRateLimitHeaders } from '@/lib/rate-limit';
+import { readJsonBody } from '@/lib/json-body';
+import { claimPairing } from '@/lib/device-pairing';
+import { DevicePairClaimRequestSchema } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = withRateLimitHeaders(async (request: NextRequest) => {
+  // Check rate limit
+  const rateLimitError = await checkRateLimit(request, { bucket: 'polling' });
+  if (rateLimitError) return rateLimitError;
+
+  try {
+    // Parse and validate request body
+    const json = await readJsonBody(request);
+    if (!json.ok) return json.response;
+    const parseResult = DevicePairClaimRequestSchema.safeParse(json.body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: parseResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await claimPairing(parseResult.data.pairingId);
+
+    switch (result.status) {
+      case 'not_found':
+        return NextResponse.json({ error: 'Pairing not found' }, { status: 404 });
+
+      case 'expired':
+        return NextResponse.json(
+          { error: 'PairingExpired', message: 'Pairing code expired. Start pairing again.' },
+          { status: 410 }
+        );
+
+      case 'already_claimed':
+        return NextResponse.json(
+          { error: 'PairingAlreadyClaimed', message: 'Pairing code was already used.' },
+          { status: 410 }
+        );
+
+      case 'pending':
+        return NextResponse.json(
+          { status: 'pending', expiresAt: result.expiresAt },
+          { status: 202 }
+        );
+
+      case 'claimed':
+        console.log(`[devices:pair:claim] Issued device token: ${result.device.id}`);
+        return NextResponse.json({
+          status: 'claimed',
+          token: result.token,
+          deviceId: result.device.id,
+        });
+    }
+  } catch (error) {
+    console.error('[devices:pair:claim] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+});
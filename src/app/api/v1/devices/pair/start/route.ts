@@ -0,0 +1,59 @@
+/**
+ * Device Pairing Start Endpoint
+ *
+ * POST /api/v1/devices/pair/start
+ * Starts pairing a desktop install. Returns a short code to show the user
+ * and a pairing ID to poll pair/claim with.
+ *
+ * Unauthenticated: the desktop has no token yet.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, withRateLimitHeaders } from '@/lib/rate-limit';
+import { readJsonBody } from '@/lib/json-body';
+import { startPairing } from '@/lib/device-pairing';
+import { DevicePairStartRequestSchema } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = withRateLimitHeaders(async (request: NextRequest) => {
+  // Check rate limit
+  const rateLimitError = await checkRateLimit(request, { cost: 5 });
+  if (rateLimitError) return rateLimitError;
+
+  try {
+    // Parse and validate request body (optional)
+    const json = await readJsonBody(request, { optional: true });
+    if (!json.ok) return json.response;
+    const parseResult = DevicePairStartRequestSchema.safeParse(json.body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: parseResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const pairing = await startPairing({ label: parseResult.data.label });
+
+    console.log(`[devices:pair:start] Started pairing: ${pairing.code}`);
+
+    return NextResponse.json({
+      pairingId: pairing.id,
+      code: pairing.code,
+      expiresAt: pairing.expires_at,
+    });
+  } catch (error) {
+    console.error('[devices:pair:start] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+});
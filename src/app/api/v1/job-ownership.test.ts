@@ -0,0 +1,72 @@
+/**
+ * Job Ownership Tests
+ *
+ * Jobs started on the shared device token stay with the client that
+ * started them, and never pick up a profile from the request body.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { resetRateLimitForTesting } from '@/lib/rate-limit';
+import { clearDeviceTokensForTesting, issueDeviceToken } from '@/lib/device-tokens';
+import { POST as publishStart } from './publish/start/route';
+import { GET as publishStatus } from './publish/status/route';
+
+// Mock Supabase to use in-memory stores
+vi.mock('@/lib/supabase', () => ({
+  isSupabaseConfigured: () => false,
+  getSupabaseClient: () => null,
+}));
+
+const ENV_TOKEN = 'device-token-for-job-ownership-tests';
+
+async function startJob(token: string, ip: string, body: Record<string, unknown> = {}) {
+  const request = new NextRequest('http://localhost/api/v1/publish/start', {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      'x-abba-device-token': token,
+      'x-forwarded-for': ip,
+    },
+    body: JSON.stringify({ appId: 1, bundleHash: 'a'.repeat(64), bundleSize: 100, ...body }),
+  });
+
+  const response = await publishStart(request);
+  expect(response.status).toBe(200);
+  return (await response.json()).publishId as string;
+}
+
+async function getStatus(token: string, ip: string, publishId: string) {
+  const request = new NextRequest(`http://localhost/api/v1/publish/status?publishId=${publishId}`, {
+    headers: { 'x-abba-device-token': token, 'x-forwarded-for': ip },
+  });
+  return (await publishStatus(request)).status;
+}
+
+describe('job ownership', () => {
+  beforeEach(() => {
+    resetRateLimitForTesting();
+    clearDeviceTokensForTesting();
+    process.env.ABBA_DEVICE_TOKEN = ENV_TOKEN;
+    process.env.ABBA_TRUSTED_PROXIES = '1';
+  });
+
+  afterEach(() => {
+    delete process.env.ABBA_DEVICE_TOKEN;
+    delete process.env.ABBA_TRUSTED_PROXIES;
+  });
+
+  it('keeps jobs of two shared device token callers apart', async () => {
+    const publishId = await startJob(ENV_TOKEN, '203.0.113.1');
+
+    expect(await getStatus(ENV_TOKEN, '203.0.113.1', publishId)).toBe(200);
+    expect(await getStatus(ENV_TOKEN, '203.0.113.2', publishId)).toBe(404);
+  });
+
+  it('does not give devices of a profile named in the body access', async () => {
+    const { token } = await issueDeviceToken({ label: 'Laptop', profileId: 'user-1' });
+    const publishId = await startJob(ENV_TOKEN, '203.0.113.1', { profileId: 'user-1' });
+
+    expect(await getStatus(token, '203.0.113.1', publishId)).toBe(404);
+  });
+});
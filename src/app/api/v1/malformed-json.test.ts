@@ -0,0 +1,63 @@
+/**
+ * Malformed JSON Tests
+ *
+ * Every route with a JSON body answers a body that isn't JSON with a 400.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NextRequest, NextResponse } from 'next/server';
+import { resetRateLimitForTesting } from '@/lib/rate-limit';
+import { POST as pairStart } from './devices/pair/start/route';
+import { POST as pairClaim } from './devices/pair/claim/route';
+import { POST as pairApprove } from './devices/pair/approve/route';
+import { POST as issueDevice } from './admin/devices/route';
+import { POST as revokeDevice } from './admin/devices/revoke/route';
+import { POST as clearLockouts } from './admin/lockouts/clear/route';
+
+// Mock Supabase to use in-memory stores
+vi.mock('@/lib/supabase', () => ({
+  isSupabaseConfigured: () => false,
+  getSupabaseClient: () => null,
+}));
+
+const ADMIN_TOKEN = 'admin-token-for-malformed-json-tests';
+
+const ROUTES: Array<[string, (request: NextRequest) => Promise<NextResponse>]> = [
+  ['devices/pair/start', pairStart],
+  ['devices/pair/claim', pairClaim],
+  ['devices/pair/approve', pairApprove],
+  ['admin/devices', issueDevice],
+  ['admin/devices/revoke', revokeDevice],
+  ['admin/lockouts/clear', clearLockouts],
+];
+
+describe('malformed JSON bodies', () => {
+  beforeEach(() => {
+    resetRateLimitForTesting();
+    process.env.ABBA_DEVICE_TOKEN = 'device-token-for-malformed-json-tests';
+    process.env.ABBA_ADMIN_TOKEN = ADMIN_TOKEN;
+  });
+
+  afterEach(() => {
+    delete process.env.ABBA_DEVICE_TOKEN;
+    delete process.env.ABBA_ADMIN_TOKEN;
+  });
+
+  for (const [path, handler] of ROUTES) {
+    it(`returns 400 from ${path}`, async () => {
+      const request = new NextRequest(`http://localhost/api/v1/${path}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'x-abba-device-token': ADMIN_TOKEN },
+        body: '{"label":',
+      });
+
+      const response = await handler(request);
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: 'Invalid request',
+        message: 'Request body is not valid JSON',
+      });
+    });
+  }
+});
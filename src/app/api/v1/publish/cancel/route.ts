@@ -6,23 +6,24 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAuth } from '@/lib/auth';
-import { checkRateLimit } from '@/lib/rate-limit';
+import { getJobOwnerScope, requireAuth } from '@/lib/auth';
+import { checkRateLimit, withRateLimitHeaders } from '@/lib/rate-limit';
 import { getPublishJob, updateJobStatus } from '@/lib/db';
 import { PublishCancelRequestSchema, isTerminalStatus } from '@/lib/types';
+import { discardChunkedUpload } from '@/lib/chunked-upload';
 import { cancelDeployment } from '@/lib/vercel';
 
 export const dynamic = 'force-dynamic';
 
-export async function POST(request: NextRequest) {
-  // Check rate limit
-  const rateLimitError = checkRateLimit(request);
-  if (rateLimitError) return rateLimitError;
-
+export const POST = withRateLimitHeaders(async (request: NextRequest) => {
   // Check auth
-  const authError = requireAuth(request);
+  const authError = await requireAuth(request, 'publish:cancel');
   if (authError) return authError;
 
+  // Check rate limit
+  const rateLimitError = await checkRateLimit(request);
+  if (rateLimitError) return rateLimitError;
+
   try {
     // Parse and validate request body
     const body = await request.json();
@@ -43,7 +44,7 @@ export async function POST(request: NextRequest) {
     console.log(`[publish:cancel] Cancelling job: ${publishId}`);
 
     // Get job
-    const job = await getPublishJob(publishId);
+    const job = await getPublishJob(publishId, getJobOwnerScope(request));
     if (!job) {
       return NextResponse.json({ error: 'Publish job not found' }, { status: 404 });
     }
@@ -68,8 +69,9 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Update job status
+    // Update job status, dropping any chunks received so far
     await updateJobStatus(publishId, 'cancelled');
+    await discardChunkedUpload(publishId);
 
     return NextResponse.json({
       success: true,
@@ -85,4 +87,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
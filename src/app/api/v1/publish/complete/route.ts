@@ -6,22 +6,22 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAuth } from '@/lib/auth';
-import { checkRateLimit } from '@/lib/rate-limit';
+import { getJobOwnerScope, requireAuth } from '@/lib/auth';
+import { checkRateLimit, withRateLimitHeaders } from '@/lib/rate-limit';
 import { getPublishJob } from '@/lib/db';
 import { PublishCompleteRequestSchema } from '@/lib/types';
 
 export const dynamic = 'force-dynamic';
 
-export async function POST(request: NextRequest) {
-  // Check rate limit
-  const rateLimitError = checkRateLimit(request);
-  if (rateLimitError) return rateLimitError;
-
+export const POST = withRateLimitHeaders(async (request: NextRequest) => {
   // Check auth
-  const authError = requireAuth(request);
+  const authError = await requireAuth(request, 'publish:write');
   if (authError) return authError;
 
+  // Check rate limit
+  const rateLimitError = await checkRateLimit(request, { cost: 5 });
+  if (rateLimitError) return rateLimitError;
+
   try {
     // Parse and validate request body
     const body = await request.json();
@@ -42,7 +42,7 @@ export async function POST(request: NextRequest) {
     console.log(`[publish:complete] Completing job: ${publishId}`);
 
     // Get job
-    const job = await getPublishJob(publishId);
+    const job = await getPublishJob(publishId, getJobOwnerScope(request));
     if (!job) {
       return NextResponse.json({ error: 'Publish job not found' }, { status: 404 });
     }
@@ -81,4 +81,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -6,22 +6,24 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAuth } from '@/lib/auth';
-import { checkRateLimit } from '@/lib/rate-limit';
+import { getAuthenticatedDevice, getJobOwnerScope, requireAuth } from '@/lib/auth';
+import { checkRateLimit, withRateLimitHeaders } from '@/lib/rate-limit';
 import { createPublishJob } from '@/lib/db';
+import { checkPublishQuota, quotaExceededResponse } from '@/lib/quotas';
+import { validateDeclaredBundleHash } from '@/lib/integrity';
 import { PublishStartRequestSchema } from '@/lib/types';
 
 export const dynamic = 'force-dynamic';
 
-export async function POST(request: NextRequest) {
-  // Check rate limit
-  const rateLimitError = checkRateLimit(request);
-  if (rateLimitError) return rateLimitError;
-
+export const POST = withRateLimitHeaders(async (request: NextRequest) => {
   // Check auth
-  const authError = requireAuth(request);
+  const authError = await requireAuth(request, 'publish:write');
   if (authError) return authError;
 
+  // Check rate limit
+  const rateLimitError = await checkRateLimit(request, { cost: 5 });
+  if (rateLimitError) return rateLimitError;
+
   try {
     // Parse and validate request body
     const body = await request.json();
@@ -37,17 +39,58 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { appId, bundleHash, bundleSize, profileId, appName } = parseResult.data;
+    const { appId, bundleHash, bundleSize, profileId, appName, strict, mode, spa } =
+      parseResult.data;
+
+    // Uploads are checked against this hash (see ABBA_BUNDLE_HASH_POLICY)
+    const bundleHashError = validateDeclaredBundleHash(bundleHash);
+    if (bundleHashError) {
+      return NextResponse.json(
+        { error: 'Invalid request', message: bundleHashError },
+        { status: 400 }
+      );
+    }
+
+    // Devices bound to a profile can only publish as that profile
+    const device = getAuthenticatedDevice(request)!;
+    if (device.profileId && profileId && profileId !== device.profileId) {
+      return NextResponse.json(
+        { error: 'Forbidden', message: 'profileId does not match the device owner' },
+        { status: 403 }
+      );
+    }
+
+    // Jobs only record verified owners: the device's bound profile (a body
+    // profileId is never trusted) and, on the shared token, the client IP
+    const jobProfileId = device.profileId;
+    const clientIp = getJobOwnerScope(request)?.clientIp ?? null;
+
+    // Check quotas for the device (or shared token client) and the job's profile
+    const quotaViolation = await checkPublishQuota(
+      { deviceId: device.id, profileId: jobProfileId, clientIp },
+      bundleSize
+    );
+    if (quotaViolation) {
+      console.warn(
+        `[publish:start] Quota exceeded for ${quotaViolation.scope}: ${quotaViolation.quota}`
+      );
+      return quotaExceededResponse(quotaViolation);
+    }
 
     console.log(`[publish:start] Creating job for app ${appId}, bundle size: ${bundleSize}`);
 
-    // Create publish job
+    // Create publish job, recording the owning device and profile
     const job = await createPublishJob({
       appId,
       appName,
-      profileId,
+      profileId: jobProfileId || undefined,
+      deviceId: device.id,
+      clientIp: clientIp || undefined,
       bundleHash,
       bundleSize,
+      strict,
+      mode,
+      spa,
     });
 
     console.log(`[publish:start] Created job: ${job.id}`);
@@ -70,4 +113,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
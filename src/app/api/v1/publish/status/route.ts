@@ -6,23 +6,29 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAuth } from '@/lib/auth';
-import { checkRateLimit } from '@/lib/rate-limit';
+import { getJobOwnerScope, requireAuth } from '@/lib/auth';
+import { checkRateLimit, withRateLimitHeaders } from '@/lib/rate-limit';
 import { getPublishJob } from '@/lib/db';
-import { getStatusProgress, getStatusMessage, isTerminalStatus } from '@/lib/types';
+import {
+  getSourceBuild,
+  getStatusProgress,
+  getStatusMessage,
+  getUploadProgress,
+  isTerminalStatus,
+} from '@/lib/types';
 import { getDeploymentStatus } from '@/lib/vercel';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET(request: NextRequest) {
-  // Check rate limit
-  const rateLimitError = checkRateLimit(request);
-  if (rateLimitError) return rateLimitError;
-
+export const GET = withRateLimitHeaders(async (request: NextRequest) => {
   // Check auth
-  const authError = requireAuth(request);
+  const authError = await requireAuth(request, 'publish:read');
   if (authError) return authError;
 
+  // Check rate limit
+  const rateLimitError = await checkRateLimit(request, { bucket: 'polling' });
+  if (rateLimitError) return rateLimitError;
+
   try {
     // Get publishId from query params
     const publishId = request.nextUrl.searchParams.get('publishId');
@@ -31,7 +37,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Get job
-    const job = await getPublishJob(publishId);
+    const job = await getPublishJob(publishId, getJobOwnerScope(request));
     if (!job) {
       return NextResponse.json({ error: 'Publish job not found' }, { status: 404 });
     }
@@ -50,6 +56,10 @@ export async function GET(request: NextRequest) {
         message: getStatusMessage(status),
         url: url || undefined,
         error: error || undefined,
+        bundleReport: job.bundle_report || undefined,
+        secretFindings: job.secret_findings?.length ? job.secret_findings : undefined,
+        build: getSourceBuild(job),
+        upload: getUploadProgress(job),
       });
     }
 
@@ -89,6 +99,10 @@ export async function GET(request: NextRequest) {
       message: getStatusMessage(status),
       url: url || undefined,
       error: error || undefined,
+      bundleReport: job.bundle_report || undefined,
+      secretFindings: job.secret_findings?.length ? job.secret_findings : undefined,
+      build: getSourceBuild(job),
+      upload: getUploadProgress(job),
     });
   } catch (error) {
     console.error('[publish:status] Error:', error);
@@ -100,4 +114,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -2,14 +2,35 @@
  * Publish Upload Endpoint
  *
  * PUT /api/v1/publish/upload?publishId=...
- * Accepts multipart/form-data with bundle file
+ * Accepts multipart/form-data with bundle file, or the raw bundle.
+ * Bundles may be ZIP, tar or tar.gz archives. The body is streamed to a
+ * temporary file rather than buffered.
+ *
+ * With a Content-Range header, the body is one chunk of the bundle (see
+ * lib/chunked-upload); the bundle is processed when the last chunk arrives.
+ *
+ * HEAD /api/v1/publish/upload?publishId=...
+ * Reports how many bytes of the bundle have been received, so an
+ * interrupted chunked upload can resume.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAuth } from '@/lib/auth';
-import { checkRateLimit } from '@/lib/rate-limit';
-import { getPublishJob, updateJobStatus } from '@/lib/db';
-import { validateBundleSize, extractBundle, ensureDefaultFiles, computeHash } from '@/lib/bundle';
+import { getAuthenticatedDevice, getJobOwnerScope, requireAuth } from '@/lib/auth';
+import { checkRateLimit, withRateLimitHeaders } from '@/lib/rate-limit';
+import { getPublishJob, updateJobStatus, updatePublishJob, updateUploadProgress } from '@/lib/db';
+import { checkUploadQuota, quotaExceededResponse } from '@/lib/quotas';
+import { checkBundleIntegrity } from '@/lib/integrity';
+import { BundleValidationError, discardExtractedBundle } from '@/lib/bundle';
+import { packageBundle, secretsBlockedMessage } from '@/lib/packaging';
+import {
+  appendBundleChunk,
+  assembleChunkedUpload,
+  discardChunkedUpload,
+  isFinalChunk,
+  parseContentRange,
+  sweepAbandonedUploads,
+} from '@/lib/chunked-upload';
+import { discardReceivedBundle, receiveBundle, type ReceivedBundle } from '@/lib/upload';
 import { isVercelConfigured, deployBundle, pollDeploymentUntilReady } from '@/lib/vercel';
 
 export const dynamic = 'force-dynamic';
@@ -17,14 +38,22 @@ export const dynamic = 'force-dynamic';
 // Increase body size limit
 export const maxDuration = 60; // 60 second timeout for uploads
 
-export async function PUT(request: NextRequest) {
-  // Check rate limit
-  const rateLimitError = checkRateLimit(request);
+export const PUT = withRateLimitHeaders(async (request: NextRequest) => {
+  // Check auth (a signed upload's declared body hash is checked as the body streams in)
+  const authError = await requireAuth(request, 'publish:write', { streamedBody: true });
+  if (authError) return authError;
+
+  // Check rate limit (chunks before the last are cheap; the request that
+  // completes the bundle pays for extracting it)
+  const contentRange = request.headers.get('content-range');
+  const range = contentRange ? parseContentRange(contentRange) : null;
+  const rateLimitError = await checkRateLimit(request, {
+    cost: range && !isFinalChunk(range) ? 2 : 20,
+  });
   if (rateLimitError) return rateLimitError;
 
-  // Check auth
-  const authError = requireAuth(request);
-  if (authError) return authError;
+  let bundle: ReceivedBundle | null = null;
+  let extractedDirectory: string | null = null;
 
   try {
     // Get publishId from query params
@@ -36,69 +65,187 @@ export async function PUT(request: NextRequest) {
     console.log(`[publish:upload] Starting upload for job: ${publishId}`);
 
     // Get job
-    const job = await getPublishJob(publishId);
+    const job = await getPublishJob(publishId, getJobOwnerScope(request));
     if (!job) {
       return NextResponse.json({ error: 'Publish job not found' }, { status: 404 });
     }
 
-    // Check job status
-    if (job.status !== 'queued') {
+    if (contentRange && !range) {
       return NextResponse.json(
-        { error: `Cannot upload to job in status: ${job.status}` },
+        { error: 'Invalid Content-Range', message: 'Expected "bytes <start>-<end>/<total>"' },
         { status: 400 }
       );
     }
 
-    // Update status to uploading
-    await updateJobStatus(publishId, 'uploading');
+    // Check job status (chunks may also continue a chunked upload in progress)
+    const chunkedUploadInProgress = job.status === 'uploading' && job.upload_offset !== null;
+    if (job.status !== 'queued' && !(range && chunkedUploadInProgress)) {
+      return NextResponse.json(
+        { error: `Cannot upload to job in status: ${job.status}` },
+        { status: 400 }
+      );
+    }
 
-    // Read the bundle data
-    const contentType = request.headers.get('content-type') || '';
-    let bundleBuffer: Buffer;
+    if (range) {
+      // Start the chunked upload on its first chunk; the job stays uploading until the last
+      let upload = job;
+      if (job.status === 'queued') {
+        upload = { ...job, upload_offset: 0, upload_chunks: [] };
+        await updatePublishJob(publishId, {
+          status: 'uploading',
+          upload_offset: upload.upload_offset,
+          upload_chunks: upload.upload_chunks,
+        });
+        await sweepAbandonedUploads().catch((error) => {
+          console.warn('[publish:upload] Failed to sweep abandoned uploads:', error);
+        });
+      }
 
-    if (contentType.includes('multipart/form-data')) {
-      // Handle multipart upload
-      const formData = await request.formData();
-      const file = formData.get('bundle') as File | null;
+      // A rejected chunk leaves the upload as it was, ready to be sent again
+      const appended = await appendBundleChunk(request, upload, range);
+      if (!appended.ok) {
+        return NextResponse.json(
+          { error: appended.error, message: appended.message, offset: appended.offset },
+          { status: appended.status }
+        );
+      }
+      console.log(
+        `[publish:upload] Received bytes ${range.start}-${range.end} of ${range.total} for job ${publishId}`
+      );
 
-      if (!file) {
-        await updateJobStatus(publishId, 'failed', { error: 'No bundle file in form data' });
-        return NextResponse.json({ error: 'No bundle file provided' }, { status: 400 });
+      if (!appended.complete) {
+        return NextResponse.json({
+          success: true,
+          message: 'Chunk received',
+          offset: appended.offset,
+          totalBytes: range.total,
+          chunk: appended.chunk,
+        });
       }
 
-      bundleBuffer = Buffer.from(await file.arrayBuffer());
+      // Every chunk has been claimed; assemble them from the shared store
+      const completed = await getPublishJob(publishId);
+      const assembled = await assembleChunkedUpload(completed ?? upload);
+      if (!assembled.ok) {
+        // A chunk was claimed but its request died before storing it
+        console.warn(
+          `[publish:upload] Chunk at byte ${assembled.start} of job ${publishId} lost, restarting`
+        );
+        await updateUploadProgress(publishId, range.total, { upload_offset: 0, upload_chunks: [] });
+        await discardChunkedUpload(publishId);
+        return NextResponse.json(
+          {
+            error: 'UploadOffsetMismatch',
+            message: `The chunk at byte ${assembled.start} was lost; start again from byte 0`,
+            offset: 0,
+          },
+          { status: 409 }
+        );
+      }
+      bundle = assembled.bundle;
+      await discardChunkedUpload(publishId);
     } else {
-      // Handle raw binary upload
-      bundleBuffer = Buffer.from(await request.arrayBuffer());
-    }
-
-    console.log(`[publish:upload] Received bundle: ${bundleBuffer.length} bytes`);
+      // Update status to uploading
+      await updateJobStatus(publishId, 'uploading');
 
-    // Validate size
-    const sizeValidation = validateBundleSize(bundleBuffer.length);
-    if (!sizeValidation.valid) {
-      await updateJobStatus(publishId, 'failed', { error: sizeValidation.error });
-      return NextResponse.json({ error: sizeValidation.error }, { status: 400 });
+      // Stream the bundle to disk, enforcing the size limit and hashing it as it arrives
+      const received = await receiveBundle(request);
+      if (!received.ok) {
+        await updateJobStatus(publishId, 'failed', { error: received.error });
+        return NextResponse.json({ error: received.error }, { status: received.status });
+      }
+      bundle = received.bundle;
     }
 
-    // Verify hash if provided
-    const actualHash = computeHash(bundleBuffer);
-    if (job.bundle_hash && actualHash !== job.bundle_hash) {
+    console.log(`[publish:upload] Received bundle: ${bundle.size} bytes`);
+
+    // Check the daily upload quota
+    const quotaViolation = await checkUploadQuota(
+      {
+        deviceId: getAuthenticatedDevice(request)!.id,
+        profileId: job.profile_id,
+        clientIp: job.client_ip,
+      },
+      bundle.size
+    );
+    if (quotaViolation) {
       console.warn(
-        `[publish:upload] Hash mismatch: expected ${job.bundle_hash}, got ${actualHash}`
+        `[publish:upload] Quota exceeded for ${quotaViolation.scope}: ${quotaViolation.quota}`
       );
-      // Don't fail, just log - hash verification is optional
+      await updateJobStatus(publishId, 'failed', { error: 'Daily upload quota exceeded' });
+      return quotaExceededResponse(quotaViolation);
+    }
+
+    // Check the upload against the size and hash declared at start
+    const actualHash = bundle.hash;
+    const integrityViolation = checkBundleIntegrity(job, bundle);
+    if (integrityViolation) {
+      await updateJobStatus(publishId, 'failed', { error: integrityViolation.message });
+      return NextResponse.json(integrityViolation, { status: 400 });
     }
 
-    // Update to packaging
-    await updateJobStatus(publishId, 'packaging');
+    // Update to packaging, recording the bytes received against the quota
+    await updateJobStatus(publishId, 'packaging', { uploaded_bytes: bundle.size });
 
-    // Extract bundle
+    // Extract and check the bundle (strict jobs fail rather than skip files,
+    // and source jobs need a framework Vercel can build)
     console.log(`[publish:upload] Extracting bundle...`);
-    const { files } = await extractBundle(bundleBuffer);
-    const deployFiles = ensureDefaultFiles(files);
+    let packaged;
+    try {
+      packaged = await packageBundle(bundle, {
+        contentType: bundle.contentType,
+        strict: job.strict,
+        mode: job.mode,
+        spa: job.spa ?? undefined,
+      });
+    } catch (error) {
+      if (error instanceof BundleValidationError) {
+        await updateJobStatus(publishId, 'failed', { error: error.message });
+        return NextResponse.json(
+          { error: 'Invalid bundle', code: error.code, message: error.message, path: error.path },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+    extractedDirectory = packaged.directory;
+    const { files: deployFiles, projectSettings, report, secretFindings } = packaged;
+
+    console.log(
+      `[publish:upload] Extracted ${deployFiles.length} files (${report.skipped.length} skipped)`
+    );
+    if (report.unsupportedRules.length > 0) {
+      console.warn(
+        `[publish:upload] ${report.unsupportedRules.length} Netlify rules could not be converted`
+      );
+    }
+    await updatePublishJob(publishId, {
+      bundle_report: report,
+      secret_findings: secretFindings,
+      framework: projectSettings.framework,
+      build_command: projectSettings.buildCommand,
+      install_command: projectSettings.installCommand,
+      output_directory: projectSettings.outputDirectory,
+    });
+    if (job.mode === 'source') {
+      console.log(
+        `[publish:upload] Building with ${projectSettings.framework}: ${projectSettings.buildCommand}`
+      );
+    }
 
-    console.log(`[publish:upload] Extracted ${deployFiles.length} files`);
+    if (secretFindings.length > 0) {
+      console.warn(
+        `[publish:upload] Found ${secretFindings.length} possible secrets (policy: ${packaged.secretScanPolicy})`
+      );
+    }
+    if (packaged.blockedBySecrets) {
+      const message = secretsBlockedMessage(secretFindings);
+      await updateJobStatus(publishId, 'failed', { error: message });
+      return NextResponse.json(
+        { error: 'Secrets found in bundle', message, findings: secretFindings },
+        { status: 400 }
+      );
+    }
 
     // Check if Vercel is configured
     if (!isVercelConfigured()) {
@@ -110,6 +257,10 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({
         success: true,
         message: 'Bundle uploaded (mock deployment)',
+        bundleReport: report,
+        secretFindings: secretFindings.length ? secretFindings : undefined,
+        build: job.mode === 'source' ? projectSettings : undefined,
+        spaFallback: packaged.spaFallback,
       });
     }
 
@@ -119,7 +270,8 @@ export async function PUT(request: NextRequest) {
       publishId,
       job.app_id,
       actualHash,
-      deployFiles
+      deployFiles,
+      projectSettings
     );
 
     // Update job with deployment ID
@@ -138,6 +290,10 @@ export async function PUT(request: NextRequest) {
       success: true,
       message: 'Bundle uploaded, deployment started',
       deploymentId,
+      bundleReport: report,
+      secretFindings: secretFindings.length ? secretFindings : undefined,
+      build: job.mode === 'source' ? projectSettings : undefined,
+      spaFallback: packaged.spaFallback,
     });
   } catch (error) {
     console.error('[publish:upload] Error:', error);
@@ -148,5 +304,51 @@ export async function PUT(request: NextRequest) {
       },
       { status: 500 }
     );
+  } finally {
+    if (bundle) {
+      await discardReceivedBundle(bundle);
+    }
+    // Vercel has every file by the time the deployment is created
+    if (extractedDirectory) {
+      await discardExtractedBundle(extractedDirectory);
+    }
+  }
+});
+
+export const HEAD = withRateLimitHeaders(async (request: NextRequest) => {
+  // Check auth
+  const authError = await requireAuth(request, 'publish:write');
+  if (authError) return authError;
+
+  // Check rate limit (resuming clients poll this like status)
+  const rateLimitError = await checkRateLimit(request, { bucket: 'polling' });
+  if (rateLimitError) return rateLimitError;
+
+  try {
+    // HEAD responses have no body, so errors are reported by status alone
+    const publishId = request.nextUrl.searchParams.get('publishId');
+    if (!publishId) {
+      return new NextResponse(null, { status: 400 });
+    }
+
+    const job = await getPublishJob(publishId, getJobOwnerScope(request));
+    if (!job) {
+      return new NextResponse(null, { status: 404 });
+    }
+
+    // Chunked uploads report their offset; single-request uploads are all or nothing
+    const offset = job.upload_offset ?? job.uploaded_bytes ?? 0;
+
+    return new NextResponse(null, {
+      status: 200,
+      headers: {
+        'x-abba-upload-offset': String(offset),
+        'x-abba-upload-length': String(job.bundle_size),
+        'x-abba-publish-status': job.status,
+      },
+    });
+  } catch (error) {
+    console.error('[publish:upload] Error reading upload offset:', error);
+    return new NextResponse(null, { status: 500 });
   }
-}
+});
@@ -0,0 +1,85 @@
+/**
+ * Shared Device Token Quota Tests
+ *
+ * Callers on the shared device token have no verified profile, so their
+ * quotas and usage are those of their client IP.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { resetRateLimitForTesting } from '@/lib/rate-limit';
+import { clearInMemoryStoreForTesting } from '@/lib/db';
+import { POST as publishStart } from './publish/start/route';
+import { GET as usage } from './usage/route';
+
+// Mock Supabase to use in-memory stores
+vi.mock('@/lib/supabase', () => ({
+  isSupabaseConfigured: () => false,
+  getSupabaseClient: () => null,
+}));
+
+const ENV_TOKEN = 'device-token-for-shared-token-quota-tests';
+
+function startRequest(ip: string) {
+  return new NextRequest('http://localhost/api/v1/publish/start', {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      'x-abba-device-token': ENV_TOKEN,
+      'x-forwarded-for': ip,
+    },
+    body: JSON.stringify({ appId: 1, bundleHash: 'a'.repeat(64), bundleSize: 100 }),
+  });
+}
+
+function usageRequest(ip: string, query = '') {
+  return new NextRequest(`http://localhost/api/v1/usage${query}`, {
+    headers: { 'x-abba-device-token': ENV_TOKEN, 'x-forwarded-for': ip },
+  });
+}
+
+describe('shared device token quotas', () => {
+  beforeEach(() => {
+    resetRateLimitForTesting();
+    clearInMemoryStoreForTesting();
+    process.env.ABBA_DEVICE_TOKEN = ENV_TOKEN;
+    process.env.ABBA_TRUSTED_PROXIES = '1';
+    process.env.ABBA_QUOTA_PUBLISHES_PER_DAY = '1';
+  });
+
+  afterEach(() => {
+    delete process.env.ABBA_DEVICE_TOKEN;
+    delete process.env.ABBA_TRUSTED_PROXIES;
+    delete process.env.ABBA_QUOTA_PUBLISHES_PER_DAY;
+  });
+
+  it('refuses a caller without a profile once its client IP is over quota', async () => {
+    expect((await publishStart(startRequest('203.0.113.1'))).status).toBe(200);
+
+    const response = await publishStart(startRequest('203.0.113.1'));
+    expect(response.status).toBe(429);
+    expect(await response.json()).toMatchObject({
+      error: 'QuotaExceeded',
+      quota: 'publishesPerDay',
+      scope: 'device',
+    });
+
+    expect((await publishStart(startRequest('203.0.113.2'))).status).toBe(200);
+  });
+
+  it('reports the usage of the calling client IP', async () => {
+    await publishStart(startRequest('203.0.113.1'));
+
+    const response = await usage(usageRequest('203.0.113.2'));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      device: { id: 'env', publishes: 0 },
+      profile: null,
+    });
+  });
+
+  it("refuses to report another profile's usage", async () => {
+    const response = await usage(usageRequest('203.0.113.1', '?profileId=user-1'));
+    expect(response.status).toBe(403);
+  });
+});
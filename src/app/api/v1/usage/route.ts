@@ -0,0 +1,62 @@
+/**
+ * Usage Endpoint
+ *
+ * GET /api/v1/usage[?profileId=...]
+ * Reports quota limits and today's usage for the calling device (for the
+ * shared token, the calling client) and its bound profile. Callers can only
+ * see their own usage, so profileId must name the device's bound profile.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedDevice, getJobOwnerScope, requireAuth } from '@/lib/auth';
+import { checkRateLimit, withRateLimitHeaders } from '@/lib/rate-limit';
+import { getQuotaUsage } from '@/lib/quotas';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withRateLimitHeaders(async (request: NextRequest) => {
+  // Check auth
+  const authError = await requireAuth(request, 'publish:read');
+  if (authError) return authError;
+
+  // Check rate limit
+  const rateLimitError = await checkRateLimit(request);
+  if (rateLimitError) return rateLimitError;
+
+  try {
+    const device = getAuthenticatedDevice(request)!;
+    const requestedProfileId = request.nextUrl.searchParams.get('profileId');
+
+    // Only the device's own bound profile can be looked up
+    if (requestedProfileId && requestedProfileId !== device.profileId) {
+      return NextResponse.json(
+        { error: 'Forbidden', message: 'profileId does not match the device owner' },
+        { status: 403 }
+      );
+    }
+
+    const profileId = device.profileId;
+    const usage = await getQuotaUsage({
+      deviceId: device.id,
+      profileId,
+      clientIp: getJobOwnerScope(request)?.clientIp ?? null,
+    });
+
+    return NextResponse.json({
+      windowStart: usage.windowStart,
+      resetAt: usage.resetAt,
+      limits: usage.limits,
+      device: { id: device.id, ...usage.device },
+      profile: usage.profile && { id: profileId, ...usage.profile },
+    });
+  } catch (error) {
+    console.error('[usage] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -3,9 +3,96 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { constantTimeCompare, getTokenHashPrefix } from './auth';
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import {
+  constantTimeCompare,
+  getTokenHashPrefix,
+  authenticateDeviceToken,
+  requireAuth,
+  hasScope,
+  getAuthenticatedDevice,
+  authenticateRequest,
+  getJobOwnerScope,
+  getSignedBodyHash,
+} from './auth';
+import { issueDeviceToken, revokeDeviceToken, clearDeviceTokensForTesting } from './device-tokens';
+import { listLockouts } from './lockout';
+import {
+  buildCanonicalRequest,
+  canonicalQuery,
+  computeSignature,
+  deriveSigningKey,
+} from './signing';
+import { resetRateLimitForTesting } from './rate-limit';
+
+// Mock Supabase to use in-memory store
+vi.mock('./supabase', () => ({
+  isSupabaseConfigured: () => false,
+  getSupabaseClient: () => null,
+}));
+
+// Mock NextRequest
+function createMockRequest(token?: string, ip?: string): NextRequest {
+  const headers = new Headers();
+  if (token !== undefined) {
+    headers.set('x-abba-device-token', token);
+  }
+  if (ip !== undefined) {
+    headers.set('x-forwarded-for', ip);
+  }
+
+  return {
+    headers,
+    nextUrl: new URL('http://localhost/api/test'),
+  } as unknown as NextRequest;
+}
+
+// Build a signed NextRequest the way the desktop client does
+function createSignedRequest(params: {
+  token: string;
+  keyId: string;
+  method?: string;
+  url?: string;
+  body?: string;
+  timestamp?: number;
+  nonce?: string;
+  contentSha256?: string;
+}): NextRequest {
+  const method = params.method || 'POST';
+  const url = new URL(params.url || 'http://localhost/api/v1/publish/start?b=2&a=1');
+  const body = params.body ?? '{"appId":1}';
+  const timestamp = String(params.timestamp ?? Math.floor(Date.now() / 1000));
+  const nonce = params.nonce || crypto.randomBytes(16).toString('hex');
+
+  const canonical = buildCanonicalRequest({
+    method,
+    path: url.pathname,
+    query: canonicalQuery(url.searchParams),
+    timestamp,
+    nonce,
+    bodyHash: crypto.createHash('sha256').update(body).digest('hex'),
+  });
+
+  return new NextRequest(url, {
+    method,
+    body: method === 'GET' ? undefined : body,
+    headers: {
+      'x-abba-key-id': params.keyId,
+      'x-abba-timestamp': timestamp,
+      'x-abba-nonce': nonce,
+      'x-abba-signature': computeSignature(deriveSigningKey(params.token), canonical),
+      ...(params.contentSha256 ? { 'x-abba-content-sha256': params.contentSha256 } : {}),
+    },
+  });
+}
 
 describe('auth', () => {
+  beforeEach(() => {
+    // Keep failed attempts from locking later tests out
+    resetRateLimitForTesting();
+  });
+
   describe('constantTimeCompare', () => {
     it('returns true for identical strings', () => {
       expect(constantTimeCompare('hello', 'hello')).toBe(true);
@@ -88,7 +175,7 @@ describe('auth', () => {
       process.env.ABBA_DEVICE_TOKEN = 'correct-token';
       const { validateDeviceTokenDetailed: fn } = await import('./auth');
       const result = fn('correct-token');
-      expect(result).toEqual({ valid: true });
+      expect(result).toEqual({ valid: true, slot: 'current', expiresAt: null });
     });
 
     it('returns not_configured when ABBA_DEVICE_TOKEN is not set', async () => {
@@ -113,6 +200,73 @@ describe('auth', () => {
     });
   });
 
+  describe('token rotation', () => {
+    const originalEnv = process.env.ABBA_DEVICE_TOKEN;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+      process.env.ABBA_DEVICE_TOKEN = 'old-token';
+      process.env.ABBA_DEVICE_TOKEN_NEXT = 'new-token';
+      process.env.ABBA_DEVICE_TOKEN_EXPIRES_AT = '2026-01-08T00:00:00.000Z';
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      delete process.env.ABBA_DEVICE_TOKEN_NEXT;
+      delete process.env.ABBA_DEVICE_TOKEN_EXPIRES_AT;
+      if (originalEnv !== undefined) {
+        process.env.ABBA_DEVICE_TOKEN = originalEnv;
+      } else {
+        delete process.env.ABBA_DEVICE_TOKEN;
+      }
+    });
+
+    it('accepts the current token until it expires', async () => {
+      const { validateDeviceTokenDetailed: fn } = await import('./auth');
+      expect(fn('old-token')).toEqual({
+        valid: true,
+        slot: 'current',
+        expiresAt: '2026-01-08T00:00:00.000Z',
+      });
+    });
+
+    it('accepts the next token with no expiry', async () => {
+      const { validateDeviceTokenDetailed: fn } = await import('./auth');
+      expect(fn('new-token')).toEqual({ valid: true, slot: 'next', expiresAt: null });
+    });
+
+    it('rejects the current token after it expires', async () => {
+      const { validateDeviceTokenDetailed: fn } = await import('./auth');
+      vi.setSystemTime(new Date('2026-01-08T00:00:01.000Z'));
+      expect(fn('old-token')).toEqual({ valid: false, reason: 'expired' });
+      expect(fn('new-token').valid).toBe(true);
+    });
+
+    it('rejects tokens matching neither slot', async () => {
+      const { validateDeviceTokenDetailed: fn } = await import('./auth');
+      expect(fn('other-token')).toEqual({ valid: false, reason: 'invalid' });
+    });
+
+    it('ignores an unparseable expiry', async () => {
+      process.env.ABBA_DEVICE_TOKEN_EXPIRES_AT = 'next tuesday';
+      const { validateDeviceTokenDetailed: fn } = await import('./auth');
+      expect(fn('old-token')).toEqual({ valid: true, slot: 'current', expiresAt: null });
+    });
+
+    it('is configured with only the next slot set', async () => {
+      delete process.env.ABBA_DEVICE_TOKEN;
+      const { isServerTokenConfigured, isTokenRotationPending } = await import('./auth');
+      expect(isServerTokenConfigured()).toBe(true);
+      expect(isTokenRotationPending()).toBe(true);
+    });
+
+    it('reports the matched slot on the authenticated device', async () => {
+      const result = await authenticateDeviceToken('new-token');
+      expect(result.valid && result.device.slot).toBe('next');
+    });
+  });
+
   describe('getTokenHashPrefix', () => {
     it('returns 8-character hex string', () => {
       const hash = getTokenHashPrefix('test-token');
@@ -165,4 +319,474 @@ describe('auth', () => {
       expect(fn()).toBe(false);
     });
   });
+
+  describe('authenticateDeviceToken', () => {
+    const originalEnv = process.env.ABBA_DEVICE_TOKEN;
+
+    beforeEach(() => {
+      clearDeviceTokensForTesting();
+      process.env.ABBA_DEVICE_TOKEN = 'env-token';
+    });
+
+    afterEach(() => {
+      if (originalEnv !== undefined) {
+        process.env.ABBA_DEVICE_TOKEN = originalEnv;
+      } else {
+        delete process.env.ABBA_DEVICE_TOKEN;
+      }
+    });
+
+    it('resolves registered tokens to their device', async () => {
+      const { token, device } = await issueDeviceToken({ label: 'Laptop', profileId: 'user-1' });
+
+      const result = await authenticateDeviceToken(token);
+      expect(result).toEqual({
+        valid: true,
+        device: {
+          id: device.id,
+          label: 'Laptop',
+          profileId: 'user-1',
+          source: 'registry',
+          slot: 'registry',
+          expiresAt: null,
+          scopes: ['publish:write', 'publish:read', 'publish:cancel'],
+        },
+      });
+    });
+
+    it('rejects revoked tokens', async () => {
+      const { token, device } = await issueDeviceToken({ label: 'Lost laptop' });
+      await revokeDeviceToken(device.id);
+
+      const result = await authenticateDeviceToken(token);
+      expect(result).toEqual({ valid: false, reason: 'revoked' });
+    });
+
+    it('falls back to ABBA_DEVICE_TOKEN', async () => {
+      const result = await authenticateDeviceToken('env-token');
+      expect(result.valid).toBe(true);
+      expect(result.valid && result.device.source).toBe('env');
+    });
+
+    it('rejects unknown tokens', async () => {
+      const result = await authenticateDeviceToken('unknown-token');
+      expect(result).toEqual({ valid: false, reason: 'invalid' });
+    });
+
+    it('resolves ABBA_ADMIN_TOKEN to the admin device', async () => {
+      process.env.ABBA_ADMIN_TOKEN = 'admin-token';
+      try {
+        const result = await authenticateDeviceToken('admin-token');
+        expect(result.valid && result.device).toMatchObject({
+          id: 'admin',
+          source: 'admin',
+          slot: 'admin',
+          scopes: expect.arrayContaining(['admin']),
+        });
+      } finally {
+        delete process.env.ABBA_ADMIN_TOKEN;
+      }
+    });
+
+    it('works without ABBA_DEVICE_TOKEN when devices are registered', async () => {
+      delete process.env.ABBA_DEVICE_TOKEN;
+      const { token } = await issueDeviceToken({ label: 'Laptop' });
+
+      expect((await authenticateDeviceToken(token)).valid).toBe(true);
+      expect(await authenticateDeviceToken('unknown-token')).toEqual({
+        valid: false,
+        reason: 'invalid',
+      });
+      expect(await authenticateDeviceToken(null)).toEqual({ valid: false, reason: 'missing' });
+    });
+
+    it('reports not_configured with no env token and no devices', async () => {
+      delete process.env.ABBA_DEVICE_TOKEN;
+      const result = await authenticateDeviceToken('any-token');
+      expect(result).toEqual({ valid: false, reason: 'not_configured' });
+    });
+  });
+
+  describe('requireAuth', () => {
+    beforeEach(() => {
+      clearDeviceTokensForTesting();
+      process.env.ABBA_DEVICE_TOKEN = 'env-token';
+    });
+
+    afterEach(() => {
+      delete process.env.ABBA_DEVICE_TOKEN;
+    });
+
+    it('attaches the resolved device to the request', async () => {
+      const { token, device } = await issueDeviceToken({ label: 'Laptop' });
+      const request = createMockRequest(token);
+
+      expect(await requireAuth(request)).toBeNull();
+      expect(getAuthenticatedDevice(request)?.id).toBe(device.id);
+    });
+
+    it('returns 401 for revoked tokens', async () => {
+      const { token, device } = await issueDeviceToken({ label: 'Laptop' });
+      await revokeDeviceToken(device.id);
+      const request = createMockRequest(token);
+
+      const response = await requireAuth(request);
+      expect(response?.status).toBe(401);
+      expect(getAuthenticatedDevice(request)).toBeNull();
+    });
+
+    it('returns 401 when the header is missing', async () => {
+      const response = await requireAuth(createMockRequest());
+      expect(response?.status).toBe(401);
+    });
+  });
+
+  describe('scopes', () => {
+    beforeEach(() => {
+      clearDeviceTokensForTesting();
+      process.env.ABBA_DEVICE_TOKEN = 'env-token';
+    });
+
+    afterEach(() => {
+      delete process.env.ABBA_DEVICE_TOKEN;
+    });
+
+    it('gives the shared device token publish scopes but not admin', async () => {
+      expect(await requireAuth(createMockRequest('env-token'), 'publish:cancel')).toBeNull();
+      expect((await requireAuth(createMockRequest('env-token'), 'admin'))?.status).toBe(403);
+    });
+
+    it('grants every scope to the admin token', async () => {
+      process.env.ABBA_ADMIN_TOKEN = 'admin-token';
+      try {
+        expect(await requireAuth(createMockRequest('admin-token'), 'admin')).toBeNull();
+        expect(await requireAuth(createMockRequest('admin-token'), 'publish:cancel')).toBeNull();
+      } finally {
+        delete process.env.ABBA_ADMIN_TOKEN;
+      }
+    });
+
+    it('gives new device tokens publish scopes but not admin', async () => {
+      const { token, device } = await issueDeviceToken({ label: 'Laptop' });
+
+      expect(device.scopes).toEqual(['publish:write', 'publish:read', 'publish:cancel']);
+      expect(await requireAuth(createMockRequest(token), 'publish:write')).toBeNull();
+
+      const response = await requireAuth(createMockRequest(token), 'admin');
+      expect(response?.status).toBe(403);
+    });
+
+    it('names the missing scope in the 403 body', async () => {
+      const { token } = await issueDeviceToken({ label: 'Support', scopes: ['publish:read'] });
+
+      const response = await requireAuth(createMockRequest(token), 'publish:cancel');
+      expect(response?.status).toBe(403);
+      expect(await response?.json()).toEqual({
+        error: 'Forbidden',
+        message: 'Missing required scope: publish:cancel',
+        requiredScope: 'publish:cancel',
+      });
+    });
+
+    it('does not attach the device when the scope is missing', async () => {
+      const { token } = await issueDeviceToken({ label: 'Bot', scopes: ['publish:write'] });
+      const request = createMockRequest(token);
+
+      await requireAuth(request, 'publish:cancel');
+      expect(getAuthenticatedDevice(request)).toBeNull();
+    });
+
+    it('reports scopes on the authenticated device', async () => {
+      const { token } = await issueDeviceToken({ label: 'Support', scopes: ['publish:read'] });
+      const result = await authenticateDeviceToken(token);
+      expect(result.valid && hasScope(result.device, 'publish:read')).toBe(true);
+      expect(result.valid && hasScope(result.device, 'publish:write')).toBe(false);
+    });
+  });
+
+  describe('getJobOwnerScope', () => {
+    beforeEach(() => {
+      clearDeviceTokensForTesting();
+      process.env.ABBA_DEVICE_TOKEN = 'env-token';
+    });
+
+    afterEach(() => {
+      delete process.env.ABBA_DEVICE_TOKEN;
+      delete process.env.ABBA_ADMIN_TOKEN;
+      delete process.env.ABBA_TRUSTED_PROXIES;
+    });
+
+    it('scopes registered devices to themselves and their profile', async () => {
+      const { token, device } = await issueDeviceToken({ label: 'Laptop', profileId: 'user-1' });
+      const request = createMockRequest(token);
+      await requireAuth(request);
+
+      expect(getJobOwnerScope(request)).toEqual({
+        deviceId: device.id,
+        profileId: 'user-1',
+        clientIp: null,
+      });
+    });
+
+    it('scopes shared device token callers to the env device and their IP', async () => {
+      process.env.ABBA_TRUSTED_PROXIES = '1';
+      const request = createMockRequest('env-token', '203.0.113.1');
+      await requireAuth(request);
+
+      expect(getJobOwnerScope(request)).toEqual({
+        deviceId: 'env',
+        profileId: null,
+        clientIp: '203.0.113.1',
+      });
+    });
+
+    it('leaves admin callers unscoped', async () => {
+      process.env.ABBA_ADMIN_TOKEN = 'admin-token';
+      const request = createMockRequest('admin-token');
+      await requireAuth(request);
+
+      expect(getJobOwnerScope(request)).toBeUndefined();
+    });
+
+    it('throws for unauthenticated requests', () => {
+      expect(() => getJobOwnerScope(createMockRequest())).toThrow();
+    });
+  });
+
+  describe('signed requests', () => {
+    beforeEach(() => {
+      clearDeviceTokensForTesting();
+      resetRateLimitForTesting();
+      process.env.ABBA_DEVICE_TOKEN = 'env-token';
+    });
+
+    afterEach(() => {
+      delete process.env.ABBA_DEVICE_TOKEN;
+      delete process.env.ABBA_DEVICE_TOKEN_NEXT;
+      delete process.env.ABBA_REQUIRE_SIGNED_REQUESTS;
+    });
+
+    it('accepts a request signed with a registered device key', async () => {
+      const { token, device } = await issueDeviceToken({ label: 'Laptop' });
+      const result = await authenticateRequest(createSignedRequest({ token, keyId: device.id }));
+
+      expect(result.valid && result.device.id).toBe(device.id);
+    });
+
+    it('accepts requests signed with either env slot', async () => {
+      process.env.ABBA_DEVICE_TOKEN_NEXT = 'next-token';
+
+      const current = await authenticateRequest(
+        createSignedRequest({ token: 'env-token', keyId: 'env' })
+      );
+      const next = await authenticateRequest(
+        createSignedRequest({ token: 'next-token', keyId: 'env' })
+      );
+
+      expect(current.valid && current.device.slot).toBe('current');
+      expect(next.valid && next.device.slot).toBe('next');
+    });
+
+    it('rejects a signature made with the wrong key', async () => {
+      const { device } = await issueDeviceToken({ label: 'Laptop' });
+      const result = await authenticateRequest(
+        createSignedRequest({ token: 'wrong-token', keyId: device.id })
+      );
+
+      expect(result).toEqual({
+        valid: false,
+        reason: 'invalid_signature',
+        credential: `key:${device.id}`,
+      });
+    });
+
+    it('rejects a tampered body', async () => {
+      const request = createSignedRequest({ token: 'env-token', keyId: 'env' });
+      const tampered = new NextRequest(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: '{"appId":2}',
+      });
+
+      expect(await authenticateRequest(tampered)).toEqual({
+        valid: false,
+        reason: 'invalid_signature',
+        credential: 'key:env',
+      });
+    });
+
+    it('checks the body against a declared content hash', async () => {
+      const body = '{"appId":1}';
+      const bodyHash = crypto.createHash('sha256').update(body).digest('hex');
+
+      const matching = await authenticateRequest(
+        createSignedRequest({ token: 'env-token', keyId: 'env', body, contentSha256: bodyHash })
+      );
+      const mismatched = await authenticateRequest(
+        createSignedRequest({ token: 'env-token', keyId: 'env', contentSha256: 'a'.repeat(64) })
+      );
+      const malformed = await authenticateRequest(
+        createSignedRequest({ token: 'env-token', keyId: 'env', contentSha256: 'not-a-hash' })
+      );
+
+      expect(matching.valid).toBe(true);
+      expect(mismatched).toEqual({ valid: false, reason: 'invalid_signature' });
+      expect(malformed).toEqual({ valid: false, reason: 'invalid_signature' });
+    });
+
+    it('leaves the body check to streaming routes', async () => {
+      const body = 'bundle bytes';
+      const bodyHash = crypto.createHash('sha256').update(body).digest('hex');
+      const request = createSignedRequest({
+        token: 'env-token',
+        keyId: 'env',
+        method: 'PUT',
+        url: 'http://localhost/api/v1/publish/upload?publishId=abc',
+        body,
+        contentSha256: bodyHash,
+      });
+
+      const result = await authenticateRequest(request, { streamedBody: true });
+
+      expect(result.valid).toBe(true);
+      expect(request.bodyUsed).toBe(false);
+      expect(getSignedBodyHash(request)).toBe(bodyHash);
+    });
+
+    it('rejects timestamps outside the skew window', async () => {
+      const result = await authenticateRequest(
+        createSignedRequest({
+          token: 'env-token',
+          keyId: 'env',
+          timestamp: Math.floor(Date.now() / 1000) - 3600,
+        })
+      );
+
+      expect(result).toEqual({ valid: false, reason: 'stale_timestamp' });
+    });
+
+    it('rejects a reused nonce', async () => {
+      const nonce = 'fixed-nonce-0123456789';
+      const first = await authenticateRequest(
+        createSignedRequest({ token: 'env-token', keyId: 'env', nonce })
+      );
+      const replay = await authenticateRequest(
+        createSignedRequest({ token: 'env-token', keyId: 'env', nonce })
+      );
+
+      expect(first.valid).toBe(true);
+      expect(replay).toEqual({ valid: false, reason: 'replayed_nonce' });
+    });
+
+    it('does not consume nonces for bad signatures', async () => {
+      const nonce = 'fixed-nonce-0123456789';
+      await authenticateRequest(createSignedRequest({ token: 'wrong', keyId: 'env', nonce }));
+      const result = await authenticateRequest(
+        createSignedRequest({ token: 'env-token', keyId: 'env', nonce })
+      );
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('rejects revoked device keys', async () => {
+      const { token, device } = await issueDeviceToken({ label: 'Laptop' });
+      await revokeDeviceToken(device.id);
+
+      const result = await authenticateRequest(createSignedRequest({ token, keyId: device.id }));
+      expect(result).toEqual({ valid: false, reason: 'revoked' });
+    });
+
+    it('still accepts bearer tokens by default', async () => {
+      expect((await authenticateRequest(createMockRequest('env-token'))).valid).toBe(true);
+    });
+
+    it('rejects bearer tokens when signing is required', async () => {
+      process.env.ABBA_REQUIRE_SIGNED_REQUESTS = 'true';
+
+      expect(await authenticateRequest(createMockRequest('env-token'))).toEqual({
+        valid: false,
+        reason: 'signature_required',
+      });
+      expect(
+        (await authenticateRequest(createSignedRequest({ token: 'env-token', keyId: 'env' }))).valid
+      ).toBe(true);
+    });
+  });
+
+  describe('lockout', () => {
+    beforeEach(() => {
+      clearDeviceTokensForTesting();
+      process.env.ABBA_DEVICE_TOKEN = 'env-token';
+      // Test requests carry their address in x-forwarded-for
+      process.env.ABBA_TRUSTED_PROXIES = '1';
+    });
+
+    afterEach(() => {
+      delete process.env.ABBA_DEVICE_TOKEN;
+      delete process.env.ABBA_TRUSTED_PROXIES;
+    });
+
+    it('locks out an IP after repeated invalid tokens', async () => {
+      for (let i = 0; i < 10; i++) {
+        await requireAuth(createMockRequest(`guess-${i}`, '203.0.113.7'));
+      }
+
+      const response = await requireAuth(createMockRequest('env-token', '203.0.113.7'));
+      expect(response?.status).toBe(429);
+      expect(response?.headers.get('Retry-After')).toBe('60');
+      expect((await response?.json()).error).toBe('TooManyFailedAttempts');
+      expect(await requireAuth(createMockRequest('env-token', '203.0.113.8'))).toBeNull();
+    });
+
+    it('counts callers without a known address under one shared source', async () => {
+      for (let i = 0; i < 10; i++) {
+        await requireAuth(createMockRequest(`guess-${i}`));
+      }
+
+      expect(await listLockouts()).toEqual([
+        expect.objectContaining({ key: 'ip:unknown', lockedUntil: expect.any(String) }),
+      ]);
+      // Further failures are refused, but a valid token still gets through
+      expect((await requireAuth(createMockRequest('guess-10')))?.status).toBe(429);
+      expect(await requireAuth(createMockRequest('env-token'))).toBeNull();
+    });
+
+    it('does not count missing tokens', async () => {
+      for (let i = 0; i < 10; i++) {
+        await requireAuth(createMockRequest(undefined, '203.0.113.7'));
+      }
+
+      expect(await requireAuth(createMockRequest('env-token', '203.0.113.7'))).toBeNull();
+    });
+
+    it('does not count failures against key IDs that do not exist', async () => {
+      for (let i = 0; i < 10; i++) {
+        await authenticateRequest(
+          createSignedRequest({ token: 'wrong', keyId: crypto.randomUUID() })
+        );
+      }
+
+      // Only the caller's IP source counts them
+      expect((await listLockouts()).map((lockout) => lockout.key)).toEqual(['ip:unknown']);
+    });
+
+    it('never lets a signing key lockout block a request that verifies', async () => {
+      const failures = [];
+      for (let i = 0; i < 10; i++) {
+        failures.push(
+          await authenticateRequest(createSignedRequest({ token: 'wrong', keyId: 'env' }))
+        );
+      }
+
+      expect(failures[8]).toEqual({
+        valid: false,
+        reason: 'invalid_signature',
+        credential: 'key:env',
+      });
+      expect(failures[9]).toEqual({ valid: false, reason: 'locked_out', retryAfter: 60 });
+      expect(
+        (await authenticateRequest(createSignedRequest({ token: 'env-token', keyId: 'env' }))).valid
+      ).toBe(true);
+    });
+  });
 });
@@ -1,27 +1,105 @@
 /**
  * Authentication Middleware
  *
- * Validates the device token for API requests.
+ * Validates the device token for API requests against the device token
+ * registry, falling back to the shared ABBA_DEVICE_TOKEN (and
+ * ABBA_DEVICE_TOKEN_NEXT while a rotation is in progress). Admin endpoints
+ * take the separate ABBA_ADMIN_TOKEN, which is never handed to desktop apps.
  * Uses constant-time comparison to prevent timing attacks.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import crypto from 'crypto';
+import {
+  findDeviceTokenByHash,
+  getDeviceTokenById,
+  hasActiveDeviceTokens,
+  hashDeviceToken,
+  touchDeviceToken,
+} from './device-tokens';
+import {
+  SIGNATURE_HEADERS,
+  buildCanonicalRequest,
+  canonicalQuery,
+  computeSignature,
+  consumeNonce,
+  deriveSigningKey,
+  isSignedRequestRequired,
+  isTimestampWithinSkew,
+  isValidNonce,
+} from './signing';
+import type { JobOwner } from './db';
+import { checkLockout, recordAuthFailure, recordAuthSuccess } from './lockout';
+import { UNKNOWN_CLIENT_IP, getClientIp } from './client-ip';
+import { ALL_DEVICE_SCOPES, DEFAULT_DEVICE_SCOPES } from './types';
+import type { DeviceScope, DeviceToken } from './types';
 
 /**
- * Get the server's device token from environment.
+ * Server token slots. During a rotation the old token stays in
+ * ABBA_DEVICE_TOKEN until ABBA_DEVICE_TOKEN_EXPIRES_AT, while clients
+ * move over to ABBA_DEVICE_TOKEN_NEXT.
+ */
+export type TokenSlot = 'current' | 'next';
+
+interface ServerTokens {
+  current: string | null;
+  next: string | null;
+  /** When the current slot stops being accepted (null = never) */
+  currentExpiresAt: Date | null;
+}
+
+/**
+ * Read a token from environment.
  * Returns null if not configured (empty or missing).
  */
-function getServerToken(): string | null {
-  const token = process.env.ABBA_DEVICE_TOKEN;
+function readEnvToken(name: string): string | null {
+  const token = process.env[name];
   return token && token.trim().length > 0 ? token.trim() : null;
 }
 
 /**
- * Check if the server token is configured
+ * Get the server's device tokens from environment
+ */
+function getServerTokens(): ServerTokens {
+  const expiresAtRaw = readEnvToken('ABBA_DEVICE_TOKEN_EXPIRES_AT');
+  let currentExpiresAt: Date | null = null;
+
+  if (expiresAtRaw) {
+    const parsed = new Date(expiresAtRaw);
+    if (isNaN(parsed.getTime())) {
+      console.error('[auth] ABBA_DEVICE_TOKEN_EXPIRES_AT is not a valid date, ignoring');
+    } else {
+      currentExpiresAt = parsed;
+    }
+  }
+
+  return {
+    current: readEnvToken('ABBA_DEVICE_TOKEN'),
+    next: readEnvToken('ABBA_DEVICE_TOKEN_NEXT'),
+    currentExpiresAt,
+  };
+}
+
+/**
+ * Get the admin token from environment (null if not configured)
+ */
+function getAdminToken(): string | null {
+  return readEnvToken('ABBA_ADMIN_TOKEN');
+}
+
+/**
+ * Check if the server token is configured (current or next slot)
  */
 export function isServerTokenConfigured(): boolean {
-  return getServerToken() !== null;
+  const { current, next } = getServerTokens();
+  return current !== null || next !== null;
+}
+
+/**
+ * Check if a token rotation is in progress (a next token is configured)
+ */
+export function isTokenRotationPending(): boolean {
+  return getServerTokens().next !== null;
 }
 
 /**
@@ -44,32 +122,51 @@ export function constantTimeCompare(a: string, b: string): boolean {
   return crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
 }
 
+/**
+ * Reasons a device token can be rejected
+ */
+export type AuthFailureReason =
+  | 'not_configured'
+  | 'missing'
+  | 'invalid'
+  | 'expired'
+  | 'revoked'
+  | 'invalid_signature'
+  | 'stale_timestamp'
+  | 'replayed_nonce'
+  | 'signature_required'
+  | 'locked_out';
+
 /**
  * Result of detailed token validation
  */
 export type TokenValidationResult =
-  | { valid: true }
-  | { valid: false; reason: 'not_configured' | 'missing' | 'invalid' };
+  | { valid: true; slot: TokenSlot; expiresAt: string | null }
+  | { valid: false; reason: 'not_configured' | 'missing' | 'invalid' | 'expired' };
 
 /**
  * Validate the device token with detailed error reason.
+ * Accepts the current slot (until it expires) and the next slot.
  * Also logs safe diagnostics (hash prefixes, not actual tokens).
  */
 export function validateDeviceTokenDetailed(token: string | null): TokenValidationResult {
-  const serverToken = getServerToken();
+  const { current, next, currentExpiresAt } = getServerTokens();
 
   // Log safe diagnostics
-  const serverConfigured = serverToken !== null;
+  const serverConfigured = current !== null || next !== null;
   const headerPresent = token !== null && token.length > 0;
-  const serverHashPrefix = serverToken ? getTokenHashPrefix(serverToken) : 'none';
+  const serverHashPrefix = current ? getTokenHashPrefix(current) : 'none';
+  const nextHashPrefix = next ? getTokenHashPrefix(next) : 'none';
   const clientHashPrefix = token ? getTokenHashPrefix(token) : 'none';
 
   console.log(
     `[auth] serverConfigured=${serverConfigured}, headerPresent=${headerPresent}, ` +
-      `serverHash=${serverHashPrefix}, clientHash=${clientHashPrefix}`
+      `serverHash=${serverHashPrefix}, ` +
+      (next ? `nextHash=${nextHashPrefix}, ` : '') +
+      `clientHash=${clientHashPrefix}`
   );
 
-  if (!serverToken) {
+  if (!serverConfigured) {
     console.error('[auth] ABBA_DEVICE_TOKEN not configured on server');
     return { valid: false, reason: 'not_configured' };
   }
@@ -78,8 +175,28 @@ export function validateDeviceTokenDetailed(token: string | null): TokenValidati
     return { valid: false, reason: 'missing' };
   }
 
-  if (constantTimeCompare(token, serverToken)) {
-    return { valid: true };
+  // Compare against both slots so timing doesn't reveal which one matched
+  const matchesCurrent = current !== null && constantTimeCompare(token, current);
+  const matchesNext = next !== null && constantTimeCompare(token, next);
+
+  if (matchesNext) {
+    return { valid: true, slot: 'next', expiresAt: null };
+  }
+
+  if (matchesCurrent) {
+    if (currentExpiresAt && currentExpiresAt.getTime() <= Date.now()) {
+      console.warn(
+        `[auth] Expired token used: server=${serverHashPrefix}..., ` +
+          `expiredAt=${currentExpiresAt.toISOString()}`
+      );
+      return { valid: false, reason: 'expired' };
+    }
+
+    return {
+      valid: true,
+      slot: 'current',
+      expiresAt: currentExpiresAt ? currentExpiresAt.toISOString() : null,
+    };
   }
 
   console.warn(
@@ -104,23 +221,410 @@ export function getDeviceToken(request: NextRequest): string | null {
 }
 
 /**
- * Auth middleware for API routes.
- * Returns null if authenticated, or an error response if not.
+ * Identity of an authenticated caller
+ */
+export interface AuthenticatedDevice {
+  /** Registry device ID, 'env' for the shared ABBA_DEVICE_TOKEN or 'admin' for ABBA_ADMIN_TOKEN */
+  id: string;
+  label: string;
+  profileId: string | null;
+  source: 'registry' | 'env' | 'admin';
+  /** Which token slot matched; registry and admin tokens have their own slot */
+  slot: 'registry' | 'admin' | TokenSlot;
+  /** When the matched slot stops being accepted (null = no scheduled expiry) */
+  expiresAt: string | null;
+  /** Capabilities granted to the token */
+  scopes: DeviceScope[];
+}
+
+/**
+ * Result of resolving a device token to a device
+ */
+export type DeviceAuthResult =
+  | { valid: true; device: AuthenticatedDevice }
+  | {
+      valid: false;
+      reason: AuthFailureReason;
+      retryAfter?: number;
+      /** Lockout key of an existing signing key whose signature check failed */
+      credential?: string;
+    };
+
+function registryDevice(registered: DeviceToken): AuthenticatedDevice {
+  return {
+    id: registered.id,
+    label: registered.label,
+    profileId: registered.profile_id,
+    source: 'registry',
+    slot: 'registry',
+    expiresAt: null,
+    scopes: registered.scopes,
+  };
+}
+
+function recordDeviceUse(device: AuthenticatedDevice): void {
+  if (device.source !== 'registry') {
+    return;
+  }
+
+  touchDeviceToken(device.id).catch((error) => {
+    console.error('[auth] Failed to record device token use:', error);
+  });
+}
+
+function envDevice(slot: TokenSlot, expiresAt: string | null): AuthenticatedDevice {
+  return {
+    id: 'env',
+    label: 'ABBA_DEVICE_TOKEN',
+    profileId: null,
+    source: 'env',
+    slot,
+    expiresAt,
+    // Shared with every desktop install, so it never gets admin
+    scopes: DEFAULT_DEVICE_SCOPES,
+  };
+}
+
+function adminDevice(): AuthenticatedDevice {
+  return {
+    id: 'admin',
+    label: 'ABBA_ADMIN_TOKEN',
+    profileId: null,
+    source: 'admin',
+    slot: 'admin',
+    expiresAt: null,
+    scopes: ALL_DEVICE_SCOPES,
+  };
+}
+
+/**
+ * Resolve a device token to a device.
+ * Checks the device token registry first, then ABBA_ADMIN_TOKEN and the
+ * shared ABBA_DEVICE_TOKEN.
+ */
+export async function authenticateDeviceToken(token: string | null): Promise<DeviceAuthResult> {
+  if (token) {
+    const registered = await findDeviceTokenByHash(hashDeviceToken(token));
+
+    if (registered?.revoked) {
+      console.warn(`[auth] Revoked device token used: device=${registered.id}`);
+      return { valid: false, reason: 'revoked' };
+    }
+
+    if (registered) {
+      const device = registryDevice(registered);
+      recordDeviceUse(device);
+      return { valid: true, device };
+    }
+
+    const adminToken = getAdminToken();
+    if (adminToken && constantTimeCompare(token, adminToken)) {
+      return { valid: true, device: adminDevice() };
+    }
+  }
+
+  const envResult = validateDeviceTokenDetailed(token);
+  if (envResult.valid) {
+    return { valid: true, device: envDevice(envResult.slot, envResult.expiresAt) };
+  }
+
+  // A broker running purely on registry tokens is not misconfigured
+  if (envResult.reason === 'not_configured' && (await hasActiveDeviceTokens())) {
+    return { valid: false, reason: token ? 'invalid' : 'missing' };
+  }
+
+  return envResult;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SHA256_HEX_PATTERN = /^[0-9a-f]{64}$/i;
+
+/**
+ * Options for routes with special authentication needs
+ */
+export interface AuthOptions {
+  /**
+   * The route streams the body and checks it against getSignedBodyHash()
+   * itself, so signed requests that declare x-abba-content-sha256 aren't
+   * buffered to verify the signature
+   */
+  streamedBody?: boolean;
+}
+
+// Declared body hashes the route must check the streamed body against
+const signedBodyHashes = new WeakMap<NextRequest, string>();
+
+/**
+ * Get the body hash a signed request declared but auth did not verify,
+ * because the route streams the body (see AuthOptions.streamedBody)
+ */
+export function getSignedBodyHash(request: NextRequest): string | null {
+  return signedBodyHashes.get(request) || null;
+}
+
+/**
+ * Resolve an HMAC-signed request to a device.
  *
- * Error responses:
- * - 503 BrokerMisconfigured: ABBA_DEVICE_TOKEN not set on server
- * - 401 Unauthorized: Missing or invalid device token from client
+ * The key ID is a registry device ID, 'admin' for ABBA_ADMIN_TOKEN, or 'env'
+ * for the shared token (both rotation slots are tried). Nonces are only consumed once the signature
+ * checks out, so unauthenticated callers can't burn them.
  */
-export function requireAuth(request: NextRequest): NextResponse | null {
-  const token = getDeviceToken(request);
-  const result = validateDeviceTokenDetailed(token);
+export async function authenticateSignedRequest(
+  request: NextRequest,
+  options: AuthOptions = {}
+): Promise<DeviceAuthResult> {
+  const keyId = request.headers.get(SIGNATURE_HEADERS.keyId);
+  const timestamp = request.headers.get(SIGNATURE_HEADERS.timestamp);
+  const nonce = request.headers.get(SIGNATURE_HEADERS.nonce);
+  const signature = request.headers.get(SIGNATURE_HEADERS.signature);
+  const declaredBodyHash = request.headers.get(SIGNATURE_HEADERS.contentSha256)?.toLowerCase();
+
+  if (
+    !keyId ||
+    !timestamp ||
+    !nonce ||
+    !signature ||
+    !isValidNonce(nonce) ||
+    (declaredBodyHash !== undefined && !SHA256_HEX_PATTERN.test(declaredBodyHash))
+  ) {
+    console.warn('[auth] Signed request is missing or has malformed signature headers');
+    return { valid: false, reason: 'invalid_signature' };
+  }
+
+  if (!isTimestampWithinSkew(timestamp)) {
+    console.warn(`[auth] Signed request timestamp outside window: key=${keyId}, ts=${timestamp}`);
+    return { valid: false, reason: 'stale_timestamp' };
+  }
+
+  // Collect the keys this request may have been signed with
+  const candidates: Array<{ signingKey: string; device: AuthenticatedDevice; expired: boolean }> =
+    [];
+
+  if (keyId === 'admin') {
+    const adminToken = getAdminToken();
+    if (adminToken) {
+      candidates.push({
+        signingKey: deriveSigningKey(adminToken),
+        device: adminDevice(),
+        expired: false,
+      });
+    }
+  } else if (keyId === 'env') {
+    const { current, next, currentExpiresAt } = getServerTokens();
+    if (next) {
+      candidates.push({
+        signingKey: deriveSigningKey(next),
+        device: envDevice('next', null),
+        expired: false,
+      });
+    }
+    if (current) {
+      candidates.push({
+        signingKey: deriveSigningKey(current),
+        device: envDevice('current', currentExpiresAt ? currentExpiresAt.toISOString() : null),
+        expired: currentExpiresAt !== null && currentExpiresAt.getTime() <= Date.now(),
+      });
+    }
+  } else if (UUID_PATTERN.test(keyId)) {
+    const registered = await getDeviceTokenById(keyId);
+
+    if (registered?.revoked) {
+      console.warn(`[auth] Revoked device token used: device=${registered.id}`);
+      return { valid: false, reason: 'revoked' };
+    }
+
+    // Tokens issued before signing keys were stored can only be used as bearer tokens
+    if (registered?.signing_key) {
+      candidates.push({
+        signingKey: registered.signing_key,
+        device: registryDevice(registered),
+        expired: false,
+      });
+    }
+  }
+
+  // Streaming routes check a declared body hash themselves; otherwise hash the body now
+  const deferBodyCheck = options.streamedBody === true && declaredBodyHash !== undefined;
+  let bodyHash: string;
+  if (deferBodyCheck) {
+    bodyHash = declaredBodyHash;
+  } else {
+    const body = Buffer.from(await request.clone().arrayBuffer());
+    const actualBodyHash = crypto.createHash('sha256').update(body).digest('hex');
+
+    if (declaredBodyHash !== undefined && declaredBodyHash !== actualBodyHash) {
+      console.warn(`[auth] Body does not match declared content hash: key=${keyId}`);
+      return { valid: false, reason: 'invalid_signature' };
+    }
+    bodyHash = actualBodyHash;
+  }
+
+  const canonicalRequest = buildCanonicalRequest({
+    method: request.method,
+    path: request.nextUrl.pathname,
+    query: canonicalQuery(request.nextUrl.searchParams),
+    timestamp,
+    nonce,
+    bodyHash,
+  });
+
+  // Check every candidate so timing doesn't reveal which one matched
+  const matches = candidates.map((candidate) =>
+    constantTimeCompare(
+      computeSignature(candidate.signingKey, canonicalRequest),
+      signature.toLowerCase()
+    )
+  );
+  const match = candidates.find((_, index) => matches[index]);
+
+  if (!match) {
+    console.warn(`[auth] Invalid request signature: key=${keyId}`);
+    // Only keys that exist are counted, so made-up key IDs can't lock anyone out
+    return candidates.length > 0
+      ? { valid: false, reason: 'invalid_signature', credential: `key:${keyId}` }
+      : { valid: false, reason: 'invalid_signature' };
+  }
+
+  if (match.expired) {
+    console.warn('[auth] Expired token used to sign request');
+    return { valid: false, reason: 'expired' };
+  }
+
+  if (!(await consumeNonce(keyId, nonce))) {
+    console.warn(`[auth] Replayed nonce: key=${keyId}`);
+    return { valid: false, reason: 'replayed_nonce' };
+  }
+
+  if (deferBodyCheck) {
+    signedBodyHashes.set(request, declaredBodyHash);
+  }
+
+  recordDeviceUse(match.device);
+  return { valid: true, device: match.device };
+}
+
+// Failures that look like credential guessing and count towards a lockout
+const LOCKOUT_COUNTED_REASONS: AuthFailureReason[] = ['invalid', 'invalid_signature'];
+
+/**
+ * Get the lockout source for a request's client IP. Callers whose address
+ * is unknown all share the `ip:unknown` source.
+ */
+export function getLockoutIpSource(request: NextRequest): { key: string; shared: boolean } {
+  const ip = getClientIp(request);
+  return { key: `ip:${ip}`, shared: ip === UNKNOWN_CLIENT_IP };
+}
+
+/**
+ * Authenticate a request using whichever mode it uses.
+ * Signed requests are checked by signature; bearer tokens are rejected
+ * when ABBA_REQUIRE_SIGNED_REQUESTS is enabled.
+ *
+ * Failures count towards a lockout of the client IP, and of the signing
+ * key when the request named one that exists. A locked out IP is rejected
+ * before any credential is checked. A locked out signing key, or the shared
+ * source of callers without a known IP, only turns failed requests into
+ * 429s, so a request that verifies always passes.
+ */
+export async function authenticateRequest(
+  request: NextRequest,
+  options: AuthOptions = {}
+): Promise<DeviceAuthResult> {
+  const ipSource = getLockoutIpSource(request);
+
+  if (!ipSource.shared) {
+    const lockout = await checkLockout([ipSource.key]);
+    if (lockout) {
+      console.warn(`[auth] Rejected locked out source: ${lockout.key}`);
+      return { valid: false, reason: 'locked_out', retryAfter: lockout.retryAfter };
+    }
+  }
+
+  const result = await authenticateCredentials(request, options);
 
   if (result.valid) {
-    return null;
+    // Only the signing key's count is reset; the IP may be shared with an attacker
+    if (request.headers.has(SIGNATURE_HEADERS.signature)) {
+      await recordAuthSuccess([`key:${result.device.id}`]);
+    }
+    return result;
+  }
+
+  if (!LOCKOUT_COUNTED_REASONS.includes(result.reason)) {
+    return result;
+  }
+
+  const lockoutKeys = [ipSource.key, result.credential].filter((key): key is string =>
+    Boolean(key)
+  );
+  const lockout = await recordAuthFailure(lockoutKeys);
+  if (lockout) {
+    console.warn(`[auth] Rejected locked out source: ${lockout.key}`);
+    return { valid: false, reason: 'locked_out', retryAfter: lockout.retryAfter };
+  }
+
+  return result;
+}
+
+async function authenticateCredentials(
+  request: NextRequest,
+  options: AuthOptions
+): Promise<DeviceAuthResult> {
+  if (request.headers.has(SIGNATURE_HEADERS.signature)) {
+    return authenticateSignedRequest(request, options);
+  }
+
+  if (isSignedRequestRequired()) {
+    return { valid: false, reason: 'signature_required' };
+  }
+
+  return authenticateDeviceToken(getDeviceToken(request));
+}
+
+// Devices resolved by requireAuth, keyed by the request they authenticated
+const authenticatedDevices = new WeakMap<NextRequest, AuthenticatedDevice>();
+
+/**
+ * Get the device attached to a request by requireAuth
+ */
+export function getAuthenticatedDevice(request: NextRequest): AuthenticatedDevice | null {
+  return authenticatedDevices.get(request) || null;
+}
+
+/**
+ * Get the job ownership scope for an authenticated request.
+ * Returns undefined for admin callers, who can see every job. Clients on the
+ * shared ABBA_DEVICE_TOKEN are all device 'env', so they are also scoped by
+ * client IP (the same way they are rate limited).
+ */
+export function getJobOwnerScope(request: NextRequest): JobOwner | undefined {
+  const device = getAuthenticatedDevice(request);
+  if (!device) {
+    throw new Error('getJobOwnerScope called on an unauthenticated request');
   }
 
+  if (hasScope(device, 'admin')) {
+    return undefined;
+  }
+
+  return {
+    deviceId: device.id,
+    profileId: device.profileId,
+    clientIp: device.source === 'env' ? getClientIp(request) : null,
+  };
+}
+
+/**
+ * Build the error response for a failed device auth.
+ *
+ * Error responses:
+ * - 503 BrokerMisconfigured: no ABBA_DEVICE_TOKEN and no registered devices
+ * - 401 Unauthorized: Missing, invalid, expired or revoked device token from client
+ * - 429 TooManyFailedAttempts: Source locked out after repeated failures
+ */
+export function authErrorResponse(reason: AuthFailureReason, retryAfter?: number): NextResponse {
   // Server misconfigured - return 503
-  if (result.reason === 'not_configured') {
+  if (reason === 'not_configured') {
     return NextResponse.json(
       {
         error: 'BrokerMisconfigured',
@@ -130,10 +634,78 @@ export function requireAuth(request: NextRequest): NextResponse | null {
     );
   }
 
+  // Locked out - return 429 with Retry-After
+  if (reason === 'locked_out') {
+    const seconds = retryAfter || 60;
+    return NextResponse.json(
+      {
+        error: 'TooManyFailedAttempts',
+        message: `Too many failed authentication attempts. Try again in ${seconds} seconds.`,
+      },
+      {
+        status: 429,
+        headers: {
+          'Retry-After': String(seconds),
+        },
+      }
+    );
+  }
+
   // Client error - return 401
-  const message = result.reason === 'missing' ? 'Missing device token' : 'Invalid device token';
+  const messages: Record<Exclude<AuthFailureReason, 'not_configured' | 'locked_out'>, string> = {
+    missing: 'Missing device token',
+    invalid: 'Invalid device token',
+    expired: 'Device token expired',
+    revoked: 'Device token revoked',
+    invalid_signature: 'Invalid request signature',
+    stale_timestamp: 'Request timestamp outside allowed window',
+    replayed_nonce: 'Request nonce already used',
+    signature_required: 'Signed request required',
+  };
+
+  return NextResponse.json({ error: 'Unauthorized', message: messages[reason] }, { status: 401 });
+}
+
+/**
+ * Check whether an authenticated device holds a scope
+ */
+export function hasScope(device: AuthenticatedDevice, scope: DeviceScope): boolean {
+  return device.scopes.includes(scope);
+}
+
+/**
+ * Auth middleware for API routes.
+ * Returns null if authenticated, or an error response if not.
+ * On success the resolved device is available via getAuthenticatedDevice().
+ *
+ * Routes pass the scope they need; a device without it gets 403 Forbidden
+ * with the missing scope named in the body.
+ */
+export async function requireAuth(
+  request: NextRequest,
+  scope?: DeviceScope,
+  options: AuthOptions = {}
+): Promise<NextResponse | null> {
+  const result = await authenticateRequest(request, options);
+
+  if (!result.valid) {
+    return authErrorResponse(result.reason, result.retryAfter);
+  }
+
+  if (scope && !hasScope(result.device, scope)) {
+    console.warn(`[auth] Device ${result.device.id} missing scope: ${scope}`);
+    return NextResponse.json(
+      {
+        error: 'Forbidden',
+        message: `Missing required scope: ${scope}`,
+        requiredScope: scope,
+      },
+      { status: 403 }
+    );
+  }
 
-  return NextResponse.json({ error: 'Unauthorized', message }, { status: 401 });
+  authenticatedDevices.set(request, result.device);
+  return null;
 }
 
 /**
@@ -2,10 +2,120 @@
  * Bundle Processing Tests
  */
 
-import { describe, it, expect } from 'vitest';
-import { computeHash, validateBundleSize } from './bundle';
+import { describe, it, expect, afterEach } from 'vitest';
+import crypto from 'crypto';
+import zlib from 'zlib';
+import JSZip from 'jszip';
+import tar from 'tar-stream';
+import {
+  BundleValidationError,
+  computeHash,
+  createBundleReport,
+  detectBundleFormat,
+  discardExtractedBundle,
+  ensureDefaultFiles,
+  extractBundle,
+  isBinaryContent,
+  normalizeBundlePath,
+  validateBundleSize,
+} from './bundle';
+import { readDeploymentFile } from './vercel';
+
+async function createZip(
+  entries: Record<string, string | Buffer>,
+  options: { unixPermissions?: Record<string, number> } = {}
+): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(entries)) {
+    zip.file(path, content, { unixPermissions: options.unixPermissions?.[path] });
+  }
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE', platform: 'UNIX' });
+}
+
+type TarEntry = { name: string; content?: string | Buffer } & Omit<
+  Partial<tar.Header>,
+  'name' | 'size'
+>;
+
+async function createTar(entries: TarEntry[]): Promise<Buffer> {
+  const pack = tar.pack();
+  for (const { content, ...header } of entries) {
+    pack.entry(header, content ?? '');
+  }
+  pack.finalize();
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of pack) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function expectRejection(promise: Promise<unknown>, code: string) {
+  const error = (await promise.catch((e: unknown) => e)) as BundleValidationError;
+  expect(error).toBeInstanceOf(BundleValidationError);
+  expect(error.code).toBe(code);
+  return error;
+}
+
+function bytes(...parts: Array<number[] | string>): Buffer {
+  return Buffer.concat(
+    parts.map((part) =>
+      typeof part === 'string' ? Buffer.from(part, 'latin1') : Buffer.from(part)
+    )
+  );
+}
+
+// Leading bytes of files users ship, padded the way real files continue
+const BINARY_CORPUS: Array<[string, Buffer]> = [
+  ['logo.png', bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], [0, 0, 0, 0x0d], 'IHDR')],
+  ['photo.jpg', bytes([0xff, 0xd8, 0xff, 0xe0], [0, 0x10], 'JFIF')],
+  ['anim.gif', bytes('GIF89a', [0x01, 0x00, 0x01, 0x00])],
+  ['hero.webp', bytes('RIFF', [0x24, 0, 0, 0], 'WEBPVP8 ')],
+  ['hero.avif', bytes([0, 0, 0, 0x1c], 'ftypavif', [0, 0, 0, 0])],
+  ['clip.mp4', bytes([0, 0, 0, 0x18], 'ftypmp42')],
+  ['module.wasm', bytes([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00])],
+  ['scene.glb', bytes('glTF', [0x02, 0, 0, 0])],
+  ['font.woff2', bytes('wOF2', [0x00, 0x01, 0x00, 0x00])],
+  ['font.ttf', bytes([0x00, 0x01, 0x00, 0x00, 0x00, 0x0f])],
+  ['favicon.ico', bytes([0x00, 0x00, 0x01, 0x00, 0x01, 0x00])],
+  ['manual.pdf', bytes('%PDF-1.7\n%', [0xe2, 0xe3, 0xcf, 0xd3])],
+  ['app.js.gz', bytes([0x1f, 0x8b, 0x08, 0x00])],
+  ['sound.ogg', bytes('OggS', [0x00, 0x02])],
+  // Misleading or missing extensions
+  ['model.bin', bytes([0x12, 0x34], 'weights', [0x00, 0xff])],
+  ['assets/wasm_bg', bytes([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00])],
+  ['data.json', bytes([0x1f, 0x8b, 0x08, 0x00])],
+  ['image', bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])],
+  ['notes.txt', bytes('caf', [0xe9], ' latin-1 text')],
+];
+
+const TEXT_CORPUS: Array<[string, Buffer]> = [
+  ['index.html', bytes('<!DOCTYPE html><html><body>Hi</body></html>')],
+  ['styles.css', bytes('body { margin: 0; }')],
+  ['app.js', bytes('export const greet = () => "hello";')],
+  ['data.json', Buffer.from('{"emoji":"🎉","name":"Zoë"}')],
+  ['icon.svg', bytes('<svg xmlns="http://www.w3.org/2000/svg"/>')],
+  ['README', bytes('# Extensionless text')],
+  ['bom.txt', bytes([0xef, 0xbb, 0xbf], 'text with BOM')],
+  ['empty.txt', Buffer.alloc(0)],
+  ['app.js.map', bytes('{"version":3,"sources":[]}')],
+];
+
+// Extraction directories left by the current test
+const extracted: string[] = [];
+
+async function extract(...args: Parameters<typeof extractBundle>) {
+  const result = await extractBundle(...args);
+  extracted.push(result.directory);
+  return result;
+}
 
 describe('bundle', () => {
+  afterEach(async () => {
+    await Promise.all(extracted.splice(0).map(discardExtractedBundle));
+  });
+
   describe('computeHash', () => {
     it('computes SHA256 hash', () => {
       const buffer = Buffer.from('hello world');
@@ -48,4 +158,431 @@ describe('bundle', () => {
       expect(validateBundleSize(0).valid).toBe(true);
     });
   });
+
+  describe('normalizeBundlePath', () => {
+    it('keeps ordinary relative paths', () => {
+      expect(normalizeBundlePath('assets/app.js')).toBe('assets/app.js');
+    });
+
+    it('converts backslashes and drops empty and dot segments', () => {
+      expect(normalizeBundlePath('assets\\img//./logo.png')).toBe('assets/img/logo.png');
+    });
+
+    it('rejects traversal', () => {
+      expect(() => normalizeBundlePath('../../etc/passwd')).toThrow(BundleValidationError);
+      expect(() => normalizeBundlePath('assets/../../secret')).toThrow('Path traversal');
+      expect(() => normalizeBundlePath('assets\\..\\..\\secret')).toThrow('Path traversal');
+    });
+
+    it('rejects absolute paths', () => {
+      expect(() => normalizeBundlePath('/etc/passwd')).toThrow('Absolute path');
+      expect(() => normalizeBundlePath('\\windows\\system32')).toThrow('Absolute path');
+      expect(() => normalizeBundlePath('C:\\Windows\\win.ini')).toThrow('Absolute path');
+    });
+
+    it('rejects control characters and empty paths', () => {
+      expect(() => normalizeBundlePath('index.html\u0000.js')).toThrow('Invalid characters');
+      expect(() => normalizeBundlePath('./')).toThrow('Empty path');
+    });
+  });
+
+  describe('extractBundle', () => {
+    it('extracts files', async () => {
+      const zip = await createZip({
+        'index.html': '<h1>Hi</h1>',
+        'assets/logo.png': Buffer.from([0x89, 0x50, 0x4e, 0x47]),
+      });
+
+      const { files, hash } = await extract(zip);
+
+      expect(hash).toBe(computeHash(zip));
+      expect(files.map((f) => [f.file, f.encoding])).toEqual([
+        ['index.html', undefined],
+        ['assets/logo.png', 'base64'],
+      ]);
+      expect(readDeploymentFile(files[0]).toString()).toBe('<h1>Hi</h1>');
+      expect(readDeploymentFile(files[1])).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    });
+
+    it('skips hidden files', async () => {
+      const zip = await createZip({ 'index.html': 'x', '.env': 'SECRET=1', 'a/.DS_Store': 'x' });
+
+      const { files } = await extract(zip);
+
+      expect(files.map((f) => f.file)).toEqual(['index.html']);
+    });
+
+    it('normalizes backslash paths', async () => {
+      const zip = await createZip({ 'assets\\app.js': 'console.log(1)' });
+
+      const { files } = await extract(zip);
+
+      expect(files[0].file).toBe('assets/app.js');
+    });
+
+    it('rejects zip-slip entries', async () => {
+      const zip = await createZip({ 'index.html': 'x', '../../etc/cron.d/evil': 'x' });
+
+      const error = await expectRejection(extractBundle(zip), 'path_traversal');
+      expect(error.path).toBe('../../etc/cron.d/evil');
+    });
+
+    it('rejects backslash traversal', async () => {
+      const zip = await createZip({ '..\\..\\evil.js': 'x' });
+      await expectRejection(extractBundle(zip), 'path_traversal');
+    });
+
+    it('rejects absolute paths', async () => {
+      const zip = await createZip({ 'C:\\evil.js': 'x' });
+      await expectRejection(extractBundle(zip), 'absolute_path');
+    });
+
+    it('rejects case-folded duplicates', async () => {
+      const zip = await createZip({ 'App.js': 'a', 'app.js': 'b' });
+
+      const error = await expectRejection(extractBundle(zip), 'duplicate_path');
+      expect(error.message).toContain('App.js');
+    });
+
+    it('rejects symlinks', async () => {
+      const zip = await createZip(
+        { 'index.html': 'x', 'secrets.txt': '/etc/passwd' },
+        { unixPermissions: { 'secrets.txt': 0o120777 } }
+      );
+
+      const error = await expectRejection(extractBundle(zip), 'symlink');
+      expect(error.path).toBe('secrets.txt');
+    });
+
+    it('accepts regular files with unix permissions', async () => {
+      const zip = await createZip(
+        { 'run.sh': 'echo hi' },
+        { unixPermissions: { 'run.sh': 0o100755 } }
+      );
+
+      const { files } = await extract(zip);
+
+      expect(files).toHaveLength(1);
+    });
+
+    it('rejects highly compressed entries', async () => {
+      const zip = await createZip({ 'bomb.txt': Buffer.alloc(8 * 1024 * 1024) });
+
+      const error = await expectRejection(extractBundle(zip), 'compression_ratio_exceeded');
+      expect(error.path).toBe('bomb.txt');
+    });
+
+    it('allows small repetitive files', async () => {
+      const zip = await createZip({ 'blank.txt': Buffer.alloc(64 * 1024, 0x20) });
+
+      const { files } = await extract(zip);
+
+      expect(files).toHaveLength(1);
+    });
+
+    it('limits total uncompressed size', async () => {
+      const zip = await createZip({ 'a.txt': 'a'.repeat(600), 'b.txt': 'b'.repeat(600) });
+
+      await expectRejection(
+        extractBundle(zip, { maxUncompressedBytes: 1000 }),
+        'uncompressed_size_exceeded'
+      );
+    });
+
+    it('rejects archives declaring too many entries before reading them', async () => {
+      // An end of central directory record claiming 20,001 entries and nothing else
+      const eocd = Buffer.alloc(22);
+      eocd.writeUInt32LE(0x06054b50, 0);
+      eocd.writeUInt16LE(20_001, 8);
+      eocd.writeUInt16LE(20_001, 10);
+
+      await expectRejection(extractBundle(eocd), 'too_many_entries');
+    });
+
+    it('rejects data that is not a zip archive', async () => {
+      await expectRejection(extractBundle(Buffer.from('not a zip')), 'malformed_archive');
+    });
+  });
+
+  describe('detectBundleFormat', () => {
+    it('detects formats from magic bytes', async () => {
+      const tarball = await createTar([{ name: 'index.html', content: 'x' }]);
+
+      expect(detectBundleFormat(await createZip({ 'index.html': 'x' }))).toBe('zip');
+      expect(detectBundleFormat(tarball)).toBe('tar');
+      expect(detectBundleFormat(zlib.gzipSync(tarball))).toBe('tar.gz');
+    });
+
+    it('prefers magic bytes over Content-Type', async () => {
+      const zip = await createZip({ 'index.html': 'x' });
+      expect(detectBundleFormat(zip, 'application/gzip')).toBe('zip');
+    });
+
+    it('falls back to Content-Type', () => {
+      const unknown = Buffer.from('no magic here');
+
+      expect(detectBundleFormat(unknown, 'application/x-tar')).toBe('tar');
+      expect(detectBundleFormat(unknown, 'Application/GZIP; charset=binary')).toBe('tar.gz');
+      expect(detectBundleFormat(unknown, 'application/octet-stream')).toBe('zip');
+      expect(detectBundleFormat(unknown)).toBe('zip');
+    });
+  });
+
+  describe.each(['tar', 'tar.gz'] as const)('extractBundle (%s)', (format) => {
+    async function createBundle(entries: TarEntry[]): Promise<Buffer> {
+      const tarball = await createTar(entries);
+      return format === 'tar.gz' ? zlib.gzipSync(tarball) : tarball;
+    }
+
+    it('extracts files in the same shape as ZIP bundles', async () => {
+      const bundle = await createBundle([
+        { name: 'assets', type: 'directory' },
+        { name: 'index.html', content: '<h1>Hi</h1>' },
+        { name: 'assets/logo.png', content: Buffer.from([0x89, 0x50, 0x4e, 0x47]) },
+        { name: '.env', content: 'SECRET=1' },
+      ]);
+
+      const result = await extract(bundle);
+
+      expect(result.format).toBe(format);
+      expect(result.hash).toBe(computeHash(bundle));
+      expect(result.files.map((f) => [f.file, f.encoding])).toEqual([
+        ['index.html', undefined],
+        ['assets/logo.png', 'base64'],
+      ]);
+      expect(readDeploymentFile(result.files[0]).toString()).toBe('<h1>Hi</h1>');
+      expect(readDeploymentFile(result.files[1])).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    });
+
+    it('keeps long paths', async () => {
+      const name = `${'nested/'.repeat(30)}index.html`;
+      const bundle = await createBundle([{ name, content: 'x' }]);
+
+      const { files } = await extract(bundle);
+
+      expect(files[0].file).toBe(name);
+    });
+
+    it('rejects path traversal', async () => {
+      const bundle = await createBundle([{ name: '../../etc/cron.d/evil', content: 'x' }]);
+
+      const error = await expectRejection(extractBundle(bundle), 'path_traversal');
+      expect(error.path).toBe('../../etc/cron.d/evil');
+    });
+
+    it('rejects absolute paths', async () => {
+      const bundle = await createBundle([{ name: '/etc/passwd', content: 'x' }]);
+      await expectRejection(extractBundle(bundle), 'absolute_path');
+    });
+
+    it('rejects case-folded duplicates', async () => {
+      const bundle = await createBundle([
+        { name: 'App.js', content: 'a' },
+        { name: 'app.js', content: 'b' },
+      ]);
+      await expectRejection(extractBundle(bundle), 'duplicate_path');
+    });
+
+    it('rejects symlinks', async () => {
+      const bundle = await createBundle([
+        { name: 'secrets.txt', type: 'symlink', linkname: '/etc/passwd' },
+      ]);
+
+      const error = await expectRejection(extractBundle(bundle), 'symlink');
+      expect(error.path).toBe('secrets.txt');
+    });
+
+    it('rejects hard links and special files', async () => {
+      await expectRejection(
+        extractBundle(
+          await createBundle([
+            { name: 'index.html', content: 'x' },
+            { name: 'copy.html', type: 'link', linkname: 'index.html' },
+          ])
+        ),
+        'unsupported_entry'
+      );
+      await expectRejection(
+        extractBundle(await createBundle([{ name: 'pipe', type: 'fifo' }])),
+        'unsupported_entry'
+      );
+    });
+
+    it('skips files over the per-file limit and keeps going', async () => {
+      const bundle = await createBundle([
+        { name: 'huge.bin', content: crypto.randomBytes(11 * 1024 * 1024) },
+        { name: 'index.html', content: 'x' },
+      ]);
+
+      const { files } = await extract(bundle);
+
+      expect(files.map((f) => f.file)).toEqual(['index.html']);
+    });
+
+    it('limits total uncompressed size', async () => {
+      const bundle = await createBundle([
+        { name: 'a.txt', content: 'a'.repeat(600) },
+        { name: 'b.txt', content: 'b'.repeat(600) },
+      ]);
+
+      await expectRejection(
+        extractBundle(bundle, { maxUncompressedBytes: 1000 }),
+        'uncompressed_size_exceeded'
+      );
+    });
+
+    it('rejects truncated archives', async () => {
+      const bundle = await createTar([{ name: 'index.html', content: 'x'.repeat(2000) }]);
+      const truncated = bundle.subarray(0, 1024);
+
+      await expectRejection(
+        extractBundle(format === 'tar.gz' ? zlib.gzipSync(truncated) : truncated),
+        'malformed_archive'
+      );
+    });
+  });
+
+  describe('extractBundle (tar.gz)', () => {
+    it('rejects gzip bombs', async () => {
+      const bomb = zlib.gzipSync(
+        await createTar([{ name: 'bomb.txt', content: Buffer.alloc(8 * 1024 * 1024) }])
+      );
+
+      await expectRejection(extractBundle(bomb), 'compression_ratio_exceeded');
+    });
+
+    it('rejects corrupt gzip data', async () => {
+      const gzipped = zlib.gzipSync(await createTar([{ name: 'index.html', content: 'x' }]));
+      gzipped.fill(0xff, 10, 30);
+
+      await expectRejection(extractBundle(gzipped), 'malformed_archive');
+    });
+  });
+
+  describe('isBinaryContent', () => {
+    it.each(BINARY_CORPUS)('detects %s as binary', (path, content) => {
+      expect(isBinaryContent(path, content)).toBe(true);
+    });
+
+    it.each(TEXT_CORPUS)('detects %s as text', (path, content) => {
+      expect(isBinaryContent(path, content)).toBe(false);
+    });
+
+    it('keeps multi-byte UTF-8 as text', () => {
+      expect(isBinaryContent('i18n.json', Buffer.from('{"ja":"こんにちは","emoji":"🎉"}'))).toBe(
+        false
+      );
+    });
+
+    it('uses the extension as a hint', () => {
+      expect(isBinaryContent('tiny.woff', Buffer.from('abc'))).toBe(true);
+    });
+
+    it('ignores dots in directory names', () => {
+      expect(isBinaryContent('v1.png/readme', Buffer.from('text'))).toBe(false);
+    });
+  });
+
+  describe('extractBundle encodings', () => {
+    it('base64-encodes sniffed binaries so they round-trip', async () => {
+      const wasm = bytes([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00, 0xff, 0x80]);
+      const zip = await createZip({ 'pkg/module_bg': wasm, 'index.html': '<p>ok</p>' });
+
+      const { files } = await extract(zip);
+      const wasmFile = files.find((f) => f.file === 'pkg/module_bg')!;
+
+      expect(wasmFile.encoding).toBe('base64');
+      expect(readDeploymentFile(wasmFile)).toEqual(wasm);
+      expect(files.find((f) => f.file === 'index.html')?.encoding).toBeUndefined();
+    });
+  });
+
+  describe('bundle report', () => {
+    it('lists included, skipped and renamed files', async () => {
+      const zip = await createZip({
+        'index.html': 'x',
+        'assets\\app.js': 'x',
+        '.env': 'SECRET=1',
+        'a/Thumbs.db': 'x',
+      });
+
+      const { report } = await extract(zip);
+
+      expect(report).toEqual({
+        included: ['index.html', 'assets/app.js'],
+        skipped: [
+          { path: '.env', reason: 'hidden' },
+          { path: 'a/Thumbs.db', reason: 'hidden' },
+        ],
+        renamed: [{ from: 'assets\\app.js', to: 'assets/app.js' }],
+        defaulted: [],
+        imported: [],
+        unsupportedRules: [],
+      });
+    });
+
+    it('reports files over the per-file limit', async () => {
+      const zip = await createZip({
+        'video.mp4': crypto.randomBytes(11 * 1024 * 1024),
+        'index.html': 'x',
+      });
+
+      const { report } = await extract(zip);
+
+      expect(report.included).toEqual(['index.html']);
+      expect(report.skipped).toEqual([{ path: 'video.mp4', reason: 'too_large' }]);
+    });
+
+    it('reports every file past the file limit', async () => {
+      const entries = Array.from({ length: 10002 }, (_, i) => ({ name: `f${i}.txt` }));
+
+      const { files, report } = await extract(await createTar(entries));
+
+      expect(files).toHaveLength(10000);
+      expect(report.skipped).toEqual([
+        { path: 'f10000.txt', reason: 'file_limit' },
+        { path: 'f10001.txt', reason: 'file_limit' },
+      ]);
+    });
+
+    it('does not count a leading "./" as a rename', async () => {
+      const bundle = await createTar([{ name: './index.html', content: 'x' }]);
+
+      const { report } = await extract(bundle);
+
+      expect(report.included).toEqual(['index.html']);
+      expect(report.renamed).toEqual([]);
+    });
+
+    it('rejects bundles with skipped files in strict mode', async () => {
+      const hidden = await createZip({ 'index.html': 'x', 'a/.DS_Store': 'x' });
+      const large = await createTar([
+        { name: 'index.html', content: 'x' },
+        { name: 'video.mp4', content: crypto.randomBytes(11 * 1024 * 1024) },
+      ]);
+
+      const hiddenError = await expectRejection(
+        extractBundle(hidden, { strict: true }),
+        'skipped_file'
+      );
+      const largeError = await expectRejection(
+        extractBundle(large, { strict: true }),
+        'skipped_file'
+      );
+
+      expect(hiddenError.path).toBe('a/.DS_Store');
+      expect(largeError.path).toBe('video.mp4');
+      expect(largeError.message).toContain('Files over 10485760 bytes are not deployed');
+    });
+
+    it('records default files added to the deployment', () => {
+      const report = createBundleReport();
+
+      const files = ensureDefaultFiles([{ file: 'app.js', data: 'x' }], report);
+      ensureDefaultFiles(files, report);
+
+      expect(files.map((f) => f.file)).toEqual(['app.js', 'index.html']);
+      expect(report.defaulted).toEqual(['index.html']);
+    });
+  });
 });
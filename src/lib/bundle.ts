@@ -1,33 +1,140 @@
 /**
  * Bundle Processing
  *
- * Handles extracting and processing uploaded bundles.
+ * Handles extracting and processing uploaded bundles. Bundles may be ZIP,
+ * tar or gzip-compressed tar archives; every format goes through the same
+ * path and size checks.
  */
 
 import crypto from 'crypto';
-import JSZip from 'jszip';
-import type { DeploymentFile } from './vercel';
+import fs from 'fs';
+import os from 'os';
+import { join } from 'path';
+import { Readable, Transform, pipeline } from 'stream';
+import zlib from 'zlib';
+import tar from 'tar-stream';
+import yauzl from 'yauzl';
+import type { BundleReport, BundleSkipReason } from './types';
+import type { DeploymentFile, SpooledDeploymentFile } from './vercel';
 
-const MAX_BUNDLE_SIZE = 50 * 1024 * 1024; // 50MB
+export const MAX_BUNDLE_SIZE = 50 * 1024 * 1024; // 50MB
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB per file
 const MAX_FILES = 10000; // Maximum number of files
+// Entries of any kind an archive may have (room for directories and skipped files)
+const MAX_ARCHIVE_ENTRIES = MAX_FILES * 2;
 
-// Binary file extensions that need base64 encoding
+// Zip bomb protection
+const MAX_UNCOMPRESSED_SIZE = 250 * 1024 * 1024; // 250MB across all entries
+const MAX_COMPRESSION_RATIO = 100; // uncompressed:compressed, per entry
+const COMPRESSION_RATIO_MIN_BYTES = 1024 * 1024; // small repetitive files compress well legitimately
+
+// Tar headers and padding for up to MAX_FILES entries, allowed on top of
+// the uncompressed limit when gunzipping a tar.gz
+const TAR_OVERHEAD_ALLOWANCE = MAX_FILES * 1024;
+
+// Unix file type bits (from the entry's external attributes)
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+
+/**
+ * Supported archive formats
+ */
+export type BundleFormat = 'zip' | 'tar' | 'tar.gz';
+
+// Content types that identify a format when the bytes don't
+const CONTENT_TYPE_FORMATS: Record<string, BundleFormat> = {
+  'application/zip': 'zip',
+  'application/x-zip-compressed': 'zip',
+  'application/x-tar': 'tar',
+  'application/gzip': 'tar.gz',
+  'application/x-gzip': 'tar.gz',
+  'application/x-gtar': 'tar.gz',
+  'application/x-compressed-tar': 'tar.gz',
+};
+
+/**
+ * Why a bundle was rejected
+ */
+export type BundleValidationErrorCode =
+  | 'malformed_archive'
+  | 'invalid_manifest'
+  | 'invalid_path'
+  | 'absolute_path'
+  | 'path_traversal'
+  | 'duplicate_path'
+  | 'symlink'
+  | 'unsupported_entry'
+  | 'skipped_file'
+  | 'unsupported_framework'
+  | 'uncompressed_size_exceeded'
+  | 'compression_ratio_exceeded'
+  | 'too_many_entries';
+
+/**
+ * A bundle that is unsafe or impossible to extract
+ */
+export class BundleValidationError extends Error {
+  readonly code: BundleValidationErrorCode;
+  /** Offending entry, as named in the archive */
+  readonly path: string | null;
+
+  constructor(code: BundleValidationErrorCode, message: string, path: string | null = null) {
+    super(message);
+    this.name = 'BundleValidationError';
+    this.code = code;
+    this.path = path;
+  }
+}
+
+/**
+ * Extraction limits (overridable for testing)
+ */
+export interface BundleLimits {
+  maxUncompressedBytes: number;
+  maxCompressionRatio: number;
+}
+
+/**
+ * A bundle in memory, or spooled to a file by the upload route
+ * (with its hash, if already computed while receiving it)
+ */
+export type BundleSource = Buffer | { path: string; hash?: string };
+
+export interface ExtractBundleOptions extends Partial<BundleLimits> {
+  /** Content-Type the bundle was uploaded with, used when the format can't be sniffed */
+  contentType?: string | null;
+  /** Reject the bundle instead of skipping files (see BundleSkipReason) */
+  strict?: boolean;
+}
+
+const DEFAULT_BUNDLE_LIMITS: BundleLimits = {
+  maxUncompressedBytes: MAX_UNCOMPRESSED_SIZE,
+  maxCompressionRatio: MAX_COMPRESSION_RATIO,
+};
+
+// Extensions that are always binary. Only a hint: anything else is
+// sniffed, and a text file wrongly sent as base64 still deploys intact.
 const BINARY_EXTENSIONS = new Set([
   '.png',
   '.jpg',
   '.jpeg',
   '.gif',
   '.webp',
+  '.avif',
+  '.bmp',
   '.ico',
   '.woff',
   '.woff2',
   '.ttf',
   '.otf',
   '.eot',
+  '.wasm',
+  '.glb',
+  '.bin',
   '.pdf',
   '.zip',
   '.gz',
+  '.br',
   '.mp3',
   '.mp4',
   '.webm',
@@ -35,12 +142,98 @@ const BINARY_EXTENSIONS = new Set([
   '.wav',
 ]);
 
+// Leading bytes of common binary formats
+const MAGIC_NUMBERS: Array<{ offset: number; bytes: number[] }> = [
+  { offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] }, // PNG
+  { offset: 0, bytes: [0xff, 0xd8, 0xff] }, // JPEG
+  { offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] }, // GIF ("GIF8")
+  { offset: 0, bytes: [0x52, 0x49, 0x46, 0x46] }, // RIFF (WebP, WAV, AVI)
+  { offset: 4, bytes: [0x66, 0x74, 0x79, 0x70] }, // ISO BMFF "ftyp" (AVIF, HEIC, MP4, MOV)
+  { offset: 0, bytes: [0x00, 0x61, 0x73, 0x6d] }, // WebAssembly ("\0asm")
+  { offset: 0, bytes: [0x67, 0x6c, 0x54, 0x46] }, // glTF binary ("glTF")
+  { offset: 0, bytes: [0x77, 0x4f, 0x46, 0x46] }, // WOFF ("wOFF")
+  { offset: 0, bytes: [0x77, 0x4f, 0x46, 0x32] }, // WOFF2 ("wOF2")
+  { offset: 0, bytes: [0x00, 0x01, 0x00, 0x00, 0x00] }, // TrueType
+  { offset: 0, bytes: [0x4f, 0x54, 0x54, 0x4f] }, // OpenType ("OTTO")
+  { offset: 0, bytes: [0x00, 0x00, 0x01, 0x00] }, // ICO
+  { offset: 0, bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // PDF ("%PDF-")
+  { offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04] }, // ZIP
+  { offset: 0, bytes: [0x1f, 0x8b] }, // gzip
+  { offset: 0, bytes: [0x49, 0x44, 0x33] }, // MP3 with ID3 tag
+  { offset: 0, bytes: [0xff, 0xfb] }, // MP3 frame
+  { offset: 0, bytes: [0x4f, 0x67, 0x67, 0x53] }, // Ogg ("OggS")
+  { offset: 0, bytes: [0x1a, 0x45, 0xdf, 0xa3] }, // Matroska / WebM
+  { offset: 0, bytes: [0x7f, 0x45, 0x4c, 0x46] }, // ELF
+];
+
+// How much of a file to scan for NUL bytes
+const SNIFF_LENGTH = 8192;
+
+function hasMagicNumber(content: Buffer): boolean {
+  return MAGIC_NUMBERS.some(
+    ({ offset, bytes }) =>
+      content.length >= offset + bytes.length &&
+      bytes.every((byte, i) => content[offset + i] === byte)
+  );
+}
+
+/**
+ * Decides whether content fed to it a piece at a time must be base64-encoded
+ */
+interface BinarySniffer {
+  update(chunk: Buffer): void;
+  isBinary(): boolean;
+}
+
+function createBinarySniffer(path: string): BinarySniffer {
+  const dot = path.lastIndexOf('.');
+  const binaryExtension =
+    dot > path.lastIndexOf('/') && BINARY_EXTENSIONS.has(path.slice(dot).toLowerCase());
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+  let head = Buffer.alloc(0);
+  let validUtf8 = true;
+
+  return {
+    update(chunk) {
+      if (binaryExtension) {
+        return;
+      }
+      if (head.length < SNIFF_LENGTH) {
+        head = Buffer.concat([head, chunk.subarray(0, SNIFF_LENGTH - head.length)]);
+      }
+      if (validUtf8) {
+        try {
+          decoder.decode(chunk, { stream: true });
+        } catch {
+          validUtf8 = false;
+        }
+      }
+    },
+    isBinary() {
+      if (binaryExtension) {
+        return true;
+      }
+      if (validUtf8) {
+        try {
+          // Flush, so content ending mid-character isn't valid
+          decoder.decode();
+        } catch {
+          validUtf8 = false;
+        }
+      }
+      return hasMagicNumber(head) || head.includes(0) || !validUtf8;
+    },
+  };
+}
+
 /**
- * Check if a file is binary based on extension
+ * Check if a file must be base64-encoded: binary extension, known magic
+ * number, NUL bytes, or content that isn't valid UTF-8.
  */
-function isBinaryFile(path: string): boolean {
-  const ext = path.slice(path.lastIndexOf('.')).toLowerCase();
-  return BINARY_EXTENSIONS.has(ext);
+export function isBinaryContent(path: string, content: Buffer): boolean {
+  const sniffer = createBinarySniffer(path);
+  sniffer.update(content);
+  return sniffer.isBinary();
 }
 
 /**
@@ -50,6 +243,17 @@ export function computeHash(data: Buffer): string {
   return crypto.createHash('sha256').update(data).digest('hex');
 }
 
+/**
+ * Compute SHA256 hash of a file without reading it into memory
+ */
+export async function computeFileHash(path: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of fs.createReadStream(path)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
 /**
  * Validate bundle size
  */
@@ -63,72 +267,660 @@ export function validateBundleSize(size: number): { valid: boolean; error?: stri
   return { valid: true };
 }
 
+function startsWithBytes(buffer: Buffer, bytes: number[], offset = 0): boolean {
+  return (
+    buffer.length >= offset + bytes.length && bytes.every((byte, i) => buffer[offset + i] === byte)
+  );
+}
+
 /**
- * Extract files from a zip bundle buffer
+ * Detect a bundle's archive format from its magic bytes, falling back to
+ * the upload's Content-Type (e.g. for pre-POSIX tars without a ustar magic).
+ * Anything unrecognised is treated as a ZIP.
  */
-export async function extractBundle(buffer: Buffer): Promise<{
-  files: DeploymentFile[];
-  hash: string;
-}> {
-  const files: DeploymentFile[] = [];
-  const hash = computeHash(buffer);
+export function detectBundleFormat(buffer: Buffer, contentType?: string | null): BundleFormat {
+  // "PK" followed by a local file header, empty archive or spanning marker
+  if (
+    startsWithBytes(buffer, [0x50, 0x4b]) &&
+    [
+      [0x03, 0x04],
+      [0x05, 0x06],
+      [0x07, 0x08],
+    ].some((marker) => startsWithBytes(buffer, marker, 2))
+  ) {
+    return 'zip';
+  }
+  if (startsWithBytes(buffer, [0x1f, 0x8b])) {
+    return 'tar.gz';
+  }
+  // "ustar" (POSIX and GNU)
+  if (startsWithBytes(buffer, [0x75, 0x73, 0x74, 0x61, 0x72], 257)) {
+    return 'tar';
+  }
+
+  const mimeType = contentType?.split(';')[0].trim().toLowerCase();
+  return (mimeType && CONTENT_TYPE_FORMATS[mimeType]) || 'zip';
+}
+
+/**
+ * Normalize an archive entry path to a relative deployment path.
+ * Backslashes are treated as separators; absolute paths, traversal and
+ * control characters are rejected.
+ */
+export function normalizeBundlePath(rawPath: string): string {
+  // eslint-disable-next-line no-control-regex
+  if (/[\x00-\x1f\x7f]/.test(rawPath)) {
+    throw new BundleValidationError(
+      'invalid_path',
+      `Invalid characters in bundle path: ${JSON.stringify(rawPath)}`,
+      rawPath
+    );
+  }
+
+  const path = rawPath.replace(/\\/g, '/');
+
+  if (path.startsWith('/') || /^[a-zA-Z]:/.test(path)) {
+    throw new BundleValidationError(
+      'absolute_path',
+      `Absolute path in bundle: ${rawPath}`,
+      rawPath
+    );
+  }
+
+  const segments = path.split('/').filter((segment) => segment !== '' && segment !== '.');
+
+  if (segments.includes('..')) {
+    throw new BundleValidationError(
+      'path_traversal',
+      `Path traversal in bundle: ${rawPath}`,
+      rawPath
+    );
+  }
+
+  if (segments.length === 0) {
+    throw new BundleValidationError('invalid_path', `Empty path in bundle`, rawPath);
+  }
+
+  return segments.join('/');
+}
+
+/**
+ * Check whether a ZIP entry is a symbolic link
+ */
+function isSymlink(entry: yauzl.Entry): boolean {
+  // Unix mode is in the high 16 bits of the external attributes
+  return ((entry.externalFileAttributes >>> 16) & S_IFMT) === S_IFLNK;
+}
+
+/**
+ * An entry's content, written to a file in the extraction directory
+ */
+interface SpooledContent {
+  size: number;
+  /** SHA1, as Vercel's file API expects */
+  sha: string;
+  binary: boolean;
+}
+
+/**
+ * Stream an entry's content to a file, enforcing limits on the actual
+ * output rather than the sizes the archive declares. Files over the
+ * per-file limit are read only up to the limit and not kept (spooled is
+ * null; what was written is removed with the extraction directory). The
+ * compression ratio is checked only when the entry is compressed on its own
+ * (ZIP).
+ */
+function spoolEntry(
+  stream: NodeJS.ReadableStream,
+  filePath: string,
+  rawPath: string,
+  path: string,
+  remainingBytes: number,
+  limits: BundleLimits,
+  compressedSize?: number
+): Promise<{ spooled: SpooledContent | null; bytesRead: number }> {
+  return new Promise((resolve, reject) => {
+    const output = fs.createWriteStream(filePath);
+    const sha = crypto.createHash('sha1');
+    const sniffer = createBinarySniffer(path);
+    let bytesRead = 0;
+
+    // Stop reading as soon as the outcome is known
+    const stop = () => {
+      stream.removeAllListeners('data');
+      stream.pause();
+      output.destroy();
+    };
+
+    stream.on('data', (chunk: Buffer) => {
+      bytesRead += chunk.length;
+
+      if (bytesRead > remainingBytes) {
+        stop();
+        reject(
+          new BundleValidationError(
+            'uncompressed_size_exceeded',
+            `Bundle expands to more than ${limits.maxUncompressedBytes} bytes`,
+            rawPath
+          )
+        );
+      } else if (
+        compressedSize !== undefined &&
+        bytesRead > COMPRESSION_RATIO_MIN_BYTES &&
+        bytesRead > Math.max(compressedSize, 1) * limits.maxCompressionRatio
+      ) {
+        stop();
+        reject(
+          new BundleValidationError(
+            'compression_ratio_exceeded',
+            `Compression ratio of ${rawPath} exceeds ${limits.maxCompressionRatio}:1`,
+            rawPath
+          )
+        );
+      } else if (bytesRead > MAX_FILE_SIZE) {
+        stop();
+        resolve({ spooled: null, bytesRead });
+      } else {
+        sha.update(chunk);
+        sniffer.update(chunk);
+        // Let the disk keep up instead of buffering the entry
+        if (!output.write(chunk)) {
+          stream.pause();
+          output.once('drain', () => stream.resume());
+        }
+      }
+    });
+    stream.on('error', (error) => {
+      stop();
+      reject(error);
+    });
+    output.on('error', (error) => {
+      stop();
+      reject(error);
+    });
+    stream.on('end', () => {
+      output.end(() =>
+        resolve({
+          spooled: { size: bytesRead, sha: sha.digest('hex'), binary: sniffer.isBinary() },
+          bytesRead,
+        })
+      );
+    });
+  });
+}
+
+/**
+ * Files extracted so far, and what happened to the rest
+ */
+interface Extraction {
+  files: SpooledDeploymentFile[];
+  report: BundleReport;
+  strict: boolean;
+  /** Temporary directory the included files are spooled to */
+  directory: string;
+  /** Case-folded paths already in the bundle, mapped to their archive names */
+  seenPaths: Map<string, string>;
+}
+
+const SKIP_REASON_MESSAGES: Record<BundleSkipReason, string> = {
+  hidden: 'Hidden and system files are not deployed',
+  too_large: `Files over ${MAX_FILE_SIZE} bytes are not deployed`,
+  file_limit: `Bundles are limited to ${MAX_FILES} files`,
+};
+
+/**
+ * Create an empty bundle report
+ */
+export function createBundleReport(): BundleReport {
+  return {
+    included: [],
+    skipped: [],
+    renamed: [],
+    defaulted: [],
+    imported: [],
+    unsupportedRules: [],
+  };
+}
+
+/**
+ * Leave a file out of the deployment, or reject the bundle in strict mode
+ */
+function skipFile(
+  extraction: Extraction,
+  rawPath: string,
+  path: string,
+  reason: BundleSkipReason
+): void {
+  if (extraction.strict) {
+    throw new BundleValidationError(
+      'skipped_file',
+      `${SKIP_REASON_MESSAGES[reason]}: ${rawPath}`,
+      rawPath
+    );
+  }
+  extraction.report.skipped.push({ path, reason });
+}
+
+/**
+ * Where the next included file is spooled
+ */
+function nextSpoolPath(extraction: Extraction): string {
+  return join(extraction.directory, String(extraction.files.length));
+}
+
+/**
+ * Add a spooled file to the deployment, noting when its path had to be
+ * normalized (a leading "./" doesn't count)
+ */
+function includeFile(
+  extraction: Extraction,
+  rawPath: string,
+  path: string,
+  localPath: string,
+  content: SpooledContent
+): void {
+  extraction.files.push({
+    file: path,
+    localPath,
+    size: content.size,
+    sha: content.sha,
+    encoding: content.binary ? 'base64' : undefined,
+  });
+  extraction.report.included.push(path);
+  if (rawPath.replace(/^(\.\/)+/, '') !== path) {
+    extraction.report.renamed.push({ from: rawPath, to: path });
+  }
+}
+
+/**
+ * Validate an entry and get its deployment path, or null if it is skipped
+ */
+function admitEntry(
+  extraction: Extraction,
+  rawPath: string,
+  kind: 'file' | 'symlink' | 'unsupported'
+): string | null {
+  const path = normalizeBundlePath(rawPath);
+
+  if (kind === 'symlink') {
+    throw new BundleValidationError(
+      'symlink',
+      `Symbolic links are not allowed in bundles: ${rawPath}`,
+      rawPath
+    );
+  }
+  if (kind === 'unsupported') {
+    throw new BundleValidationError(
+      'unsupported_entry',
+      `Only regular files and directories are allowed in bundles: ${rawPath}`,
+      rawPath
+    );
+  }
+
+  // Skip hidden files and common junk
+  const basename = path.split('/').pop() || '';
+  if (basename.startsWith('.') || basename === 'Thumbs.db' || basename === 'desktop.ini') {
+    skipFile(extraction, rawPath, path, 'hidden');
+    return null;
+  }
+
+  // Case-folded, so "App.js" and "app.js" can't both be deployed
+  const foldedPath = path.toLowerCase();
+  const existing = extraction.seenPaths.get(foldedPath);
+  if (existing !== undefined) {
+    throw new BundleValidationError(
+      'duplicate_path',
+      `Duplicate path in bundle: ${rawPath} conflicts with ${existing}`,
+      rawPath
+    );
+  }
+  extraction.seenPaths.set(foldedPath, rawPath);
+
+  return path;
+}
+
+function tooManyEntries(): BundleValidationError {
+  return new BundleValidationError(
+    'too_many_entries',
+    `Bundle has more than ${MAX_ARCHIVE_ENTRIES} entries`
+  );
+}
+
+// Entry names are decoded and validated by normalizeBundlePath, not yauzl,
+// so unsafe names are reported with our error codes
+const ZIP_OPTIONS: yauzl.Options = {
+  lazyEntries: true,
+  autoClose: false,
+  decodeStrings: false,
+  validateEntrySizes: true,
+};
+
+/**
+ * Extract files from a ZIP archive, reading entries one at a time
+ */
+async function extractZip(
+  source: BundleSource,
+  limits: BundleLimits,
+  extraction: Extraction
+): Promise<void> {
+  const zip = Buffer.isBuffer(source)
+    ? await yauzl.fromBufferPromise(source, ZIP_OPTIONS)
+    : await yauzl.openPromise(source.path, ZIP_OPTIONS);
 
   try {
-    const zip = await JSZip.loadAsync(buffer);
-    const entries = Object.keys(zip.files);
+    // The entry count comes from the end of central directory record, so
+    // oversized directories are rejected before any of it is read
+    if (zip.entryCount > MAX_ARCHIVE_ENTRIES) {
+      throw tooManyEntries();
+    }
+
+    // Validate every entry before decompressing any of them. The central
+    // directory only holds metadata; entries past the file limit are
+    // reported as they are read rather than kept.
+    const admitted: Array<{ entry: yauzl.Entry; rawPath: string; path: string }> = [];
+    let declaredBytes = 0;
+
+    for await (const entry of zip.eachEntry()) {
+      // Reject bundles that declare too much before decompressing anything
+      declaredBytes += entry.uncompressedSize;
+      if (declaredBytes > limits.maxUncompressedBytes) {
+        throw new BundleValidationError(
+          'uncompressed_size_exceeded',
+          `Bundle declares more than ${limits.maxUncompressedBytes} uncompressed bytes`
+        );
+      }
 
-    for (const path of entries) {
-      const entry = zip.files[path];
+      const rawPath = yauzl.getFileNameLowLevel(
+        entry.generalPurposeBitFlag,
+        entry.fileNameRaw,
+        entry.extraFields,
+        true
+      );
 
-      // Skip directories
-      if (entry.dir) {
+      // Skip directories (they deploy nothing)
+      if (rawPath.endsWith('/') || rawPath.endsWith('\\')) {
         continue;
       }
 
-      // Skip hidden files and common junk
-      const basename = path.split('/').pop() || '';
-      if (basename.startsWith('.') || basename === 'Thumbs.db' || basename === 'desktop.ini') {
+      if (entry.isEncrypted()) {
+        throw new BundleValidationError(
+          'unsupported_entry',
+          `Encrypted entries are not supported: ${rawPath}`,
+          rawPath
+        );
+      }
+
+      const path = admitEntry(extraction, rawPath, isSymlink(entry) ? 'symlink' : 'file');
+      if (path === null) {
         continue;
       }
 
       // Check file limit
-      if (files.length >= MAX_FILES) {
-        console.warn(`[bundle] File limit reached (${MAX_FILES}), skipping remaining files`);
-        break;
+      if (admitted.length >= MAX_FILES) {
+        skipFile(extraction, rawPath, path, 'file_limit');
+        continue;
       }
+      admitted.push({ entry, rawPath, path });
+    }
 
-      // Read file content
-      const content = await entry.async('nodebuffer');
+    let uncompressedBytes = 0;
+
+    for (const { entry, rawPath, path } of admitted) {
+      // Stream the file to disk
+      const localPath = nextSpoolPath(extraction);
+      const stream = await zip.openReadStreamPromise(entry);
+      let result;
+      try {
+        result = await spoolEntry(
+          stream,
+          localPath,
+          rawPath,
+          path,
+          limits.maxUncompressedBytes - uncompressedBytes,
+          limits,
+          entry.compressedSize
+        );
+      } finally {
+        stream.destroy();
+      }
+      uncompressedBytes += result.bytesRead;
 
       // Skip files that are too large
-      if (content.length > MAX_FILE_SIZE) {
-        console.warn(`[bundle] Skipping large file: ${path} (${content.length} bytes)`);
+      if (!result.spooled) {
+        console.warn(`[bundle] Skipping large file: ${path} (over ${MAX_FILE_SIZE} bytes)`);
+        skipFile(extraction, rawPath, path, 'too_large');
         continue;
       }
 
-      const isBinary = isBinaryFile(path);
+      includeFile(extraction, rawPath, path, localPath, result.spooled);
+    }
+  } finally {
+    zip.close();
+  }
+}
+
+/**
+ * Fail a gunzip stream once it inflates past the bundle limits. gzip
+ * compresses the whole archive, so the ratio applies to the archive.
+ */
+function limitDecompressedSize(compressedBytes: number, limits: BundleLimits): Transform {
+  const maxBytes = limits.maxUncompressedBytes + TAR_OVERHEAD_ALLOWANCE;
+  let bytes = 0;
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      bytes += chunk.length;
 
-      files.push({
-        file: path,
-        data: isBinary ? content.toString('base64') : content.toString('utf-8'),
-        encoding: isBinary ? 'base64' : undefined,
-      });
+      if (bytes > maxBytes) {
+        callback(
+          new BundleValidationError(
+            'uncompressed_size_exceeded',
+            `Bundle expands to more than ${limits.maxUncompressedBytes} bytes`
+          )
+        );
+      } else if (
+        bytes > COMPRESSION_RATIO_MIN_BYTES &&
+        bytes > Math.max(compressedBytes, 1) * limits.maxCompressionRatio
+      ) {
+        callback(
+          new BundleValidationError(
+            'compression_ratio_exceeded',
+            `Compression ratio of bundle exceeds ${limits.maxCompressionRatio}:1`
+          )
+        );
+      } else {
+        callback(null, chunk);
+      }
+    },
+  });
+}
+
+/**
+ * Extract files from a tar archive, gunzipping it first if needed
+ */
+async function extractTar(
+  source: BundleSource,
+  gzipped: boolean,
+  limits: BundleLimits,
+  extraction: Extraction
+): Promise<void> {
+  let uncompressedBytes = 0;
+  let entryCount = 0;
+
+  const archive = Buffer.isBuffer(source)
+    ? Readable.from([source])
+    : fs.createReadStream(source.path);
+  const archiveBytes = Buffer.isBuffer(source)
+    ? source.length
+    : (await fs.promises.stat(source.path)).size;
+
+  // Accept pre-POSIX tars without a ustar magic (headers are still checksummed).
+  // tar-stream supports the option but its types leave it out.
+  const extract = tar.extract({ allowUnknownFormat: true } as Parameters<typeof tar.extract>[0]);
+  const input = gzipped
+    ? pipeline(archive, zlib.createGunzip(), limitDecompressedSize(archiveBytes, limits), () => {})
+    : archive;
+  // Surface gunzip and limit errors through the entry iterator
+  input.on('error', (error: Error) => extract.destroy(error));
+  input.pipe(extract);
+
+  try {
+    for await (const entry of extract) {
+      const { name: rawPath, type } = entry.header;
+
+      // Tar has no directory to count up front, so count entries as they stream by
+      if (++entryCount > MAX_ARCHIVE_ENTRIES) {
+        throw tooManyEntries();
+      }
+
+      if (type === 'directory') {
+        entry.resume();
+        continue;
+      }
+
+      // Hard links, devices and FIFOs are rejected along with symlinks
+      const kind =
+        type === 'file' || type === 'contiguous-file'
+          ? 'file'
+          : type === 'symlink'
+            ? 'symlink'
+            : 'unsupported';
+      const path = admitEntry(extraction, rawPath, kind);
+      if (path === null) {
+        entry.resume();
+        continue;
+      }
+
+      // Check file limit
+      if (extraction.files.length >= MAX_FILES) {
+        skipFile(extraction, rawPath, path, 'file_limit');
+        entry.resume();
+        continue;
+      }
+
+      // Stream the file to disk
+      const localPath = nextSpoolPath(extraction);
+      const { spooled, bytesRead } = await spoolEntry(
+        // streamx streams have the same data/end/error events and pause()/resume()
+        entry as unknown as NodeJS.ReadableStream,
+        localPath,
+        rawPath,
+        path,
+        limits.maxUncompressedBytes - uncompressedBytes,
+        limits
+      );
+      uncompressedBytes += bytesRead;
+
+      // Skip files that are too large, draining the rest of the entry
+      if (!spooled) {
+        console.warn(`[bundle] Skipping large file: ${path} (over ${MAX_FILE_SIZE} bytes)`);
+        skipFile(extraction, rawPath, path, 'too_large');
+        entry.resume();
+        continue;
+      }
+
+      includeFile(extraction, rawPath, path, localPath, spooled);
     }
+  } finally {
+    // Stop reading the archive if extraction ended early
+    archive.destroy();
+  }
+}
 
-    console.log(`[bundle] Extracted ${files.length} files`);
-    return { files, hash };
+/**
+ * Read the start of a bundle, enough to detect its format
+ */
+async function readBundleHead(source: BundleSource): Promise<Buffer> {
+  if (Buffer.isBuffer(source)) {
+    return source.subarray(0, 512);
+  }
+
+  const handle = await fs.promises.open(source.path, 'r');
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(512), 0, 512, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Remove the temporary directory an extracted bundle's files are spooled to
+ */
+export async function discardExtractedBundle(directory: string): Promise<void> {
+  await fs.promises.rm(directory, { recursive: true, force: true });
+}
+
+/**
+ * Extract files from a bundle (ZIP, tar or tar.gz), in memory or on disk.
+ * Entries are decompressed one at a time and streamed to files in a
+ * temporary directory, so neither the archive nor the extracted files are
+ * held in memory. The caller removes the directory with
+ * discardExtractedBundle once the files have been deployed. The report
+ * lists every file included, skipped or renamed along the way.
+ * Throws BundleValidationError for unsafe or malformed archives, and in
+ * strict mode for any file that would be skipped.
+ */
+export async function extractBundle(
+  source: BundleSource,
+  options: ExtractBundleOptions = {}
+): Promise<{
+  files: SpooledDeploymentFile[];
+  hash: string;
+  format: BundleFormat;
+  report: BundleReport;
+  /** Temporary directory holding the files */
+  directory: string;
+}> {
+  const { contentType, strict = false, ...limitOverrides } = options;
+  const limits = { ...DEFAULT_BUNDLE_LIMITS, ...limitOverrides };
+  const format = detectBundleFormat(await readBundleHead(source), contentType);
+  const hash = Buffer.isBuffer(source)
+    ? computeHash(source)
+    : source.hash || (await computeFileHash(source.path));
+
+  const extraction: Extraction = {
+    files: [],
+    report: createBundleReport(),
+    strict,
+    directory: await fs.promises.mkdtemp(join(os.tmpdir(), 'abba-extract-')),
+    seenPaths: new Map(),
+  };
+
+  try {
+    if (format === 'zip') {
+      await extractZip(source, limits, extraction);
+    } else {
+      await extractTar(source, format === 'tar.gz', limits, extraction);
+    }
+
+    const { files, report } = extraction;
+    console.log(
+      `[bundle] Extracted ${files.length} files from ${format} bundle (${report.skipped.length} skipped)`
+    );
+    return { files, hash, format, report, directory: extraction.directory };
   } catch (error) {
+    await discardExtractedBundle(extraction.directory);
+    if (error instanceof BundleValidationError) {
+      console.warn(`[bundle] Rejected bundle (${error.code}): ${error.message}`);
+      throw error;
+    }
     console.error('[bundle] Extraction error:', error);
-    throw new Error(
-      `Failed to extract bundle: ${error instanceof Error ? error.message : 'Unknown error'}`
+    throw new BundleValidationError(
+      'malformed_archive',
+      `Failed to extract ${format} bundle: ${error instanceof Error ? error.message : 'Unknown error'}`
     );
   }
 }
 
 /**
- * Add default files if missing (index.html for static sites)
+ * Add default files if missing (index.html for static sites), recording
+ * them in the bundle report
  */
-export function ensureDefaultFiles(files: DeploymentFile[]): DeploymentFile[] {
+export function ensureDefaultFiles(
+  files: DeploymentFile[],
+  report?: BundleReport
+): DeploymentFile[] {
   const hasIndexHtml = files.some((f) => f.file === 'index.html' || f.file.endsWith('/index.html'));
 
   if (!hasIndexHtml) {
@@ -148,6 +940,7 @@ export function ensureDefaultFiles(files: DeploymentFile[]): DeploymentFile[] {
 </body>
 </html>`,
     });
+    report?.defaulted.push('index.html');
   }
 
   return files;
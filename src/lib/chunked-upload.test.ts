@@ -0,0 +1,284 @@
+/**
+ * Chunked Upload Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import {
+  UPLOAD_TTL_MS,
+  appendBundleChunk,
+  assembleChunkedUpload,
+  discardChunkedUpload,
+  isFinalChunk,
+  parseContentRange,
+  sweepAbandonedUploads,
+  type ContentRange,
+} from './chunked-upload';
+import { createPublishJob, getPublishJob, updatePublishJob } from './db';
+import { discardReceivedBundle } from './upload';
+
+vi.mock('./auth', () => ({
+  getSignedBodyHash: vi.fn(() => null),
+}));
+
+// Mock Supabase to use the in-memory job store and local chunk storage
+vi.mock('./supabase', () => ({
+  isSupabaseConfigured: () => false,
+  getSupabaseClient: () => null,
+}));
+
+const URL = 'http://localhost/api/v1/publish/upload?publishId=test';
+
+function sha256(data: Buffer | string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function createChunkRequest(data: Buffer, range: string, headers: Record<string, string> = {}) {
+  return new NextRequest(URL, {
+    method: 'PUT',
+    headers: { 'content-type': 'application/octet-stream', 'content-range': range, ...headers },
+    body: new Uint8Array(data),
+  });
+}
+
+const BUNDLE = crypto.randomBytes(1000);
+
+const uploads: string[] = [];
+
+// A job whose chunked upload has started, like publish/upload's first chunk leaves it
+async function createUpload(): Promise<string> {
+  const job = await createPublishJob({ appId: 1, bundleHash: 'h', bundleSize: BUNDLE.length });
+  await updatePublishJob(job.id, { status: 'uploading', upload_offset: 0, upload_chunks: [] });
+  uploads.push(job.id);
+  return job.id;
+}
+
+function localChunkPath(publishId: string, start: number): string {
+  return path.join(os.tmpdir(), `abba-upload-${publishId}`, String(start));
+}
+
+// Send bytes [start, end] of the bundle (or other data) as one chunk of the job's upload
+async function sendChunk(
+  publishId: string,
+  start: number,
+  end: number,
+  headers: Record<string, string> = {},
+  data: Buffer = BUNDLE.subarray(start, end + 1)
+) {
+  const range: ContentRange = { start, end, total: BUNDLE.length };
+  const request = createChunkRequest(data, `bytes ${start}-${end}/${BUNDLE.length}`, headers);
+  const job = (await getPublishJob(publishId))!;
+  return appendBundleChunk(request, job, range);
+}
+
+async function assemble(publishId: string) {
+  return assembleChunkedUpload((await getPublishJob(publishId))!);
+}
+
+describe('chunked-upload', () => {
+  afterEach(async () => {
+    await Promise.all(uploads.splice(0).map(discardChunkedUpload));
+  });
+
+  describe('parseContentRange', () => {
+    it('parses byte ranges', () => {
+      expect(parseContentRange('bytes 0-99/1000')).toEqual({ start: 0, end: 99, total: 1000 });
+      expect(parseContentRange(' bytes 900-999/1000 ')).toEqual({
+        start: 900,
+        end: 999,
+        total: 1000,
+      });
+    });
+
+    it('rejects malformed and impossible ranges', () => {
+      for (const header of [
+        'bytes */1000',
+        'bytes 0-99/*',
+        'items 0-99/1000',
+        'bytes 100-99/1000',
+        'bytes 0-1000/1000',
+        'bytes -1-99/1000',
+        'bytes 0-99/99999999999999999999',
+      ]) {
+        expect(parseContentRange(header)).toBeNull();
+      }
+    });
+  });
+
+  describe('isFinalChunk', () => {
+    it('is true for the range that ends the bundle', () => {
+      expect(isFinalChunk({ start: 900, end: 999, total: 1000 })).toBe(true);
+      expect(isFinalChunk({ start: 0, end: 99, total: 1000 })).toBe(false);
+    });
+  });
+
+  describe('appendBundleChunk', () => {
+    it('assembles the bundle from chunks in order', async () => {
+      const publishId = await createUpload();
+
+      const first = await sendChunk(publishId, 0, 399);
+      const second = await sendChunk(publishId, 400, 799);
+      const last = await sendChunk(publishId, 800, 999);
+
+      expect(first).toMatchObject({
+        ok: true,
+        offset: 400,
+        complete: false,
+        chunk: { start: 0, end: 399, sha256: sha256(BUNDLE.subarray(0, 400)) },
+      });
+      expect(second).toMatchObject({ ok: true, offset: 800, complete: false });
+      expect(last).toMatchObject({ ok: true, offset: 1000, complete: true });
+      expect((await getPublishJob(publishId))?.upload_chunks).toHaveLength(3);
+
+      const assembled = await assemble(publishId);
+      expect(assembled).toMatchObject({
+        ok: true,
+        bundle: { size: BUNDLE.length, hash: sha256(BUNDLE), contentType: null },
+      });
+      if (assembled.ok) {
+        expect(fs.readFileSync(assembled.bundle.path).equals(BUNDLE)).toBe(true);
+        await discardReceivedBundle(assembled.bundle);
+      }
+    });
+
+    it('rejects chunks that do not start at the offset', async () => {
+      const publishId = await createUpload();
+      await sendChunk(publishId, 0, 399);
+
+      const skipped = await sendChunk(publishId, 500, 999);
+      const repeated = await sendChunk(publishId, 0, 399);
+
+      expect(skipped).toMatchObject({ ok: false, status: 409, error: 'UploadOffsetMismatch' });
+      expect(repeated).toMatchObject({ ok: false, status: 409, offset: 400 });
+      expect((await getPublishJob(publishId))?.upload_offset).toBe(400);
+    });
+
+    it('checks declared chunk hashes', async () => {
+      const publishId = await createUpload();
+
+      const mismatch = await sendChunk(publishId, 0, 499, {
+        'x-abba-chunk-sha256': sha256('other'),
+      });
+      const match = await sendChunk(publishId, 0, 499, {
+        'x-abba-chunk-sha256': sha256(BUNDLE.subarray(0, 500)).toUpperCase(),
+      });
+
+      expect(mismatch).toMatchObject({
+        ok: false,
+        status: 400,
+        error: 'ChunkHashMismatch',
+        offset: 0,
+      });
+      expect(match).toMatchObject({ ok: true, offset: 500 });
+    });
+
+    it('rejects chunks whose size does not match the range', async () => {
+      const publishId = await createUpload();
+
+      const request = createChunkRequest(BUNDLE.subarray(0, 100), `bytes 0-199/${BUNDLE.length}`);
+      const result = await appendBundleChunk(request, (await getPublishJob(publishId))!, {
+        start: 0,
+        end: 199,
+        total: BUNDLE.length,
+      });
+
+      expect(result).toMatchObject({ ok: false, status: 400, error: 'ChunkSizeMismatch' });
+    });
+
+    it('requires the total to match the declared bundle size', async () => {
+      const publishId = await createUpload();
+      await updatePublishJob(publishId, { bundle_size: 999 });
+
+      const result = await sendChunk(publishId, 0, 99);
+
+      expect(result).toMatchObject({ ok: false, status: 400, error: 'BundleSizeMismatch' });
+    });
+
+    it('enforces the bundle size limit', async () => {
+      const publishId = await createUpload();
+      const request = createChunkRequest(BUNDLE.subarray(0, 100), `bytes 0-99/${BUNDLE.length}`);
+
+      const result = await appendBundleChunk(
+        request,
+        (await getPublishJob(publishId))!,
+        { start: 0, end: 99, total: BUNDLE.length },
+        { maxBytes: 500 }
+      );
+
+      expect(result).toMatchObject({
+        ok: false,
+        status: 400,
+        error: 'Bundle too large (max 500 bytes)',
+      });
+    });
+
+    it('keeps only one of two chunks sent for the same offset at once', async () => {
+      const publishId = await createUpload();
+      const other = crypto.randomBytes(400);
+
+      const results = await Promise.all([
+        sendChunk(publishId, 0, 399),
+        sendChunk(publishId, 0, 399, {}, other),
+      ]);
+
+      expect(results.filter((result) => result.ok)).toHaveLength(1);
+      expect(results.find((result) => !result.ok)).toMatchObject({
+        status: 409,
+        error: 'UploadOffsetMismatch',
+        offset: 400,
+      });
+
+      // The stored bytes are the ones whose hash was recorded
+      const [recorded] = (await getPublishJob(publishId))!.upload_chunks!;
+      expect(sha256(fs.readFileSync(localChunkPath(publishId, 0)))).toBe(recorded.sha256);
+    });
+  });
+
+  describe('assembleChunkedUpload', () => {
+    it('reports a chunk that was claimed but never stored', async () => {
+      const publishId = await createUpload();
+      await sendChunk(publishId, 0, 399);
+      await sendChunk(publishId, 400, 999);
+      fs.rmSync(localChunkPath(publishId, 400));
+
+      expect(await assemble(publishId)).toEqual({ ok: false, start: 400 });
+    });
+
+    it('reports a chunk whose bytes do not match its recorded hash', async () => {
+      const publishId = await createUpload();
+      await sendChunk(publishId, 0, 399);
+      await sendChunk(publishId, 400, 999);
+      fs.writeFileSync(localChunkPath(publishId, 0), Buffer.alloc(400));
+
+      expect(await assemble(publishId)).toEqual({ ok: false, start: 0 });
+    });
+  });
+
+  describe('discardChunkedUpload', () => {
+    it('removes the stored chunks', async () => {
+      const publishId = await createUpload();
+      await sendChunk(publishId, 0, 99);
+
+      await discardChunkedUpload(publishId);
+
+      expect(fs.existsSync(localChunkPath(publishId, 0))).toBe(false);
+    });
+  });
+
+  describe('sweepAbandonedUploads', () => {
+    it('removes uploads idle for longer than the TTL', async () => {
+      const publishId = await createUpload();
+      await sendChunk(publishId, 0, 99);
+
+      await sweepAbandonedUploads();
+      expect(fs.existsSync(localChunkPath(publishId, 0))).toBe(true);
+
+      expect(await sweepAbandonedUploads(Date.now() + UPLOAD_TTL_MS + 1000)).toBeGreaterThan(0);
+      expect(fs.existsSync(localChunkPath(publishId, 0))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,379 @@
+/**
+ * Chunked Uploads
+ *
+ * Large bundles can be uploaded as a series of PUTs against the same job,
+ * each carrying one byte range:
+ *   Content-Range: bytes 0-5242879/12000000
+ *   x-abba-chunk-sha256: <SHA256 of the chunk> (optional)
+ * Each chunk is stored on its own, keyed by job and start byte; an
+ * interrupted chunk is simply sent again from the offset the broker
+ * reports. The bundle is only assembled and extracted once its last chunk
+ * arrives.
+ *
+ * A chunk claims its range by advancing the job's offset (a conditional
+ * update) before it is stored, so of two chunks sent for the same offset
+ * only one is kept. With Supabase, chunks are stored in the
+ * publish_upload_chunks table, so any instance can take the next chunk or
+ * assemble the bundle; without it, they are kept in the instance's
+ * temporary directory like the rest of the local state. Chunk hashes are
+ * checked again at assembly, and a chunk that was claimed but never stored
+ * restarts the upload from byte 0.
+ *
+ * Uploads idle for an hour are swept when another chunked upload starts
+ * (and, with Supabase, by upload_chunks_cleanup()).
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { NextRequest } from 'next/server';
+import { MAX_BUNDLE_SIZE } from './bundle';
+import { getPublishJob, updateUploadProgress } from './db';
+import { getSupabaseClient, isSupabaseConfigured } from './supabase';
+import type { PublishJob, UploadChunk } from './types';
+import { discardReceivedBundle, receiveBundle, type ReceivedBundle } from './upload';
+
+export const CHUNK_HASH_HEADER = 'x-abba-chunk-sha256';
+
+const CONTENT_RANGE_PATTERN = /^bytes (\d+)-(\d+)\/(\d+)$/;
+
+// Chunks of uploads idle this long are abandoned (matches the quota's stale job cutoff)
+export const UPLOAD_TTL_MS = 60 * 60 * 1000;
+
+// Temporary directories holding each job's chunks when Supabase isn't configured
+const LOCAL_UPLOAD_PREFIX = 'abba-upload-';
+
+/**
+ * A byte range from a Content-Range header (end is inclusive)
+ */
+export interface ContentRange {
+  start: number;
+  end: number;
+  total: number;
+}
+
+export type AppendChunkResult =
+  | {
+      ok: true;
+      chunk: UploadChunk;
+      /** Bytes received so far, including this chunk */
+      offset: number;
+      /** This was the last chunk */
+      complete: boolean;
+    }
+  | {
+      ok: false;
+      status: 400 | 401 | 409;
+      error: string;
+      message?: string;
+      /** Where the next chunk has to start */
+      offset: number;
+    };
+
+export type AssembleUploadResult =
+  | { ok: true; bundle: ReceivedBundle }
+  | {
+      ok: false;
+      /** Start of the first chunk that is missing or doesn't match its recorded hash */
+      start: number;
+    };
+
+/**
+ * Parse a "bytes <start>-<end>/<total>" Content-Range header.
+ * Returns null for anything else, including ranges outside the total.
+ */
+export function parseContentRange(header: string): ContentRange | null {
+  const match = CONTENT_RANGE_PATTERN.exec(header.trim());
+  if (!match) {
+    return null;
+  }
+  const [start, end, total] = match.slice(1).map(Number);
+  if (!Number.isSafeInteger(total) || start > end || end >= total) {
+    return null;
+  }
+  return { start, end, total };
+}
+
+/**
+ * Whether a range is the last one of its bundle
+ */
+export function isFinalChunk(range: ContentRange): boolean {
+  return range.end + 1 === range.total;
+}
+
+function getLocalUploadDir(publishId: string): string {
+  return path.join(os.tmpdir(), `${LOCAL_UPLOAD_PREFIX}${publishId}`);
+}
+
+/**
+ * Store a chunk's bytes, replacing any left by an earlier attempt
+ */
+async function storeChunk(publishId: string, start: number, filePath: string): Promise<void> {
+  if (isSupabaseConfigured()) {
+    const supabase = getSupabaseClient();
+    const data = await fs.promises.readFile(filePath);
+    const { error } = await supabase
+      .from('publish_upload_chunks')
+      .upsert({ publish_id: publishId, start_byte: start, data: data.toString('base64') });
+
+    if (error) {
+      console.error('[chunked-upload] Failed to store chunk:', error);
+      throw new Error(`Failed to store chunk: ${error.message}`);
+    }
+    return;
+  }
+
+  // Local fallback (copied under a temporary name, so a chunk is never half written)
+  const dir = getLocalUploadDir(publishId);
+  await fs.promises.mkdir(dir, { recursive: true });
+  const tempPath = path.join(dir, `${start}.${uuidv4()}`);
+  await fs.promises.copyFile(filePath, tempPath);
+  await fs.promises.rename(tempPath, path.join(dir, String(start)));
+}
+
+/**
+ * Read a stored chunk, or null if it isn't there
+ */
+async function readChunk(publishId: string, start: number): Promise<Buffer | null> {
+  if (isSupabaseConfigured()) {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('publish_upload_chunks')
+      .select('data')
+      .eq('publish_id', publishId)
+      .eq('start_byte', start)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[chunked-upload] Failed to read chunk:', error);
+      throw new Error(`Failed to read chunk: ${error.message}`);
+    }
+
+    return data ? Buffer.from((data as { data: string }).data, 'base64') : null;
+  }
+
+  // Local fallback
+  try {
+    return await fs.promises.readFile(path.join(getLocalUploadDir(publishId), String(start)));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Receive one chunk of a job's bundle and store it at the job's offset.
+ * Chunks must arrive in order and match the bundleSize declared at start;
+ * a rejected chunk leaves the upload where it was.
+ */
+export async function appendBundleChunk(
+  request: NextRequest,
+  job: Pick<PublishJob, 'id' | 'bundle_size' | 'upload_offset' | 'upload_chunks'>,
+  range: ContentRange,
+  options: { maxBytes?: number } = {}
+): Promise<AppendChunkResult> {
+  const maxBytes = options.maxBytes ?? MAX_BUNDLE_SIZE;
+  const offset = job.upload_offset ?? 0;
+  const length = range.end - range.start + 1;
+
+  if (range.total > maxBytes) {
+    return {
+      ok: false,
+      status: 400,
+      error: `Bundle too large (max ${maxBytes} bytes)`,
+      offset,
+    };
+  }
+  if (range.total !== job.bundle_size) {
+    return {
+      ok: false,
+      status: 400,
+      error: 'BundleSizeMismatch',
+      message: `Content-Range total ${range.total} does not match the declared bundleSize ${job.bundle_size}`,
+      offset,
+    };
+  }
+  if (range.start !== offset) {
+    return {
+      ok: false,
+      status: 409,
+      error: 'UploadOffsetMismatch',
+      message: `Expected a chunk starting at byte ${offset}`,
+      offset,
+    };
+  }
+
+  const received = await receiveBundle(request, { maxBytes: length });
+  if (!received.ok) {
+    return { ...received, offset };
+  }
+  const body = received.bundle;
+
+  try {
+    if (body.size !== length) {
+      return {
+        ok: false,
+        status: 400,
+        error: 'ChunkSizeMismatch',
+        message: `Chunk is ${body.size} bytes, but Content-Range declares ${length}`,
+        offset,
+      };
+    }
+
+    const declaredHash = request.headers.get(CHUNK_HASH_HEADER)?.trim().toLowerCase();
+    if (declaredHash && declaredHash !== body.hash) {
+      return {
+        ok: false,
+        status: 400,
+        error: 'ChunkHashMismatch',
+        message: `Chunk hash ${body.hash} does not match the declared ${declaredHash}`,
+        offset,
+      };
+    }
+
+    // Claim the range before storing it; only one of two chunks sent for the
+    // same offset at once gets it
+    const chunk: UploadChunk = { start: range.start, end: range.end, sha256: body.hash };
+    const chunks = job.upload_chunks || [];
+    const claimed = await updateUploadProgress(job.id, offset, {
+      upload_offset: offset + length,
+      upload_chunks: [...chunks, chunk],
+    });
+    if (!claimed) {
+      const current = await getPublishJob(job.id);
+      return {
+        ok: false,
+        status: 409,
+        error: 'UploadOffsetMismatch',
+        message: 'Another chunk for this offset was received first',
+        offset: current?.upload_offset ?? 0,
+      };
+    }
+
+    try {
+      await storeChunk(job.id, range.start, body.path);
+    } catch (error) {
+      // Give the range back so the chunk can be sent again
+      await updateUploadProgress(job.id, offset + length, {
+        upload_offset: offset,
+        upload_chunks: chunks,
+      });
+      throw error;
+    }
+
+    return {
+      ok: true,
+      chunk,
+      offset: offset + length,
+      complete: offset + length === range.total,
+    };
+  } finally {
+    await discardReceivedBundle(body);
+  }
+}
+
+/**
+ * Assemble a job's stored chunks into a temporary file, checking each
+ * against its recorded hash, so the bundle can go through the same checks
+ * as a single-request upload
+ */
+export async function assembleChunkedUpload(
+  job: Pick<PublishJob, 'id' | 'upload_chunks'>
+): Promise<AssembleUploadResult> {
+  const filePath = path.join(os.tmpdir(), `abba-bundle-${uuidv4()}`);
+  const hash = crypto.createHash('sha256');
+  let size = 0;
+
+  const file = await fs.promises.open(filePath, 'w');
+  try {
+    for (const chunk of job.upload_chunks || []) {
+      const data = await readChunk(job.id, chunk.start);
+      const chunkHash = data && crypto.createHash('sha256').update(data).digest('hex');
+      if (!data || chunkHash !== chunk.sha256) {
+        await file.close();
+        await fs.promises.rm(filePath, { force: true });
+        return { ok: false, start: chunk.start };
+      }
+
+      await file.write(data);
+      hash.update(data);
+      size += data.length;
+    }
+  } catch (error) {
+    await file.close();
+    await fs.promises.rm(filePath, { force: true });
+    throw error;
+  }
+  await file.close();
+
+  // The format is sniffed from the bundle itself
+  return {
+    ok: true,
+    bundle: { path: filePath, size, hash: hash.digest('hex'), contentType: null },
+  };
+}
+
+/**
+ * Remove a job's stored chunks, if it has any
+ */
+export async function discardChunkedUpload(publishId: string): Promise<void> {
+  if (isSupabaseConfigured()) {
+    const supabase = getSupabaseClient();
+    const { error } = await supabase
+      .from('publish_upload_chunks')
+      .delete()
+      .eq('publish_id', publishId);
+
+    if (error) {
+      console.error('[chunked-upload] Failed to discard chunks:', error);
+      throw new Error(`Failed to discard chunks: ${error.message}`);
+    }
+    return;
+  }
+
+  // Local fallback
+  await fs.promises.rm(getLocalUploadDir(publishId), { recursive: true, force: true });
+}
+
+/**
+ * Remove the chunks of uploads that finished, failed or have been idle for
+ * UPLOAD_TTL_MS. Returns how many chunks (with Supabase) or uploads
+ * (locally) were removed.
+ */
+export async function sweepAbandonedUploads(now: number = Date.now()): Promise<number> {
+  if (isSupabaseConfigured()) {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase.rpc('upload_chunks_cleanup', {
+      p_max_idle_seconds: Math.floor(UPLOAD_TTL_MS / 1000),
+    });
+
+    if (error) {
+      console.error('[chunked-upload] Failed to sweep abandoned uploads:', error);
+      return 0;
+    }
+
+    return (data as number) || 0;
+  }
+
+  // Local fallback: a job's directory is touched whenever one of its chunks is stored
+  const tmpdir = os.tmpdir();
+  let swept = 0;
+  for (const name of await fs.promises.readdir(tmpdir)) {
+    if (!name.startsWith(LOCAL_UPLOAD_PREFIX)) {
+      continue;
+    }
+
+    const dir = path.join(tmpdir, name);
+    try {
+      const stats = await fs.promises.stat(dir);
+      if (stats.mtimeMs + UPLOAD_TTL_MS < now) {
+        await fs.promises.rm(dir, { recursive: true, force: true });
+        swept++;
+      }
+    } catch {
+      // Removed by another request in the meantime
+    }
+  }
+  return swept;
+}
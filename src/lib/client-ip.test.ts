@@ -0,0 +1,242 @@
+/**
+ * Client IP Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import {
+  getClientIp,
+  getClientIpHeader,
+  normalizeAddress,
+  parseForwardedHeader,
+  parseTrustedProxies,
+} from './client-ip';
+
+function createMockRequest(headers: Record<string, string>, ip?: string): NextRequest {
+  return {
+    headers: new Headers(headers),
+    ip,
+  } as unknown as NextRequest;
+}
+
+describe('client-ip', () => {
+  afterEach(() => {
+    delete process.env.ABBA_TRUSTED_PROXIES;
+    delete process.env.ABBA_CLIENT_IP_HEADER;
+    delete process.env.VERCEL;
+  });
+
+  describe('parseTrustedProxies', () => {
+    it('defaults to one hop on Vercel and none elsewhere', () => {
+      expect(parseTrustedProxies('')).toEqual({ type: 'hops', hops: 0 });
+
+      process.env.VERCEL = '1';
+      expect(parseTrustedProxies('')).toEqual({ type: 'hops', hops: 1 });
+    });
+
+    it('parses a hop count', () => {
+      expect(parseTrustedProxies('2')).toEqual({ type: 'hops', hops: 2 });
+    });
+
+    it('parses CIDRs and bare addresses', () => {
+      const config = parseTrustedProxies('10.0.0.0/8, 192.168.1.1, 2001:db8::/32');
+      expect(config.type).toBe('cidrs');
+      expect(config.type === 'cidrs' && config.cidrs).toEqual([
+        '10.0.0.0/8',
+        '192.168.1.1/32',
+        '2001:db8::/32',
+      ]);
+    });
+
+    it('skips invalid entries', () => {
+      const config = parseTrustedProxies('10.0.0.0/8,not-an-ip,10.0.0.0/40');
+      expect(config.type === 'cidrs' && config.cidrs).toEqual(['10.0.0.0/8']);
+    });
+  });
+
+  describe('normalizeAddress', () => {
+    it('strips IPv4 ports', () => {
+      expect(normalizeAddress(' 203.0.113.7:51234 ')).toBe('203.0.113.7');
+    });
+
+    it('strips brackets and ports from IPv6', () => {
+      expect(normalizeAddress('"[2001:DB8:cafe::17]:4711"')).toBe('2001:db8:cafe::17');
+    });
+
+    it('leaves bare IPv6 alone', () => {
+      expect(normalizeAddress('2001:db8::1')).toBe('2001:db8::1');
+    });
+
+    it('unwraps IPv4-mapped IPv6', () => {
+      expect(normalizeAddress('::ffff:203.0.113.7')).toBe('203.0.113.7');
+    });
+  });
+
+  describe('parseForwardedHeader', () => {
+    it('extracts for= nodes in order', () => {
+      expect(
+        parseForwardedHeader(
+          'for=192.0.2.60;proto=http;by=203.0.113.43, For="[2001:db8:cafe::17]:4711"'
+        )
+      ).toEqual(['192.0.2.60', '2001:db8:cafe::17']);
+    });
+
+    it('keeps obfuscated identifiers', () => {
+      expect(parseForwardedHeader('for=unknown, for=_hidden')).toEqual(['unknown', '_hidden']);
+    });
+  });
+
+  describe('getClientIpHeader', () => {
+    it('uses x-forwarded-for by default', () => {
+      expect(getClientIpHeader()).toBe('x-forwarded-for');
+    });
+
+    it('uses x-vercel-forwarded-for on Vercel', () => {
+      process.env.VERCEL = '1';
+      expect(getClientIpHeader()).toBe('x-vercel-forwarded-for');
+    });
+
+    it('can be configured', () => {
+      process.env.ABBA_CLIENT_IP_HEADER = 'Forwarded';
+      expect(getClientIpHeader()).toBe('forwarded');
+    });
+  });
+
+  describe('getClientIp with a hop count', () => {
+    beforeEach(() => {
+      process.env.ABBA_TRUSTED_PROXIES = '1';
+    });
+
+    it('uses the only entry', () => {
+      expect(getClientIp(createMockRequest({ 'x-forwarded-for': '203.0.113.7' }))).toBe(
+        '203.0.113.7'
+      );
+    });
+
+    it('ignores entries the client prepended', () => {
+      const request = createMockRequest({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7' });
+      expect(getClientIp(request)).toBe('203.0.113.7');
+    });
+
+    it('skips the configured number of proxies', () => {
+      process.env.ABBA_TRUSTED_PROXIES = '2';
+      const request = createMockRequest({
+        'x-forwarded-for': '1.2.3.4, 203.0.113.7, 198.51.100.2',
+      });
+      expect(getClientIp(request)).toBe('203.0.113.7');
+    });
+
+    it('uses the leftmost entry when the chain is shorter than the hop count', () => {
+      process.env.ABBA_TRUSTED_PROXIES = '3';
+      const request = createMockRequest({ 'x-forwarded-for': '203.0.113.7, 198.51.100.2' });
+      expect(getClientIp(request)).toBe('203.0.113.7');
+    });
+
+    it('ignores headers with zero hops', () => {
+      process.env.ABBA_TRUSTED_PROXIES = '0';
+      const request = createMockRequest({ 'x-forwarded-for': '1.2.3.4' }, '203.0.113.7');
+      expect(getClientIp(request)).toBe('203.0.113.7');
+    });
+  });
+
+  describe('getClientIp with CIDRs', () => {
+    it('walks past trusted proxies from the right', () => {
+      process.env.ABBA_TRUSTED_PROXIES = '10.0.0.0/8,172.16.0.0/12';
+      const request = createMockRequest({
+        'x-forwarded-for': '1.2.3.4, 203.0.113.7, 172.16.0.5, 10.0.0.2',
+      });
+      expect(getClientIp(request)).toBe('203.0.113.7');
+    });
+
+    it('does not trust a forged chain that ends in an untrusted hop', () => {
+      process.env.ABBA_TRUSTED_PROXIES = '10.0.0.0/8';
+      // Client claims to be a trusted proxy forwarding for someone else
+      const request = createMockRequest({
+        'x-forwarded-for': '198.51.100.9, 10.0.0.2, 203.0.113.7',
+      });
+      expect(getClientIp(request)).toBe('203.0.113.7');
+    });
+
+    it('ignores headers from a peer outside the trusted ranges', () => {
+      process.env.ABBA_TRUSTED_PROXIES = '10.0.0.0/8';
+      const request = createMockRequest({ 'x-forwarded-for': '1.2.3.4' }, '203.0.113.7');
+      expect(getClientIp(request)).toBe('203.0.113.7');
+    });
+
+    it('reads the chain when the peer is trusted', () => {
+      process.env.ABBA_TRUSTED_PROXIES = '10.0.0.0/8';
+      const request = createMockRequest({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7' }, '10.0.0.2');
+      expect(getClientIp(request)).toBe('203.0.113.7');
+    });
+
+    it('matches IPv6 ranges', () => {
+      process.env.ABBA_TRUSTED_PROXIES = '2001:db8::/32';
+      const request = createMockRequest({
+        'x-forwarded-for': '2001:db9::1, [2001:db8::5]:443',
+      });
+      expect(getClientIp(request)).toBe('2001:db9::1');
+    });
+
+    it('uses the leftmost entry when every hop is trusted', () => {
+      process.env.ABBA_TRUSTED_PROXIES = '10.0.0.0/8';
+      const request = createMockRequest({ 'x-forwarded-for': '10.0.0.9, 10.0.0.2' });
+      expect(getClientIp(request)).toBe('10.0.0.9');
+    });
+  });
+
+  describe('getClientIp headers', () => {
+    it('uses the peer address off Vercel unless proxies are configured', () => {
+      const request = createMockRequest({ 'x-forwarded-for': '1.2.3.4' }, '203.0.113.7');
+      expect(getClientIp(request)).toBe('203.0.113.7');
+      expect(getClientIp(createMockRequest({ 'x-forwarded-for': '1.2.3.4' }))).toBe('unknown');
+
+      process.env.ABBA_TRUSTED_PROXIES = '1';
+      expect(getClientIp(request)).toBe('1.2.3.4');
+    });
+
+    it('ignores a spoofed x-vercel-forwarded-for off Vercel', () => {
+      process.env.ABBA_TRUSTED_PROXIES = '1';
+      const request = createMockRequest({
+        'x-vercel-forwarded-for': '1.2.3.4',
+        'x-forwarded-for': '203.0.113.7',
+      });
+      expect(getClientIp(request)).toBe('203.0.113.7');
+    });
+
+    it('prefers x-vercel-forwarded-for on Vercel', () => {
+      process.env.VERCEL = '1';
+      const request = createMockRequest({
+        'x-vercel-forwarded-for': '203.0.113.7',
+        'x-forwarded-for': '1.2.3.4',
+      });
+      expect(getClientIp(request)).toBe('203.0.113.7');
+    });
+
+    it('reads RFC 7239 Forwarded when configured', () => {
+      process.env.ABBA_TRUSTED_PROXIES = '1';
+      process.env.ABBA_CLIENT_IP_HEADER = 'forwarded';
+      const request = createMockRequest({
+        forwarded: 'for=1.2.3.4, for="[2001:db8:cafe::17]:4711";proto=https',
+        'x-forwarded-for': '198.51.100.9',
+      });
+      expect(getClientIp(request)).toBe('2001:db8:cafe::17');
+    });
+
+    it('ignores x-real-ip unless configured', () => {
+      process.env.ABBA_TRUSTED_PROXIES = '1';
+      const request = createMockRequest({ 'x-real-ip': '1.2.3.4' });
+      expect(getClientIp(request)).toBe('unknown');
+
+      process.env.ABBA_CLIENT_IP_HEADER = 'x-real-ip';
+      expect(getClientIp(request)).toBe('1.2.3.4');
+    });
+
+    it('falls back to the peer address', () => {
+      expect(getClientIp(createMockRequest({}, '203.0.113.7'))).toBe('203.0.113.7');
+    });
+
+    it('returns unknown with no address at all', () => {
+      expect(getClientIp(createMockRequest({}))).toBe('unknown');
+    });
+  });
+});
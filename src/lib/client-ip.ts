@@ -0,0 +1,229 @@
+/**
+ * Client IP
+ *
+ * Resolves the client address used to key rate limits and auth lockouts.
+ *
+ * Forwarding headers are appended to by every proxy, and anything left of
+ * the proxies we trust was written by the client. So the chain is walked
+ * from the right, skipping trusted proxies, and the first untrusted entry
+ * is the client. ABBA_TRUSTED_PROXIES configures which proxies are trusted:
+ * - a hop count, e.g. "1" or "2" (a CDN in front)
+ * - a comma-separated list of CIDRs, e.g. "10.0.0.0/8,2001:db8::/32"
+ * When it is unset, Vercel's edge is trusted as one hop on Vercel. Elsewhere no proxy is
+ * trusted and the connecting peer's address is used, since a client that
+ * connects directly can write any forwarding header it likes.
+ *
+ * ABBA_CLIENT_IP_HEADER picks the header the trusted proxy writes:
+ * x-vercel-forwarded-for (default on Vercel), x-forwarded-for (default
+ * elsewhere), forwarded (RFC 7239) or x-real-ip.
+ */
+
+import net from 'net';
+import { NextRequest } from 'next/server';
+
+export type ClientIpHeader =
+  | 'x-vercel-forwarded-for'
+  | 'x-forwarded-for'
+  | 'forwarded'
+  | 'x-real-ip';
+
+const CLIENT_IP_HEADERS: ClientIpHeader[] = [
+  'x-vercel-forwarded-for',
+  'x-forwarded-for',
+  'forwarded',
+  'x-real-ip',
+];
+
+export type TrustedProxyConfig =
+  | { type: 'hops'; hops: number }
+  | { type: 'cidrs'; cidrs: string[]; blockList: net.BlockList };
+
+/**
+ * Trusted proxies when ABBA_TRUSTED_PROXIES is unset: Vercel's edge on Vercel, none elsewhere
+ */
+export function getDefaultTrustedProxies(): TrustedProxyConfig {
+  return { type: 'hops', hops: process.env.VERCEL ? 1 : 0 };
+}
+
+/** Client address reported when none is available at all */
+export const UNKNOWN_CLIENT_IP = 'unknown';
+
+let cachedConfig: { raw: string; vercel: boolean; config: TrustedProxyConfig } | null = null;
+let warnedUnknownClient = false;
+
+/**
+ * Get the header the trusted proxy writes the forwarded chain to
+ */
+export function getClientIpHeader(): ClientIpHeader {
+  const configured = process.env.ABBA_CLIENT_IP_HEADER?.toLowerCase();
+
+  if (configured) {
+    if ((CLIENT_IP_HEADERS as string[]).includes(configured)) {
+      return configured as ClientIpHeader;
+    }
+    console.warn(`[client-ip] Unknown ABBA_CLIENT_IP_HEADER "${configured}", using default`);
+  }
+
+  // Vercel's edge overwrites this header, so it can't be spoofed there
+  return process.env.VERCEL ? 'x-vercel-forwarded-for' : 'x-forwarded-for';
+}
+
+/**
+ * Parse a trusted proxy setting (hop count or CIDR list)
+ */
+export function parseTrustedProxies(raw: string): TrustedProxyConfig {
+  const value = raw.trim();
+
+  if (!value) {
+    return getDefaultTrustedProxies();
+  }
+
+  if (/^\d+$/.test(value)) {
+    return { type: 'hops', hops: Number(value) };
+  }
+
+  const blockList = new net.BlockList();
+  const cidrs: string[] = [];
+
+  for (const entry of value.split(',').map((part) => part.trim())) {
+    const [address, prefix] = entry.split('/');
+    const family = net.isIP(address);
+    const bits = prefix === undefined ? (family === 6 ? 128 : 32) : Number(prefix);
+
+    if (family === 0 || !Number.isInteger(bits) || bits < 0 || bits > (family === 6 ? 128 : 32)) {
+      console.warn(`[client-ip] Ignoring invalid trusted proxy "${entry}"`);
+      continue;
+    }
+
+    blockList.addSubnet(address, bits, family === 6 ? 'ipv6' : 'ipv4');
+    cidrs.push(`${address}/${bits}`);
+  }
+
+  return { type: 'cidrs', cidrs, blockList };
+}
+
+/**
+ * Get the configured trusted proxies
+ */
+export function getTrustedProxyConfig(): TrustedProxyConfig {
+  const raw = process.env.ABBA_TRUSTED_PROXIES || '';
+  const vercel = Boolean(process.env.VERCEL);
+
+  if (cachedConfig?.raw !== raw || cachedConfig.vercel !== vercel) {
+    cachedConfig = { raw, vercel, config: parseTrustedProxies(raw) };
+  }
+
+  return cachedConfig.config;
+}
+
+/**
+ * Strip brackets, ports and the IPv4-mapped IPv6 prefix from a node address
+ */
+export function normalizeAddress(node: string): string {
+  let address = node.trim().replace(/^"|"$/g, '');
+
+  const bracketed = address.match(/^\[([^\]]+)\](?::\d+)?$/);
+  if (bracketed) {
+    address = bracketed[1];
+  } else if (/^[^:]+:\d+$/.test(address)) {
+    // IPv4 with port
+    address = address.slice(0, address.lastIndexOf(':'));
+  }
+
+  if (/^::ffff:\d+\.\d+\.\d+\.\d+$/i.test(address)) {
+    address = address.slice(7);
+  }
+
+  return address.toLowerCase();
+}
+
+/**
+ * Extract the for= nodes from an RFC 7239 Forwarded header, in order
+ */
+export function parseForwardedHeader(value: string): string[] {
+  const nodes: string[] = [];
+
+  for (const element of value.split(',')) {
+    for (const pair of element.split(';')) {
+      const separator = pair.indexOf('=');
+      if (separator !== -1 && pair.slice(0, separator).trim().toLowerCase() === 'for') {
+        nodes.push(normalizeAddress(pair.slice(separator + 1)));
+      }
+    }
+  }
+
+  return nodes;
+}
+
+/**
+ * Get the forwarded chain from the configured header, client side first
+ */
+export function getForwardedChain(request: NextRequest): string[] {
+  const header = getClientIpHeader();
+  const value = request.headers.get(header);
+
+  if (!value) {
+    return [];
+  }
+
+  if (header === 'forwarded') {
+    return parseForwardedHeader(value);
+  }
+
+  return value
+    .split(',')
+    .map(normalizeAddress)
+    .filter((address) => address.length > 0);
+}
+
+function isTrustedAddress(address: string, blockList: net.BlockList): boolean {
+  const family = net.isIP(address);
+  return family !== 0 && blockList.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Fallback when no address is available at all
+ */
+function unknownClient(): string {
+  if (!warnedUnknownClient) {
+    warnedUnknownClient = true;
+    console.warn(
+      `[client-ip] No client address from the runtime or a trusted ${getClientIpHeader()}; ` +
+        'unauthenticated clients will share one rate limit. ' +
+        'Behind a proxy, set ABBA_TRUSTED_PROXIES and ABBA_CLIENT_IP_HEADER.'
+    );
+  }
+  return UNKNOWN_CLIENT_IP;
+}
+
+/**
+ * Get client IP from request
+ */
+export function getClientIp(request: NextRequest): string {
+  const config = getTrustedProxyConfig();
+  const chain = getForwardedChain(request);
+  // Address of the connecting peer, when the runtime provides it
+  const peer = request.ip ? normalizeAddress(request.ip) : null;
+
+  if (config.type === 'hops') {
+    if (config.hops === 0 || chain.length === 0) {
+      return peer || unknownClient();
+    }
+    // Fewer entries than proxies: the leftmost is the best we have
+    return chain[Math.max(0, chain.length - config.hops)];
+  }
+
+  // A peer outside the trusted ranges connected directly, so its headers are its own
+  if (peer && !isTrustedAddress(peer, config.blockList)) {
+    return peer;
+  }
+
+  for (let i = chain.length - 1; i >= 0; i--) {
+    if (!isTrustedAddress(chain[i], config.blockList)) {
+      return chain[i];
+    }
+  }
+
+  // Everything was a trusted proxy; the leftmost entry is the closest to the client
+  return chain[0] || peer || unknownClient();
+}
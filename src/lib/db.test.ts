@@ -8,6 +8,8 @@ import {
   getPublishJob,
   updatePublishJob,
   updateJobStatus,
+  updateUploadProgress,
+  isJobOwnedBy,
   clearInMemoryStoreForTesting,
 } from './db';
 
@@ -106,6 +108,27 @@ describe('db (in-memory)', () => {
     });
   });
 
+  describe('updateUploadProgress', () => {
+    it('records progress only from the expected offset', async () => {
+      const job = await createPublishJob({ appId: 333, bundleHash: 'hash333', bundleSize: 300 });
+      await updatePublishJob(job.id, { status: 'uploading', upload_offset: 0 });
+      const chunk = { start: 0, end: 99, sha256: 'a'.repeat(64) };
+
+      const first = await updateUploadProgress(job.id, 0, {
+        upload_offset: 100,
+        upload_chunks: [chunk],
+      });
+      const duplicate = await updateUploadProgress(job.id, 0, {
+        upload_offset: 100,
+        upload_chunks: [chunk],
+      });
+
+      expect(first).toMatchObject({ upload_offset: 100, upload_chunks: [chunk] });
+      expect(duplicate).toBeNull();
+      expect((await getPublishJob(job.id))?.upload_chunks).toEqual([chunk]);
+    });
+  });
+
   describe('updateJobStatus', () => {
     it('updates status with extras', async () => {
       const job = await createPublishJob({
@@ -139,4 +162,134 @@ describe('db (in-memory)', () => {
       expect(retrieved?.error).toBe('Deployment failed');
     });
   });
+
+  describe('job ownership', () => {
+    it('records the owning device', async () => {
+      const job = await createPublishJob({
+        appId: 555,
+        bundleHash: 'hash555',
+        bundleSize: 500,
+        deviceId: 'device-a',
+      });
+
+      expect(job.device_id).toBe('device-a');
+    });
+
+    it('returns jobs to the device that created them', async () => {
+      const job = await createPublishJob({
+        appId: 555,
+        bundleHash: 'hash555',
+        bundleSize: 500,
+        deviceId: 'device-a',
+      });
+
+      const retrieved = await getPublishJob(job.id, {
+        deviceId: 'device-a',
+        profileId: null,
+        clientIp: null,
+      });
+      expect(retrieved?.id).toBe(job.id);
+    });
+
+    it('hides jobs from other devices', async () => {
+      const job = await createPublishJob({
+        appId: 555,
+        bundleHash: 'hash555',
+        bundleSize: 500,
+        deviceId: 'device-a',
+      });
+
+      const retrieved = await getPublishJob(job.id, {
+        deviceId: 'device-b',
+        profileId: null,
+        clientIp: null,
+      });
+      expect(retrieved).toBeNull();
+    });
+
+    it('shares jobs between devices bound to the same profile', async () => {
+      const job = await createPublishJob({
+        appId: 555,
+        bundleHash: 'hash555',
+        bundleSize: 500,
+        deviceId: 'device-a',
+        profileId: 'user-1',
+      });
+
+      expect(
+        await getPublishJob(job.id, { deviceId: 'device-b', profileId: 'user-1', clientIp: null })
+      ).not.toBeNull();
+      expect(
+        await getPublishJob(job.id, { deviceId: 'device-c', profileId: 'user-2', clientIp: null })
+      ).toBeNull();
+    });
+
+    it('returns any job when no owner is given', async () => {
+      const job = await createPublishJob({
+        appId: 555,
+        bundleHash: 'hash555',
+        bundleSize: 500,
+        deviceId: 'device-a',
+      });
+
+      expect(await getPublishJob(job.id)).not.toBeNull();
+    });
+  });
+
+  describe('isJobOwnedBy', () => {
+    it('never matches jobs without a device or profile', async () => {
+      const job = await createPublishJob({ appId: 1, bundleHash: 'h', bundleSize: 1 });
+      expect(isJobOwnedBy(job, { deviceId: 'device-a', profileId: null, clientIp: null })).toBe(
+        false
+      );
+    });
+
+    it('keeps shared device token callers to the jobs they started', async () => {
+      const envJob = await createPublishJob({
+        appId: 1,
+        bundleHash: 'h',
+        bundleSize: 1,
+        deviceId: 'env',
+        clientIp: '203.0.113.1',
+      });
+      const deviceJob = await createPublishJob({
+        appId: 1,
+        bundleHash: 'h',
+        bundleSize: 1,
+        deviceId: 'device-a',
+        profileId: 'user-1',
+      });
+      const envOwner = { deviceId: 'env', profileId: null, clientIp: '203.0.113.1' };
+
+      expect(isJobOwnedBy(envJob, envOwner)).toBe(true);
+      expect(isJobOwnedBy(deviceJob, envOwner)).toBe(false);
+    });
+
+    it('keeps shared device token callers apart by client IP', async () => {
+      const job = await createPublishJob({
+        appId: 1,
+        bundleHash: 'h',
+        bundleSize: 1,
+        deviceId: 'env',
+        clientIp: '203.0.113.1',
+      });
+
+      expect(isJobOwnedBy(job, { deviceId: 'env', profileId: null, clientIp: '203.0.113.2' })).toBe(
+        false
+      );
+    });
+
+    it('hides shared device token jobs without a client from its callers', async () => {
+      const job = await createPublishJob({
+        appId: 1,
+        bundleHash: 'h',
+        bundleSize: 1,
+        deviceId: 'env',
+      });
+
+      expect(isJobOwnedBy(job, { deviceId: 'env', profileId: null, clientIp: '203.0.113.1' })).toBe(
+        false
+      );
+    });
+  });
 });
@@ -7,12 +7,50 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import { getSupabaseClient, isSupabaseConfigured } from './supabase';
-import type { PublishJob, PublishStatus } from './types';
+import { TERMINAL_STATUSES, PublishStatusEnum, isTerminalStatus, isUuid } from './types';
+import type {
+  BundleReport,
+  PublishJob,
+  PublishMode,
+  PublishStatus,
+  SecretFinding,
+  UploadChunk,
+} from './types';
 
 // --- In-memory fallback store (for local dev without Supabase) ---
 
 const inMemoryJobs = new Map<string, PublishJob>();
 
+/**
+ * Identity a job lookup is scoped to
+ */
+export interface JobOwner {
+  deviceId: string;
+  /** Profile the caller's device is bound to (never taken from request bodies) */
+  profileId: string | null;
+  /**
+   * Client IP of a caller on the shared 'env' device, whose installs are
+   * only told apart by address (null for registry devices)
+   */
+  clientIp: string | null;
+}
+
+/**
+ * Check whether a job belongs to a caller: created by the same device (and,
+ * on the shared device, the same client), or by any device of the caller's
+ * bound profile.
+ */
+export function isJobOwnedBy(job: PublishJob, owner: JobOwner): boolean {
+  if (
+    job.device_id !== null &&
+    job.device_id === owner.deviceId &&
+    (owner.clientIp === null || job.client_ip === owner.clientIp)
+  ) {
+    return true;
+  }
+  return owner.profileId !== null && job.profile_id === owner.profileId;
+}
+
 /**
  * Create a new publish job
  */
@@ -20,8 +58,13 @@ export async function createPublishJob(params: {
   appId: number;
   appName?: string;
   profileId?: string;
+  deviceId?: string;
+  clientIp?: string;
   bundleHash: string;
   bundleSize: number;
+  strict?: boolean;
+  mode?: PublishMode;
+  spa?: boolean;
 }): Promise<PublishJob> {
   const job: PublishJob = {
     id: uuidv4(),
@@ -29,9 +72,23 @@ export async function createPublishJob(params: {
     app_id: params.appId,
     app_name: params.appName || null,
     profile_id: params.profileId || null,
+    device_id: params.deviceId || null,
+    client_ip: params.clientIp || null,
     bundle_hash: params.bundleHash,
     bundle_size: params.bundleSize,
+    uploaded_bytes: null,
     bundle_path: null,
+    upload_offset: null,
+    upload_chunks: null,
+    strict: params.strict ?? false,
+    mode: params.mode ?? 'static',
+    spa: params.spa ?? null,
+    framework: null,
+    build_command: null,
+    install_command: null,
+    output_directory: null,
+    bundle_report: null,
+    secret_findings: null,
     vercel_deployment_id: null,
     vercel_project_id: null,
     url: null,
@@ -58,9 +115,31 @@ export async function createPublishJob(params: {
 }
 
 /**
- * Get a publish job by ID
+ * Get a publish job by ID.
+ * When an owner is given, jobs owned by someone else are returned as null
+ * (callers report 404, so job IDs can't be probed).
+ */
+export async function getPublishJob(
+  publishId: string,
+  owner?: JobOwner
+): Promise<PublishJob | null> {
+  const job = await findPublishJob(publishId);
+
+  if (job && owner && !isJobOwnedBy(job, owner)) {
+    return null;
+  }
+
+  return job;
+}
+
+/**
+ * Look up a publish job by ID without ownership checks
  */
-export async function getPublishJob(publishId: string): Promise<PublishJob | null> {
+async function findPublishJob(publishId: string): Promise<PublishJob | null> {
+  if (!isUuid(publishId)) {
+    return null;
+  }
+
   if (isSupabaseConfigured()) {
     const supabase = getSupabaseClient();
     const { data, error } = await supabase
@@ -137,6 +216,9 @@ export async function updateJobStatus(
     vercel_deployment_id?: string;
     vercel_project_id?: string;
     bundle_path?: string;
+    uploaded_bytes?: number;
+    bundle_report?: BundleReport;
+    secret_findings?: SecretFinding[];
   }
 ): Promise<PublishJob | null> {
   return updatePublishJob(publishId, {
@@ -145,6 +227,124 @@ export async function updateJobStatus(
   });
 }
 
+/**
+ * Record a chunked upload's progress, but only if its offset is still
+ * expectedOffset. Returns null when another request moved it first.
+ */
+export async function updateUploadProgress(
+  publishId: string,
+  expectedOffset: number,
+  progress: { upload_offset: number; upload_chunks: UploadChunk[] }
+): Promise<PublishJob | null> {
+  const updateData = {
+    ...progress,
+    updated_at: new Date().toISOString(),
+  };
+
+  if (isSupabaseConfigured()) {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('publish_jobs')
+      .update(updateData)
+      .eq('id', publishId)
+      .eq('upload_offset', expectedOffset)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('[db] Failed to update upload progress:', error);
+      throw new Error(`Failed to update upload progress: ${error.message}`);
+    }
+
+    return data as PublishJob | null;
+  }
+
+  // In-memory fallback
+  const job = inMemoryJobs.get(publishId);
+  if (!job || job.upload_offset !== expectedOffset) {
+    return null;
+  }
+
+  const updatedJob = { ...job, ...updateData };
+  inMemoryJobs.set(publishId, updatedJob);
+  return updatedJob;
+}
+
+/**
+ * Usage attributed to one device or profile
+ */
+export interface JobUsage {
+  /** Jobs created since the window start */
+  publishes: number;
+  /** Bytes uploaded to jobs created since the window start */
+  uploadedBytes: number;
+  /** Jobs not yet in a terminal state that were updated since activeSince */
+  inFlight: number;
+}
+
+/**
+ * Summarize the jobs of a device (optionally one client of it) or profile
+ * for quota checks.
+ * Unfinished jobs not updated since activeSince are treated as abandoned.
+ */
+export async function getJobUsage(
+  filter: { deviceId: string; clientIp?: string | null } | { profileId: string },
+  since: string,
+  activeSince: string
+): Promise<JobUsage> {
+  const matches = (job: Pick<PublishJob, 'device_id' | 'client_ip' | 'profile_id'>) =>
+    'deviceId' in filter
+      ? job.device_id === filter.deviceId && (!filter.clientIp || job.client_ip === filter.clientIp)
+      : job.profile_id === filter.profileId;
+  const summarize = (
+    jobs: Pick<PublishJob, 'status' | 'uploaded_bytes' | 'created_at' | 'updated_at'>[]
+  ) => {
+    const usage: JobUsage = { publishes: 0, uploadedBytes: 0, inFlight: 0 };
+    for (const job of jobs) {
+      if (job.created_at >= since) {
+        usage.publishes++;
+        usage.uploadedBytes += job.uploaded_bytes || 0;
+      }
+      if (!isTerminalStatus(job.status) && job.updated_at >= activeSince) {
+        usage.inFlight++;
+      }
+    }
+    return usage;
+  };
+
+  if (isSupabaseConfigured()) {
+    const supabase = getSupabaseClient();
+    const activeStatuses = PublishStatusEnum.options.filter(
+      (status) => !TERMINAL_STATUSES.includes(status)
+    );
+    let query = supabase
+      .from('publish_jobs')
+      .select('status, uploaded_bytes, created_at, updated_at');
+    if ('profileId' in filter) {
+      query = query.eq('profile_id', filter.profileId);
+    } else {
+      query = query.eq('device_id', filter.deviceId);
+      if (filter.clientIp) {
+        query = query.eq('client_ip', filter.clientIp);
+      }
+    }
+
+    const { data, error } = await query.or(
+      `created_at.gte.${since},and(status.in.(${activeStatuses.join(',')}),updated_at.gte.${activeSince})`
+    );
+
+    if (error) {
+      console.error('[db] Failed to get job usage:', error);
+      throw new Error(`Failed to get job usage: ${error.message}`);
+    }
+
+    return summarize(data || []);
+  }
+
+  // In-memory fallback
+  return summarize(Array.from(inMemoryJobs.values()).filter(matches));
+}
+
 /**
  * Delete old jobs (cleanup)
  */
@@ -0,0 +1,134 @@
+/**
+ * Device Pairing Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  startPairing,
+  approvePairing,
+  claimPairing,
+  generatePairingCode,
+  normalizePairingCode,
+  clearPairingsForTesting,
+  PAIRING_TTL_MS,
+} from './device-pairing';
+import {
+  clearDeviceTokensForTesting,
+  findDeviceTokenByHash,
+  hashDeviceToken,
+} from './device-tokens';
+
+// Mock Supabase to use in-memory store
+vi.mock('./supabase', () => ({
+  isSupabaseConfigured: () => false,
+  getSupabaseClient: () => null,
+}));
+
+describe('device-pairing (in-memory)', () => {
+  beforeEach(() => {
+    clearPairingsForTesting();
+    clearDeviceTokensForTesting();
+  });
+
+  describe('generatePairingCode', () => {
+    it('returns an unambiguous XXXX-XXXX code', () => {
+      const code = generatePairingCode();
+      expect(code).toMatch(/^[A-HJKMNP-Z2-9]{4}-[A-HJKMNP-Z2-9]{4}$/);
+    });
+  });
+
+  describe('normalizePairingCode', () => {
+    it('upper-cases and re-inserts the dash', () => {
+      expect(normalizePairingCode('k7qx m2pf')).toBe('K7QX-M2PF');
+      expect(normalizePairingCode('K7QXM2PF')).toBe('K7QX-M2PF');
+      expect(normalizePairingCode('k7qx-m2pf')).toBe('K7QX-M2PF');
+    });
+  });
+
+  describe('pairing flow', () => {
+    it('exchanges an approved code for a device token', async () => {
+      const pairing = await startPairing({ label: 'studio-mac' });
+      expect(pairing.status).toBe('pending');
+
+      const approved = await approvePairing(pairing.code.toLowerCase(), {
+        profileId: 'user-1',
+        scopes: ['publish:read'],
+      });
+      expect(approved?.status).toBe('approved');
+
+      const result = await claimPairing(pairing.id);
+      expect(result.status).toBe('claimed');
+      if (result.status !== 'claimed') return;
+
+      const device = await findDeviceTokenByHash(hashDeviceToken(result.token));
+      expect(device?.id).toBe(result.device.id);
+      expect(device?.label).toBe('studio-mac');
+      expect(device?.profile_id).toBe('user-1');
+      expect(device?.scopes).toEqual(['publish:read']);
+    });
+
+    it('lets the admin override the label', async () => {
+      const pairing = await startPairing({ label: 'hostname' });
+      await approvePairing(pairing.code, { label: 'Front desk PC' });
+
+      const result = await claimPairing(pairing.id);
+      expect(result.status === 'claimed' && result.device.label).toBe('Front desk PC');
+    });
+
+    it('reports pending until approved', async () => {
+      const pairing = await startPairing({});
+      const result = await claimPairing(pairing.id);
+      expect(result).toEqual({ status: 'pending', expiresAt: pairing.expires_at });
+    });
+
+    it('is single-use', async () => {
+      const pairing = await startPairing({});
+      await approvePairing(pairing.code, {});
+
+      expect((await claimPairing(pairing.id)).status).toBe('claimed');
+      expect(await claimPairing(pairing.id)).toEqual({ status: 'already_claimed' });
+    });
+
+    it('cannot approve a code twice', async () => {
+      const pairing = await startPairing({});
+      expect(await approvePairing(pairing.code, {})).not.toBeNull();
+      expect(await approvePairing(pairing.code, {})).toBeNull();
+    });
+
+    it('returns not_found for unknown pairing IDs', async () => {
+      expect(await claimPairing('00000000-0000-4000-8000-000000000000')).toEqual({
+        status: 'not_found',
+      });
+    });
+
+    it('rejects unknown codes', async () => {
+      expect(await approvePairing('ZZZZ-ZZZZ', {})).toBeNull();
+    });
+  });
+
+  describe('expiry', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('cannot approve an expired code', async () => {
+      const pairing = await startPairing({});
+      vi.advanceTimersByTime(PAIRING_TTL_MS + 1);
+
+      expect(await approvePairing(pairing.code, {})).toBeNull();
+      expect(await claimPairing(pairing.id)).toEqual({ status: 'expired' });
+    });
+
+    it('cannot claim an approved code after it expires', async () => {
+      const pairing = await startPairing({});
+      await approvePairing(pairing.code, {});
+      vi.advanceTimersByTime(PAIRING_TTL_MS + 1);
+
+      expect(await claimPairing(pairing.id)).toEqual({ status: 'expired' });
+    });
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Device Pairing
+ *
+ * Exchanges a short human-readable code for a per-device token, so
+ * operators never have to copy raw tokens into the desktop app.
+ *
+ * Flow:
+ * 1. Desktop calls pair/start and shows the code to the user
+ * 2. An admin approves the code
+ * 3. Desktop polls pair/claim with its pairing ID and receives a fresh token
+ *
+ * Codes expire after PAIRING_TTL_MS and can only be claimed once.
+ * Uses Supabase or in-memory store based on configuration.
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getSupabaseClient, isSupabaseConfigured } from './supabase';
+import { issueDeviceToken } from './device-tokens';
+import type { DevicePairing, DeviceScope, DeviceToken } from './types';
+
+export const PAIRING_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+// Unambiguous characters only (no 0/O, 1/I/L)
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+// --- In-memory fallback store (for local dev without Supabase) ---
+
+const inMemoryPairings = new Map<string, DevicePairing>();
+
+/**
+ * Generate a pairing code like "K7QX-M2PF"
+ */
+export function generatePairingCode(): string {
+  let code = '';
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+  }
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+/**
+ * Normalize user-typed codes ("k7qx m2pf" -> "K7QX-M2PF")
+ */
+export function normalizePairingCode(code: string): string {
+  const compact = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return compact.length === CODE_LENGTH ? `${compact.slice(0, 4)}-${compact.slice(4)}` : compact;
+}
+
+function isExpired(pairing: DevicePairing): boolean {
+  return new Date(pairing.expires_at).getTime() <= Date.now();
+}
+
+/**
+ * Start a new pairing
+ */
+export async function startPairing(params: { label?: string }): Promise<DevicePairing> {
+  const now = Date.now();
+  const pairing: DevicePairing = {
+    id: uuidv4(),
+    code: generatePairingCode(),
+    label: params.label || null,
+    status: 'pending',
+    profile_id: null,
+    scopes: null,
+    device_id: null,
+    expires_at: new Date(now + PAIRING_TTL_MS).toISOString(),
+    created_at: new Date(now).toISOString(),
+    approved_at: null,
+    claimed_at: null,
+  };
+
+  if (isSupabaseConfigured()) {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('device_pairings')
+      .insert(pairing)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[pairing] Failed to start pairing:', error);
+      throw new Error(`Failed to start pairing: ${error.message}`);
+    }
+
+    return data as DevicePairing;
+  }
+
+  // In-memory fallback
+  inMemoryPairings.set(pairing.id, pairing);
+  return pairing;
+}
+
+/**
+ * Approve a pending pairing by its code.
+ * Returns null if there is no pending, unexpired pairing with that code.
+ */
+export async function approvePairing(
+  code: string,
+  params: { label?: string; profileId?: string; scopes?: DeviceScope[] }
+): Promise<DevicePairing | null> {
+  const normalized = normalizePairingCode(code);
+  const now = new Date().toISOString();
+
+  if (isSupabaseConfigured()) {
+    const supabase = getSupabaseClient();
+    const { data: pending, error: findError } = await supabase
+      .from('device_pairings')
+      .select('*')
+      .eq('code', normalized)
+      .eq('status', 'pending')
+      .gt('expires_at', now)
+      .limit(1)
+      .maybeSingle();
+
+    if (findError) {
+      console.error('[pairing] Failed to find pairing:', findError);
+      throw new Error(`Failed to find pairing: ${findError.message}`);
+    }
+
+    if (!pending) {
+      return null;
+    }
+
+    // Conditional on status so a concurrent approval can't win twice
+    const { data, error } = await supabase
+      .from('device_pairings')
+      .update({
+        status: 'approved',
+        label: params.label || pending.label,
+        profile_id: params.profileId || null,
+        scopes: params.scopes || null,
+        approved_at: now,
+      })
+      .eq('id', pending.id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('[pairing] Failed to approve pairing:', error);
+      throw new Error(`Failed to approve pairing: ${error.message}`);
+    }
+
+    return (data as DevicePairing) || null;
+  }
+
+  // In-memory fallback
+  for (const pairing of inMemoryPairings.values()) {
+    if (pairing.code === normalized && pairing.status === 'pending' && !isExpired(pairing)) {
+      const approved: DevicePairing = {
+        ...pairing,
+        status: 'approved',
+        label: params.label || pairing.label,
+        profile_id: params.profileId || null,
+        scopes: params.scopes || null,
+        approved_at: now,
+      };
+      inMemoryPairings.set(pairing.id, approved);
+      return approved;
+    }
+  }
+  return null;
+}
+
+/**
+ * Result of polling pair/claim
+ */
+export type PairingClaimResult =
+  | { status: 'not_found' }
+  | { status: 'expired' }
+  | { status: 'already_claimed' }
+  | { status: 'pending'; expiresAt: string }
+  | { status: 'claimed'; token: string; device: DeviceToken };
+
+/**
+ * Claim an approved pairing, minting a new device token.
+ * The pairing is marked claimed before the token is issued, so a code can
+ * never produce two tokens.
+ */
+export async function claimPairing(pairingId: string): Promise<PairingClaimResult> {
+  const pairing = await getPairing(pairingId);
+
+  if (!pairing) {
+    return { status: 'not_found' };
+  }
+  if (pairing.status === 'claimed') {
+    return { status: 'already_claimed' };
+  }
+  if (isExpired(pairing)) {
+    return { status: 'expired' };
+  }
+  if (pairing.status === 'pending') {
+    return { status: 'pending', expiresAt: pairing.expires_at };
+  }
+
+  const claimedAt = new Date().toISOString();
+
+  if (isSupabaseConfigured()) {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('device_pairings')
+      .update({ status: 'claimed', claimed_at: claimedAt })
+      .eq('id', pairingId)
+      .eq('status', 'approved')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('[pairing] Failed to claim pairing:', error);
+      throw new Error(`Failed to claim pairing: ${error.message}`);
+    }
+
+    if (!data) {
+      return { status: 'already_claimed' };
+    }
+  } else {
+    inMemoryPairings.set(pairingId, { ...pairing, status: 'claimed', claimed_at: claimedAt });
+  }
+
+  const { token, device } = await issueDeviceToken({
+    label: pairing.label || `Paired device ${pairing.code}`,
+    profileId: pairing.profile_id || undefined,
+    scopes: pairing.scopes || undefined,
+  });
+
+  await setPairingDevice(pairingId, device.id);
+
+  return { status: 'claimed', token, device };
+}
+
+/**
+ * Get a pairing by its polling ID
+ */
+async function getPairing(pairingId: string): Promise<DevicePairing | null> {
+  if (isSupabaseConfigured()) {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('device_pairings')
+      .select('*')
+      .eq('id', pairingId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[pairing] Failed to get pairing:', error);
+      throw new Error(`Failed to get pairing: ${error.message}`);
+    }
+
+    return (data as DevicePairing) || null;
+  }
+
+  // In-memory fallback
+  return inMemoryPairings.get(pairingId) || null;
+}
+
+/**
+ * Record which device token a pairing produced
+ */
+async function setPairingDevice(pairingId: string, deviceId: string): Promise<void> {
+  if (isSupabaseConfigured()) {
+    const supabase = getSupabaseClient();
+    const { error } = await supabase
+      .from('device_pairings')
+      .update({ device_id: deviceId })
+      .eq('id', pairingId);
+
+    if (error) {
+      console.error('[pairing] Failed to record paired device:', error);
+    }
+    return;
+  }
+
+  // In-memory fallback
+  const pairing = inMemoryPairings.get(pairingId);
+  if (pairing) {
+    inMemoryPairings.set(pairingId, { ...pairing, device_id: deviceId });
+  }
+}
+
+/**
+ * Clear in-memory store for testing
+ */
+export function clearPairingsForTesting(): void {
+  inMemoryPairings.clear();
+}
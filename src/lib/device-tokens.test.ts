@@ -0,0 +1,114 @@
+/**
+ * Device Token Registry Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  issueDeviceToken,
+  listDeviceTokens,
+  findDeviceTokenByHash,
+  hasActiveDeviceTokens,
+  revokeDeviceToken,
+  touchDeviceToken,
+  hashDeviceToken,
+  toDeviceTokenSummary,
+  clearDeviceTokensForTesting,
+} from './device-tokens';
+import { deriveSigningKey } from './signing';
+
+// Mock Supabase to use in-memory store
+vi.mock('./supabase', () => ({
+  isSupabaseConfigured: () => false,
+  getSupabaseClient: () => null,
+}));
+
+describe('device-tokens (in-memory)', () => {
+  beforeEach(() => {
+    clearDeviceTokensForTesting();
+  });
+
+  describe('issueDeviceToken', () => {
+    it('returns a 64-char hex token and stores only its hash', async () => {
+      const { token, device } = await issueDeviceToken({ label: 'Studio Mac' });
+
+      expect(token).toMatch(/^[a-f0-9]{64}$/);
+      expect(device.token_hash).toBe(hashDeviceToken(token));
+      expect(device.token_hash).not.toBe(token);
+      expect(device.signing_key).toBe(deriveSigningKey(token));
+      expect(device.label).toBe('Studio Mac');
+      expect(device.revoked).toBe(false);
+      expect(device.last_used_at).toBeNull();
+    });
+
+    it('records the owner profile', async () => {
+      const { device } = await issueDeviceToken({ label: 'Laptop', profileId: 'user-123' });
+      expect(device.profile_id).toBe('user-123');
+    });
+
+    it('issues unique tokens', async () => {
+      const a = await issueDeviceToken({ label: 'A' });
+      const b = await issueDeviceToken({ label: 'B' });
+      expect(a.token).not.toBe(b.token);
+      expect(a.device.id).not.toBe(b.device.id);
+    });
+  });
+
+  describe('findDeviceTokenByHash', () => {
+    it('finds a device by token hash', async () => {
+      const { token, device } = await issueDeviceToken({ label: 'Laptop' });
+      const found = await findDeviceTokenByHash(hashDeviceToken(token));
+      expect(found?.id).toBe(device.id);
+    });
+
+    it('returns null for unknown tokens', async () => {
+      await issueDeviceToken({ label: 'Laptop' });
+      expect(await findDeviceTokenByHash(hashDeviceToken('unknown'))).toBeNull();
+    });
+  });
+
+  describe('listDeviceTokens', () => {
+    it('lists all issued devices', async () => {
+      await issueDeviceToken({ label: 'A' });
+      await issueDeviceToken({ label: 'B' });
+
+      const devices = await listDeviceTokens();
+      expect(devices.map((d) => d.label).sort()).toEqual(['A', 'B']);
+    });
+  });
+
+  describe('revokeDeviceToken', () => {
+    it('marks the device as revoked', async () => {
+      const { device } = await issueDeviceToken({ label: 'Lost laptop' });
+
+      const revoked = await revokeDeviceToken(device.id);
+      expect(revoked?.revoked).toBe(true);
+      expect(revoked?.revoked_at).toBeDefined();
+      expect(await hasActiveDeviceTokens()).toBe(false);
+    });
+
+    it('returns null for non-existent device', async () => {
+      expect(await revokeDeviceToken('non-existent-id')).toBeNull();
+    });
+  });
+
+  describe('touchDeviceToken', () => {
+    it('updates last_used_at', async () => {
+      const { token, device } = await issueDeviceToken({ label: 'Laptop' });
+
+      await touchDeviceToken(device.id);
+
+      const found = await findDeviceTokenByHash(hashDeviceToken(token));
+      expect(found?.last_used_at).not.toBeNull();
+    });
+  });
+
+  describe('toDeviceTokenSummary', () => {
+    it('omits the token hash and signing key', async () => {
+      const { device } = await issueDeviceToken({ label: 'Laptop' });
+      const summary = toDeviceTokenSummary(device);
+      expect(summary).not.toHaveProperty('token_hash');
+      expect(summary).not.toHaveProperty('signing_key');
+      expect(summary.id).toBe(device.id);
+    });
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Device Token Registry
+ *
+ * Per-device tokens, stored as SHA256 hashes so that each desktop install
+ * can be issued and revoked independently. The HMAC key for signed requests
+ * is derived from the token at issue time and stored alongside it.
+ * Uses Supabase or in-memory store based on configuration.
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getSupabaseClient, isSupabaseConfigured } from './supabase';
+import { deriveSigningKey } from './signing';
+import { DEFAULT_DEVICE_SCOPES, isUuid } from './types';
+import type { DeviceScope, DeviceToken } from './types';
+
+// --- In-memory fallback store (for local dev without Supabase) ---
+
+const inMemoryDeviceTokens = new Map<string, DeviceToken>();
+
+/**
+ * Hash a raw device token for storage and lookup
+ */
+export function hashDeviceToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Generate a new random device token (64 hex chars)
+ */
+export function generateDeviceToken(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Public view of a device token (never includes the hash or signing key)
+ */
+export function toDeviceTokenSummary(
+  device: DeviceToken
+): Omit<DeviceToken, 'token_hash' | 'signing_key'> {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { token_hash, signing_key, ...summary } = device;
+  return summary;
+}
+
+/**
+ * Issue a new device token.
+ * Returns the raw token once; only its hash is stored.
+ */
+export async function issueDeviceToken(params: {
+  label: string;
+  profileId?: string;
+  scopes?: DeviceScope[];
+}): Promise<{ token: string; device: DeviceToken }> {
+  const token = generateDeviceToken();
+  const device: DeviceToken = {
+    id: uuidv4(),
+    label: params.label,
+    profile_id: params.profileId || null,
+    token_hash: hashDeviceToken(token),
+    signing_key: deriveSigningKey(token),
+    scopes: params.scopes || DEFAULT_DEVICE_SCOPES,
+    revoked: false,
+    created_at: new Date().toISOString(),
+    last_used_at: null,
+    revoked_at: null,
+  };
+
+  if (isSupabaseConfigured()) {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase.from('device_tokens').insert(device).select().single();
+
+    if (error) {
+      console.error('[device-tokens] Failed to issue device token:', error);
+      throw new Error(`Failed to issue device token: ${error.message}`);
+    }
+
+    return { token, device: data as DeviceToken };
+  }
+
+  // In-memory fallback
+  inMemoryDeviceTokens.set(device.id, device);
+  return { token, device };
+}
+
+/**
+ * List all device tokens, newest first
+ */
+export async function listDeviceTokens(): Promise<DeviceToken[]> {
+  if (isSupabaseConfigured()) {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('device_tokens')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('[device-tokens] Failed to list device tokens:', error);
+      throw new Error(`Failed to list device tokens: ${error.message}`);
+    }
+
+    return (data || []) as DeviceToken[];
+  }
+
+  // In-memory fallback
+  return Array.from(inMemoryDeviceTokens.values()).sort((a, b) =>
+    b.created_at.localeCompare(a.created_at)
+  );
+}
+
+/**
+ * Find a device token by the hash of the raw token
+ */
+export async function findDeviceTokenByHash(tokenHash: string): Promise<DeviceToken | null> {
+  if (isSupabaseConfigured()) {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('device_tokens')
+      .select('*')
+      .eq('token_hash', tokenHash)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[device-tokens] Failed to look up device token:', error);
+      throw new Error(`Failed to look up device token: ${error.message}`);
+    }
+
+    return (data as DeviceToken) || null;
+  }
+
+  // In-memory fallback
+  for (const device of inMemoryDeviceTokens.values()) {
+    if (device.token_hash === tokenHash) {
+      return device;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get a device token by ID
+ */
+export async function getDeviceTokenById(deviceId: string): Promise<DeviceToken | null> {
+  if (!isUuid(deviceId)) {
+    return null;
+  }
+
+  if (isSupabaseConfigured()) {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('device_tokens')
+      .select('*')
+      .eq('id', deviceId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[device-tokens] Failed to get device token:', error);
+      throw new Error(`Failed to get device token: ${error.message}`);
+    }
+
+    return (data as DeviceToken) || null;
+  }
+
+  // In-memory fallback
+  return inMemoryDeviceTokens.get(deviceId) || null;
+}
+
+/**
+ * Check whether any non-revoked device tokens exist
+ */
+export async function hasActiveDeviceTokens(): Promise<boolean> {
+  if (isSupabaseConfigured()) {
+    const supabase = getSupabaseClient();
+    const { count, error } = await supabase
+      .from('device_tokens')
+      .select('id', { count: 'exact', head: true })
+      .eq('revoked', false);
+
+    if (error) {
+      console.error('[device-tokens] Failed to count device tokens:', error);
+      throw new Error(`Failed to count device tokens: ${error.message}`);
+    }
+
+    return (count || 0) > 0;
+  }
+
+  // In-memory fallback
+  for (const device of inMemoryDeviceTokens.values()) {
+    if (!device.revoked) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Revoke a device token. Returns null if the device doesn't exist.
+ */
+export async function revokeDeviceToken(deviceId: string): Promise<DeviceToken | null> {
+  if (!isUuid(deviceId)) {
+    return null;
+  }
+
+  const updates = {
+    revoked: true,
+    revoked_at: new Date().toISOString(),
+  };
+
+  if (isSupabaseConfigured()) {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('device_tokens')
+      .update(updates)
+      .eq('id', deviceId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('[device-tokens] Failed to revoke device token:', error);
+      throw new Error(`Failed to revoke device token: ${error.message}`);
+    }
+
+    return (data as DeviceToken) || null;
+  }
+
+  // In-memory fallback
+  const device = inMemoryDeviceTokens.get(deviceId);
+  if (!device) {
+    return null;
+  }
+
+  const revoked = { ...device, ...updates };
+  inMemoryDeviceTokens.set(deviceId, revoked);
+  return revoked;
+}
+
+/**
+ * Record that a device token was just used
+ */
+export async function touchDeviceToken(deviceId: string): Promise<void> {
+  const lastUsedAt = new Date().toISOString();
+
+  if (isSupabaseConfigured()) {
+    const supabase = getSupabaseClient();
+    const { error } = await supabase
+      .from('device_tokens')
+      .update({ last_used_at: lastUsedAt })
+      .eq('id', deviceId);
+
+    if (error) {
+      console.error('[device-tokens] Failed to update last_used_at:', error);
+    }
+    return;
+  }
+
+  // In-memory fallback
+  const device = inMemoryDeviceTokens.get(deviceId);
+  if (device) {
+    inMemoryDeviceTokens.set(deviceId, { ...device, last_used_at: lastUsedAt });
+  }
+}
+
+/**
+ * Clear in-memory store for testing
+ */
+export function clearDeviceTokensForTesting(): void {
+  inMemoryDeviceTokens.clear();
+}
@@ -0,0 +1,119 @@
+/**
+ * Framework Detection Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BundleValidationError } from './bundle';
+import { detectFramework } from './frameworks';
+import type { DeploymentFile } from './vercel';
+
+function file(path: string, content: string): DeploymentFile {
+  return { file: path, data: Buffer.from(content).toString('base64'), encoding: 'base64' };
+}
+
+function packageJson(pkg: Record<string, unknown>): DeploymentFile {
+  return file('package.json', JSON.stringify(pkg));
+}
+
+function detectError(files: DeploymentFile[]): BundleValidationError {
+  try {
+    detectFramework(files);
+  } catch (error) {
+    expect(error).toBeInstanceOf(BundleValidationError);
+    return error as BundleValidationError;
+  }
+  throw new Error('Expected detectFramework to throw');
+}
+
+describe('frameworks', () => {
+  describe('detectFramework', () => {
+    it.each([
+      ['next', 'nextjs', '.next'],
+      ['@sveltejs/kit', 'sveltekit-1', null],
+      ['astro', 'astro', 'dist'],
+      ['react-scripts', 'create-react-app', 'build'],
+      ['vite', 'vite', 'dist'],
+    ])('detects %s', (dependency, framework, outputDirectory) => {
+      const settings = detectFramework([packageJson({ dependencies: { [dependency]: '*' } })]);
+
+      expect(settings.framework).toBe(framework);
+      expect(settings.outputDirectory).toBe(outputDirectory);
+    });
+
+    it('prefers frameworks built on Vite over plain Vite', () => {
+      const svelteKit = detectFramework([
+        packageJson({ devDependencies: { vite: '^5.0.0', '@sveltejs/kit': '^2.0.0' } }),
+      ]);
+      const astro = detectFramework([
+        packageJson({ dependencies: { astro: '^4.0.0' }, devDependencies: { vite: '^5.0.0' } }),
+      ]);
+
+      expect(svelteKit.framework).toBe('sveltekit-1');
+      expect(astro.framework).toBe('astro');
+    });
+
+    it('picks commands for the package manager of the lockfile', () => {
+      const pkg = packageJson({
+        devDependencies: { vite: '^5.0.0' },
+        scripts: { build: 'tsc && vite build' },
+      });
+
+      expect(detectFramework([pkg, file('pnpm-lock.yaml', '')])).toMatchObject({
+        installCommand: 'pnpm install',
+        buildCommand: 'pnpm run build',
+      });
+      expect(detectFramework([pkg, file('yarn.lock', '')])).toMatchObject({
+        installCommand: 'yarn install',
+        buildCommand: 'yarn run build',
+      });
+      expect(detectFramework([pkg, file('bun.lockb', '')])).toMatchObject({
+        installCommand: 'bun install',
+        buildCommand: 'bun run build',
+      });
+      expect(detectFramework([pkg, file('package-lock.json', '{}')])).toMatchObject({
+        installCommand: 'npm ci',
+        buildCommand: 'npm run build',
+      });
+      expect(detectFramework([pkg])).toMatchObject({
+        installCommand: 'npm install',
+        buildCommand: 'npm run build',
+      });
+    });
+
+    it("uses the framework's build command without a build script", () => {
+      const settings = detectFramework([
+        packageJson({ dependencies: { next: '14.0.0' }, scripts: { dev: 'next dev' } }),
+      ]);
+
+      expect(settings.buildCommand).toBe('next build');
+    });
+
+    it('ignores lockfiles outside the bundle root', () => {
+      const settings = detectFramework([
+        packageJson({ devDependencies: { vite: '^5.0.0' } }),
+        file('packages/lib/yarn.lock', ''),
+      ]);
+
+      expect(settings.installCommand).toBe('npm install');
+    });
+
+    it('rejects bundles without a package.json', () => {
+      const error = detectError([file('index.html', '<html></html>')]);
+
+      expect(error.code).toBe('unsupported_framework');
+      expect(error.path).toBe('package.json');
+    });
+
+    it('rejects invalid package.json files', () => {
+      expect(detectError([file('package.json', '{ nope')]).message).toContain('not valid JSON');
+      expect(detectError([file('package.json', '[]')]).message).toContain('JSON object');
+    });
+
+    it('rejects projects without a supported framework', () => {
+      const error = detectError([packageJson({ dependencies: { express: '^4.0.0' } })]);
+
+      expect(error.code).toBe('unsupported_framework');
+      expect(error.message).toContain('Next.js, SvelteKit, Astro, Create React App, Vite');
+    });
+  });
+});
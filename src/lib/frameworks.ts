@@ -0,0 +1,153 @@
+/**
+ * Framework Detection
+ *
+ * Source-mode bundles are built by Vercel instead of deployed as-is. The
+ * framework comes from package.json dependencies, and the package manager
+ * from whichever lockfile the bundle has, e.g.:
+ *   package.json with "vite" + pnpm-lock.yaml
+ *     -> framework "vite", pnpm install, pnpm run build, output "dist"
+ */
+
+import { BundleValidationError } from './bundle';
+import { readFileText } from './manifest';
+import type { DeploymentFile, VercelProjectSettings } from './vercel';
+
+export const PACKAGE_JSON_FILENAME = 'package.json';
+
+interface FrameworkPreset {
+  /** Vercel framework slug */
+  framework: string;
+  name: string;
+  /** Dependency that identifies the framework */
+  dependency: string;
+  /** Used when package.json has no build script */
+  buildCommand: string;
+  /** null leaves it to Vercel's preset */
+  outputDirectory: string | null;
+}
+
+// In priority order: SvelteKit and Astro projects also depend on Vite
+const FRAMEWORK_PRESETS: FrameworkPreset[] = [
+  {
+    framework: 'nextjs',
+    name: 'Next.js',
+    dependency: 'next',
+    buildCommand: 'next build',
+    outputDirectory: '.next',
+  },
+  {
+    framework: 'sveltekit-1',
+    name: 'SvelteKit',
+    dependency: '@sveltejs/kit',
+    buildCommand: 'vite build',
+    // Written by the Vercel adapter
+    outputDirectory: null,
+  },
+  {
+    framework: 'astro',
+    name: 'Astro',
+    dependency: 'astro',
+    buildCommand: 'astro build',
+    outputDirectory: 'dist',
+  },
+  {
+    framework: 'create-react-app',
+    name: 'Create React App',
+    dependency: 'react-scripts',
+    buildCommand: 'react-scripts build',
+    outputDirectory: 'build',
+  },
+  {
+    framework: 'vite',
+    name: 'Vite',
+    dependency: 'vite',
+    buildCommand: 'vite build',
+    outputDirectory: 'dist',
+  },
+];
+
+export const SUPPORTED_FRAMEWORKS = FRAMEWORK_PRESETS.map((preset) => preset.name);
+
+interface PackageManager {
+  lockfiles: string[];
+  installCommand: string;
+  /** Prefix for running a package.json script */
+  runCommand: string;
+}
+
+const PACKAGE_MANAGERS: PackageManager[] = [
+  { lockfiles: ['pnpm-lock.yaml'], installCommand: 'pnpm install', runCommand: 'pnpm run' },
+  { lockfiles: ['yarn.lock'], installCommand: 'yarn install', runCommand: 'yarn run' },
+  { lockfiles: ['bun.lockb', 'bun.lock'], installCommand: 'bun install', runCommand: 'bun run' },
+  { lockfiles: ['package-lock.json'], installCommand: 'npm ci', runCommand: 'npm run' },
+];
+
+const DEFAULT_PACKAGE_MANAGER: PackageManager = {
+  lockfiles: [],
+  installCommand: 'npm install',
+  runCommand: 'npm run',
+};
+
+interface PackageJson {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  scripts?: Record<string, string>;
+}
+
+function invalidPackageJson(message: string): BundleValidationError {
+  return new BundleValidationError('unsupported_framework', message, PACKAGE_JSON_FILENAME);
+}
+
+/**
+ * Read the package.json at the bundle root
+ */
+function readPackageJson(files: DeploymentFile[]): PackageJson {
+  const file = files.find((f) => f.file === PACKAGE_JSON_FILENAME);
+  if (!file) {
+    throw invalidPackageJson(`Source bundles need a ${PACKAGE_JSON_FILENAME} at the root`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileText(file));
+  } catch (error) {
+    throw invalidPackageJson(
+      `${PACKAGE_JSON_FILENAME} is not valid JSON: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    throw invalidPackageJson(`${PACKAGE_JSON_FILENAME} must be a JSON object`);
+  }
+  return json as PackageJson;
+}
+
+/**
+ * Detect how to build a source bundle: the framework from package.json,
+ * and install and build commands for the package manager its lockfile
+ * belongs to. Throws BundleValidationError if no supported framework is found.
+ */
+export function detectFramework(files: DeploymentFile[]): VercelProjectSettings {
+  const packageJson = readPackageJson(files);
+  const dependencies = { ...packageJson.devDependencies, ...packageJson.dependencies };
+
+  const preset = FRAMEWORK_PRESETS.find((p) => p.dependency in dependencies);
+  if (!preset) {
+    throw invalidPackageJson(
+      `No supported framework in ${PACKAGE_JSON_FILENAME} (expected one of ${SUPPORTED_FRAMEWORKS.join(', ')})`
+    );
+  }
+
+  const paths = new Set(files.map((f) => f.file));
+  const packageManager =
+    PACKAGE_MANAGERS.find((pm) => pm.lockfiles.some((lockfile) => paths.has(lockfile))) ||
+    DEFAULT_PACKAGE_MANAGER;
+
+  return {
+    framework: preset.framework,
+    buildCommand: packageJson.scripts?.build
+      ? `${packageManager.runCommand} build`
+      : preset.buildCommand,
+    installCommand: packageManager.installCommand,
+    outputDirectory: preset.outputDirectory,
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Bundle Integrity Tests
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import crypto from 'crypto';
+import { checkBundleIntegrity, getBundleHashPolicy, validateDeclaredBundleHash } from './integrity';
+
+const HASH = crypto.createHash('sha256').update('bundle').digest('hex');
+const OTHER_HASH = crypto.createHash('sha256').update('other').digest('hex');
+
+const job = { id: 'job-1', bundle_hash: HASH, bundle_size: 6 };
+
+describe('integrity', () => {
+  afterEach(() => {
+    delete process.env.ABBA_BUNDLE_HASH_POLICY;
+  });
+
+  describe('getBundleHashPolicy', () => {
+    it('warns by default', () => {
+      expect(getBundleHashPolicy()).toBe('warn');
+    });
+
+    it('reads the policy from the environment', () => {
+      process.env.ABBA_BUNDLE_HASH_POLICY = 'Enforce';
+      expect(getBundleHashPolicy()).toBe('enforce');
+
+      process.env.ABBA_BUNDLE_HASH_POLICY = 'off';
+      expect(getBundleHashPolicy()).toBe('off');
+    });
+
+    it('falls back to warn for unknown values', () => {
+      process.env.ABBA_BUNDLE_HASH_POLICY = 'strict';
+      expect(getBundleHashPolicy()).toBe('warn');
+    });
+  });
+
+  describe('validateDeclaredBundleHash', () => {
+    it('accepts SHA256 hex digests in any case', () => {
+      expect(validateDeclaredBundleHash(HASH, 'enforce')).toBeNull();
+      expect(validateDeclaredBundleHash(HASH.toUpperCase(), 'enforce')).toBeNull();
+    });
+
+    it('rejects other hashes only when enforcing', () => {
+      for (const hash of ['abc123', `${HASH}0`, 'z'.repeat(64)]) {
+        expect(validateDeclaredBundleHash(hash, 'enforce')).toContain('64 hex characters');
+        expect(validateDeclaredBundleHash(hash, 'warn')).toBeNull();
+        expect(validateDeclaredBundleHash(hash, 'off')).toBeNull();
+      }
+    });
+  });
+
+  describe('checkBundleIntegrity', () => {
+    it('passes uploads that match the declaration', () => {
+      expect(checkBundleIntegrity(job, { hash: HASH, size: 6 }, 'enforce')).toBeNull();
+      expect(
+        checkBundleIntegrity(
+          { ...job, bundle_hash: HASH.toUpperCase() },
+          { hash: HASH, size: 6 },
+          'enforce'
+        )
+      ).toBeNull();
+    });
+
+    it('reports hash mismatches when enforcing', () => {
+      expect(checkBundleIntegrity(job, { hash: OTHER_HASH, size: 6 }, 'enforce')).toEqual({
+        error: 'BundleHashMismatch',
+        message: `Bundle hash ${OTHER_HASH} does not match the declared ${HASH}`,
+      });
+    });
+
+    it('reports size mismatches when enforcing', () => {
+      expect(checkBundleIntegrity(job, { hash: OTHER_HASH, size: 7 }, 'enforce')).toEqual({
+        error: 'BundleSizeMismatch',
+        message: 'Bundle is 7 bytes, but 6 bytes were declared',
+      });
+    });
+
+    it('lets mismatches through when warning or off', () => {
+      expect(checkBundleIntegrity(job, { hash: OTHER_HASH, size: 7 }, 'warn')).toBeNull();
+      expect(checkBundleIntegrity(job, { hash: OTHER_HASH, size: 7 }, 'off')).toBeNull();
+    });
+
+    it('uses the configured policy by default', () => {
+      process.env.ABBA_BUNDLE_HASH_POLICY = 'enforce';
+
+      expect(checkBundleIntegrity(job, { hash: OTHER_HASH, size: 6 })?.error).toBe(
+        'BundleHashMismatch'
+      );
+    });
+  });
+});
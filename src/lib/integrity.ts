@@ -0,0 +1,97 @@
+/**
+ * Bundle Integrity
+ *
+ * Compares the bundle a client uploads with the bundleHash and bundleSize
+ * it declared at publish/start. ABBA_BUNDLE_HASH_POLICY decides how strict
+ * that is:
+ *   off            - no checks
+ *   warn (default) - log mismatches and deploy anyway
+ *   enforce        - require a SHA256 hex bundleHash at start, and fail the
+ *                    job when the upload doesn't match what was declared
+ */
+
+import type { PublishJob } from './types';
+
+export type BundleHashPolicy = 'off' | 'warn' | 'enforce';
+
+const BUNDLE_HASH_POLICIES: BundleHashPolicy[] = ['off', 'warn', 'enforce'];
+
+const SHA256_HEX_PATTERN = /^[0-9a-f]{64}$/i;
+
+/**
+ * An upload that doesn't match its declaration
+ */
+export interface BundleIntegrityViolation {
+  error: 'BundleHashMismatch' | 'BundleSizeMismatch';
+  message: string;
+}
+
+/**
+ * Get the configured bundle hash policy (defaults to warn)
+ */
+export function getBundleHashPolicy(): BundleHashPolicy {
+  const value = process.env.ABBA_BUNDLE_HASH_POLICY?.trim().toLowerCase();
+  if (!value) {
+    return 'warn';
+  }
+  if (!BUNDLE_HASH_POLICIES.includes(value as BundleHashPolicy)) {
+    console.warn(`[integrity] Unknown ABBA_BUNDLE_HASH_POLICY "${value}", using warn`);
+    return 'warn';
+  }
+  return value as BundleHashPolicy;
+}
+
+/**
+ * Check the bundleHash declared at publish/start.
+ * Returns an error message if the policy rejects it, null otherwise.
+ */
+export function validateDeclaredBundleHash(
+  bundleHash: string,
+  policy: BundleHashPolicy = getBundleHashPolicy()
+): string | null {
+  if (policy === 'off' || SHA256_HEX_PATTERN.test(bundleHash)) {
+    return null;
+  }
+
+  const message = 'bundleHash must be a SHA256 hex digest (64 hex characters)';
+  if (policy === 'enforce') {
+    return message;
+  }
+  console.warn(`[integrity] ${message}; uploads won't be verifiable`);
+  return null;
+}
+
+/**
+ * Compare an upload with the job's declared size and hash.
+ * Mismatches are logged unless the policy is off, and only returned
+ * (to fail the job) when it is enforce.
+ */
+export function checkBundleIntegrity(
+  job: Pick<PublishJob, 'id' | 'bundle_hash' | 'bundle_size'>,
+  upload: { hash: string; size: number },
+  policy: BundleHashPolicy = getBundleHashPolicy()
+): BundleIntegrityViolation | null {
+  if (policy === 'off') {
+    return null;
+  }
+
+  let violation: BundleIntegrityViolation | null = null;
+  if (upload.size !== job.bundle_size) {
+    violation = {
+      error: 'BundleSizeMismatch',
+      message: `Bundle is ${upload.size} bytes, but ${job.bundle_size} bytes were declared`,
+    };
+  } else if (upload.hash !== job.bundle_hash.toLowerCase()) {
+    violation = {
+      error: 'BundleHashMismatch',
+      message: `Bundle hash ${upload.hash} does not match the declared ${job.bundle_hash}`,
+    };
+  }
+
+  if (!violation) {
+    return null;
+  }
+
+  console.warn(`[integrity] ${violation.error} for job ${job.id}: ${violation.message}`);
+  return policy === 'enforce' ? violation : null;
+}
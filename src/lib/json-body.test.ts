@@ -0,0 +1,38 @@
+/**
+ * JSON Request Body Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { NextRequest } from 'next/server';
+import { readJsonBody } from './json-body';
+
+function createRequest(body?: string): NextRequest {
+  return new NextRequest('http://localhost/api/v1/devices/pair/claim', { method: 'POST', body });
+}
+
+describe('json-body', () => {
+  it('parses JSON bodies', async () => {
+    expect(await readJsonBody(createRequest('{"pairingId":"abc"}'))).toEqual({
+      ok: true,
+      body: { pairingId: 'abc' },
+    });
+  });
+
+  it('answers malformed JSON with a 400', async () => {
+    const result = await readJsonBody(createRequest('{"pairingId":'));
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.response.status).toBe(400);
+      expect(await result.response.json()).toEqual({
+        error: 'Invalid request',
+        message: 'Request body is not valid JSON',
+      });
+    }
+  });
+
+  it('requires a body unless it is optional', async () => {
+    expect((await readJsonBody(createRequest())).ok).toBe(false);
+    expect(await readJsonBody(createRequest(), { optional: true })).toEqual({ ok: true, body: {} });
+  });
+});
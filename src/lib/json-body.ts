@@ -0,0 +1,38 @@
+/**
+ * JSON Request Bodies
+ *
+ * Reads a route's JSON body, answering malformed JSON with a 400 instead
+ * of letting the parse error surface as a 500.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+export type ReadJsonBodyResult =
+  | { ok: true; body: unknown }
+  | { ok: false; response: NextResponse };
+
+/**
+ * Read and parse a request's JSON body. With optional, an empty body
+ * reads as {}.
+ */
+export async function readJsonBody(
+  request: NextRequest,
+  options: { optional?: boolean } = {}
+): Promise<ReadJsonBodyResult> {
+  const text = await request.text();
+  if (!text && options.optional) {
+    return { ok: true, body: {} };
+  }
+
+  try {
+    return { ok: true, body: JSON.parse(text) };
+  } catch {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: 'Invalid request', message: 'Request body is not valid JSON' },
+        { status: 400 }
+      ),
+    };
+  }
+}
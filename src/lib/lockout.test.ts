@@ -0,0 +1,98 @@
+/**
+ * Auth Lockout Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  checkLockout,
+  clearLockout,
+  getLockoutDuration,
+  listLockouts,
+  recordAuthFailure,
+  recordAuthSuccess,
+} from './lockout';
+import { resetRateLimitStoreForTesting } from './rate-limit-store';
+
+async function fail(keys: string[], times: number): Promise<void> {
+  for (let i = 0; i < times; i++) {
+    await recordAuthFailure(keys);
+  }
+}
+
+describe('lockout', () => {
+  beforeEach(() => {
+    resetRateLimitStoreForTesting();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('does not lock out below the threshold', async () => {
+    await fail(['ip:10.0.0.1'], 9);
+    expect(await checkLockout(['ip:10.0.0.1'])).toBeNull();
+  });
+
+  it('locks out after 10 failures', async () => {
+    await fail(['ip:10.0.0.1'], 9);
+    expect(await recordAuthFailure(['ip:10.0.0.1'])).toEqual({
+      key: 'ip:10.0.0.1',
+      retryAfter: 60,
+    });
+    expect(await checkLockout(['ip:10.0.0.1'])).toEqual({ key: 'ip:10.0.0.1', retryAfter: 60 });
+  });
+
+  it('locks out every source that failed', async () => {
+    await fail(['ip:10.0.0.1', 'key:env'], 10);
+    expect((await checkLockout(['ip:10.0.0.2', 'key:env']))?.key).toBe('key:env');
+  });
+
+  it('expires the lockout', async () => {
+    await fail(['ip:10.0.0.1'], 10);
+    vi.advanceTimersByTime(61 * 1000);
+    expect(await checkLockout(['ip:10.0.0.1'])).toBeNull();
+  });
+
+  it('doubles the lockout on each repeat', async () => {
+    await fail(['ip:10.0.0.1'], 10);
+    vi.advanceTimersByTime(61 * 1000);
+    await fail(['ip:10.0.0.1'], 10);
+    expect((await checkLockout(['ip:10.0.0.1']))?.retryAfter).toBe(120);
+  });
+
+  it('caps the backoff at one hour', () => {
+    expect(getLockoutDuration(0)).toBe(60 * 1000);
+    expect(getLockoutDuration(3)).toBe(8 * 60 * 1000);
+    expect(getLockoutDuration(20)).toBe(60 * 60 * 1000);
+  });
+
+  it('forgets failures outside the 15 minute window', async () => {
+    await fail(['ip:10.0.0.1'], 9);
+    vi.advanceTimersByTime(16 * 60 * 1000);
+    await fail(['ip:10.0.0.1'], 1);
+    expect(await checkLockout(['ip:10.0.0.1'])).toBeNull();
+  });
+
+  it('resets failures on success', async () => {
+    await fail(['key:env'], 9);
+    await recordAuthSuccess(['key:env']);
+    await fail(['key:env'], 1);
+    expect(await checkLockout(['key:env'])).toBeNull();
+  });
+
+  it('lists and clears lockouts', async () => {
+    await fail(['ip:10.0.0.1'], 10);
+    await fail(['ip:10.0.0.2'], 3);
+
+    const lockouts = await listLockouts();
+    expect(lockouts).toHaveLength(2);
+    expect(lockouts.find((l) => l.key === 'ip:10.0.0.1')?.lockedUntil).not.toBeNull();
+    expect(lockouts.find((l) => l.key === 'ip:10.0.0.2')?.failures).toBe(3);
+
+    expect(await clearLockout('ip:10.0.0.1')).toBe(1);
+    expect(await checkLockout(['ip:10.0.0.1'])).toBeNull();
+    expect(await clearLockout()).toBe(1);
+    expect(await listLockouts()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Auth Lockout
+ *
+ * Counts failed authentication attempts per source (client IP, or a
+ * signing key that exists). After too many failures the source is locked
+ * out, with the lockout doubling each time it is triggered again.
+ *
+ * Signing keys are the per-client sources. Bearer tokens aren't counted by
+ * a prefix of their hash: every guess hashes differently, so the count
+ * would never grow, and a guess can't be tied to a client.
+ * Kept in the rate limit store, so lockouts are shared across instances on
+ * the supabase backend. A store outage never blocks authentication.
+ */
+
+import { getRateLimitStore, type LockoutPolicy } from './rate-limit-store';
+
+// Configuration
+const LOCKOUT_POLICY: LockoutPolicy = {
+  threshold: 10, // failures per window before locking out
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  baseLockoutMs: 60 * 1000, // 1 minute, doubled per repeat lockout
+  maxLockoutMs: 60 * 60 * 1000, // 1 hour
+};
+
+/**
+ * Compute the lockout duration for the nth lockout (0-based)
+ */
+export function getLockoutDuration(lockouts: number): number {
+  return Math.min(LOCKOUT_POLICY.baseLockoutMs * 2 ** lockouts, LOCKOUT_POLICY.maxLockoutMs);
+}
+
+/**
+ * Check whether any of the given sources is locked out.
+ * Returns the longest remaining lockout in seconds, or null if none.
+ */
+export async function checkLockout(
+  keys: string[]
+): Promise<{ key: string; retryAfter: number } | null> {
+  let entries;
+  try {
+    entries = await getRateLimitStore().getLockouts(keys);
+  } catch (error) {
+    console.error('[lockout] Store unavailable, not checking lockouts:', error);
+    return null;
+  }
+
+  const now = Date.now();
+  let longest: { key: string; retryAfter: number } | null = null;
+
+  for (const entry of entries) {
+    if (entry.lockedUntil > now) {
+      const retryAfter = Math.ceil((entry.lockedUntil - now) / 1000);
+      if (!longest || retryAfter > longest.retryAfter) {
+        longest = { key: entry.key, retryAfter };
+      }
+    }
+  }
+
+  return longest;
+}
+
+/**
+ * Record a failed authentication attempt for each source.
+ * Returns the longest lockout the sources are now under, or null if none.
+ */
+export async function recordAuthFailure(
+  keys: string[]
+): Promise<{ key: string; retryAfter: number } | null> {
+  const now = Date.now();
+  let longest: { key: string; retryAfter: number } | null = null;
+
+  for (const key of keys) {
+    let entry;
+    try {
+      entry = await getRateLimitStore().recordAuthFailure(key, LOCKOUT_POLICY);
+    } catch (error) {
+      console.error('[lockout] Store unavailable, failure not recorded:', error);
+      continue;
+    }
+
+    if (entry.lockedUntil > now) {
+      const retryAfter = Math.ceil((entry.lockedUntil - now) / 1000);
+      // Failures start again from zero when a lockout is triggered
+      if (entry.failures === 0) {
+        console.warn(`[lockout] Locked out ${key} for ${retryAfter}s`);
+      }
+      if (!longest || retryAfter > longest.retryAfter) {
+        longest = { key, retryAfter };
+      }
+    }
+  }
+
+  return longest;
+}
+
+/**
+ * Forget failures for sources that just authenticated successfully
+ */
+export async function recordAuthSuccess(keys: string[]): Promise<void> {
+  for (const key of keys) {
+    try {
+      await getRateLimitStore().resetAuthFailures(key);
+    } catch (error) {
+      console.error('[lockout] Store unavailable, failures not reset:', error);
+    }
+  }
+}
+
+/**
+ * List sources that are currently locked out or accumulating failures
+ */
+export async function listLockouts(): Promise<
+  Array<{
+    key: string;
+    failures: number;
+    lockouts: number;
+    lockedUntil: string | null;
+  }>
+> {
+  const now = Date.now();
+  const entries = await getRateLimitStore().listLockouts();
+
+  return entries
+    .filter(
+      (entry) =>
+        entry.lockedUntil > now ||
+        (entry.failures > 0 && entry.windowStart + LOCKOUT_POLICY.windowMs >= now)
+    )
+    .map((entry) => ({
+      key: entry.key,
+      failures: entry.failures,
+      lockouts: entry.lockouts,
+      lockedUntil: entry.lockedUntil > now ? new Date(entry.lockedUntil).toISOString() : null,
+    }));
+}
+
+/**
+ * Clear the lockout for one source, or for all sources when no key is given.
+ * Returns the number of entries cleared.
+ */
+export async function clearLockout(key?: string): Promise<number> {
+  return getRateLimitStore().clearLockouts(key === undefined ? undefined : [key]);
+}
@@ -0,0 +1,212 @@
+/**
+ * Bundle Manifest Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BundleValidationError } from './bundle';
+import {
+  applyBundleManifest,
+  buildVercelConfig,
+  parseBundleManifest,
+  readFileText,
+} from './manifest';
+import { STATIC_PROJECT_SETTINGS, type DeploymentFile } from './vercel';
+
+function manifestFile(manifest: unknown): DeploymentFile {
+  return { file: 'abba.json', data: JSON.stringify(manifest) };
+}
+
+function findFile(files: DeploymentFile[], path: string): DeploymentFile | undefined {
+  return files.find((f) => f.file === path);
+}
+
+function readVercelJson(files: DeploymentFile[]): Record<string, unknown> {
+  const file = findFile(files, 'vercel.json');
+  expect(file).toBeDefined();
+  return JSON.parse(readFileText(file!));
+}
+
+function expectInvalidManifest(fn: () => unknown): BundleValidationError {
+  let error: unknown;
+  try {
+    fn();
+  } catch (e) {
+    error = e;
+  }
+  expect(error).toBeInstanceOf(BundleValidationError);
+  expect((error as BundleValidationError).code).toBe('invalid_manifest');
+  return error as BundleValidationError;
+}
+
+const INDEX: DeploymentFile = { file: 'index.html', data: '<h1>Home</h1>' };
+
+describe('parseBundleManifest', () => {
+  it('returns null without abba.json', () => {
+    expect(parseBundleManifest([INDEX])).toBeNull();
+  });
+
+  it('ignores abba.json outside the bundle root', () => {
+    expect(parseBundleManifest([{ file: 'sub/abba.json', data: '{}' }])).toBeNull();
+  });
+
+  it('parses a base64-encoded manifest', () => {
+    const data = Buffer.from(JSON.stringify({ cleanUrls: true })).toString('base64');
+    expect(parseBundleManifest([{ file: 'abba.json', data, encoding: 'base64' }])).toEqual({
+      cleanUrls: true,
+    });
+  });
+
+  it('rejects invalid JSON', () => {
+    const error = expectInvalidManifest(() =>
+      parseBundleManifest([{ file: 'abba.json', data: '{ cleanUrls: true' }])
+    );
+    expect(error.path).toBe('abba.json');
+  });
+
+  it('rejects unknown keys', () => {
+    const error = expectInvalidManifest(() =>
+      parseBundleManifest([manifestFile({ cleanUrl: true })])
+    );
+    expect(error.message).toContain('cleanUrl');
+  });
+
+  it('rejects route sources without a leading slash', () => {
+    expectInvalidManifest(() =>
+      parseBundleManifest([manifestFile({ redirects: [{ source: 'old', destination: '/new' }] })])
+    );
+  });
+
+  it('rejects invalid header names', () => {
+    expectInvalidManifest(() =>
+      parseBundleManifest([
+        manifestFile({ headers: [{ source: '/(.*)', headers: [{ key: 'X Bad', value: '1' }] }] }),
+      ])
+    );
+  });
+});
+
+describe('buildVercelConfig', () => {
+  it('only includes declared settings', () => {
+    expect(buildVercelConfig({})).toEqual({});
+    expect(buildVercelConfig({ trailingSlash: false, redirects: [] })).toEqual({
+      trailingSlash: false,
+    });
+  });
+});
+
+describe('applyBundleManifest', () => {
+  it('leaves bundles without a manifest unchanged', () => {
+    const files = [INDEX];
+    const result = applyBundleManifest(files);
+
+    expect(result.files).toBe(files);
+    expect(result.projectSettings).toEqual(STATIC_PROJECT_SETTINGS);
+    expect(result.manifest).toBeNull();
+  });
+
+  it('removes abba.json from the deployed files', () => {
+    const { files } = applyBundleManifest([INDEX, manifestFile({})]);
+
+    expect(findFile(files, 'abba.json')).toBeUndefined();
+    expect(findFile(files, 'vercel.json')).toBeUndefined();
+  });
+
+  it('generates vercel.json from routing settings', () => {
+    const manifest = {
+      cleanUrls: true,
+      trailingSlash: true,
+      redirects: [{ source: '/old', destination: '/new', permanent: true }],
+      rewrites: [{ source: '/app/:path*', destination: '/app/index.html' }],
+      headers: [{ source: '/(.*)', headers: [{ key: 'X-Frame-Options', value: 'DENY' }] }],
+    };
+
+    const { files } = applyBundleManifest([INDEX, manifestFile(manifest)]);
+
+    expect(readVercelJson(files)).toEqual(manifest);
+  });
+
+  it('merges over an existing vercel.json, with the manifest taking precedence', () => {
+    const existing = { cleanUrls: false, regions: ['iad1'] };
+
+    const { files } = applyBundleManifest([
+      INDEX,
+      { file: 'vercel.json', data: JSON.stringify(existing) },
+      manifestFile({ cleanUrls: true }),
+    ]);
+
+    expect(files.filter((f) => f.file === 'vercel.json')).toHaveLength(1);
+    expect(readVercelJson(files)).toEqual({ cleanUrls: true, regions: ['iad1'] });
+  });
+
+  it('sets the output directory in project settings', () => {
+    const result = applyBundleManifest([
+      { file: 'dist/index.html', data: '<h1>Home</h1>' },
+      manifestFile({ outputDirectory: './dist/' }),
+    ]);
+
+    expect(result.projectSettings).toEqual({ ...STATIC_PROJECT_SETTINGS, outputDirectory: 'dist' });
+  });
+
+  it('rejects an output directory with no files', () => {
+    const error = expectInvalidManifest(() =>
+      applyBundleManifest([INDEX, manifestFile({ outputDirectory: 'dist' })])
+    );
+    expect(error.message).toContain('dist');
+  });
+
+  it('rejects an output directory outside the bundle', () => {
+    expectInvalidManifest(() =>
+      applyBundleManifest([INDEX, manifestFile({ outputDirectory: '../dist' })])
+    );
+    expectInvalidManifest(() =>
+      applyBundleManifest([INDEX, manifestFile({ outputDirectory: '/dist' })])
+    );
+  });
+
+  it('copies the custom 404 page to 404.html in the output directory', () => {
+    const page: DeploymentFile = { file: 'dist/errors/missing.html', data: '<h1>Missing</h1>' };
+
+    const { files } = applyBundleManifest([
+      { file: 'dist/index.html', data: '<h1>Home</h1>' },
+      page,
+      manifestFile({ outputDirectory: 'dist', notFoundPage: 'errors/missing.html' }),
+    ]);
+
+    expect(findFile(files, 'dist/404.html')).toEqual({ ...page, file: 'dist/404.html' });
+    expect(findFile(files, 'dist/errors/missing.html')).toEqual(page);
+  });
+
+  it('replaces an existing 404.html with the custom page', () => {
+    const { files } = applyBundleManifest([
+      INDEX,
+      { file: '404.html', data: 'default' },
+      { file: 'missing.html', data: 'custom' },
+      manifestFile({ notFoundPage: 'missing.html' }),
+    ]);
+
+    expect(files.filter((f) => f.file === '404.html')).toEqual([
+      { file: '404.html', data: 'custom' },
+    ]);
+  });
+
+  it('rejects a custom 404 page that is not in the bundle', () => {
+    expectInvalidManifest(() =>
+      applyBundleManifest([INDEX, manifestFile({ notFoundPage: 'missing.html' })])
+    );
+  });
+
+  it('accepts an outputDirectory the build has yet to create for source bundles', () => {
+    const { projectSettings } = applyBundleManifest(
+      [INDEX, manifestFile({ outputDirectory: 'dist' })],
+      { source: true }
+    );
+
+    expect(projectSettings.outputDirectory).toBe('dist');
+  });
+
+  it('rejects a custom 404 page for source bundles', () => {
+    expectInvalidManifest(() =>
+      applyBundleManifest([INDEX, manifestFile({ notFoundPage: 'index.html' })], { source: true })
+    );
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Bundle Manifest
+ *
+ * Reads the optional abba.json at the bundle root and translates it into
+ * Vercel project settings plus a generated vercel.json. The manifest itself
+ * is not deployed.
+ *
+ * Example abba.json:
+ *   {
+ *     "outputDirectory": "dist",
+ *     "cleanUrls": true,
+ *     "redirects": [{ "source": "/old", "destination": "/new", "permanent": true }],
+ *     "notFoundPage": "errors/missing.html"
+ *   }
+ */
+
+import { BundleValidationError, normalizeBundlePath } from './bundle';
+import { BundleManifestSchema, type BundleManifest } from './types';
+import {
+  STATIC_PROJECT_SETTINGS,
+  readDeploymentFile,
+  type DeploymentFile,
+  type VercelProjectSettings,
+} from './vercel';
+
+export const MANIFEST_FILENAME = 'abba.json';
+export const VERCEL_CONFIG_FILENAME = 'vercel.json';
+
+/**
+ * Decode a deployment file's content as UTF-8 text
+ */
+export function readFileText(file: DeploymentFile): string {
+  if ('data' in file && file.encoding !== 'base64') {
+    return file.data;
+  }
+  return readDeploymentFile(file).toString('utf-8');
+}
+
+function invalidManifest(message: string): BundleValidationError {
+  return new BundleValidationError('invalid_manifest', message, MANIFEST_FILENAME);
+}
+
+/**
+ * Parse and validate abba.json, if the bundle has one
+ */
+export function parseBundleManifest(files: DeploymentFile[]): BundleManifest | null {
+  const file = files.find((f) => f.file === MANIFEST_FILENAME);
+  if (!file) {
+    return null;
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileText(file));
+  } catch (error) {
+    throw invalidManifest(
+      `${MANIFEST_FILENAME} is not valid JSON: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  const parseResult = BundleManifestSchema.safeParse(json);
+  if (!parseResult.success) {
+    const issues = parseResult.error.errors
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw invalidManifest(`Invalid ${MANIFEST_FILENAME}: ${issues}`);
+  }
+
+  return parseResult.data;
+}
+
+/**
+ * Build the vercel.json routing config a manifest declares
+ */
+export function buildVercelConfig(manifest: BundleManifest): Record<string, unknown> {
+  const config: Record<string, unknown> = {};
+
+  if (manifest.cleanUrls !== undefined) {
+    config.cleanUrls = manifest.cleanUrls;
+  }
+  if (manifest.trailingSlash !== undefined) {
+    config.trailingSlash = manifest.trailingSlash;
+  }
+  if (manifest.redirects?.length) {
+    config.redirects = manifest.redirects;
+  }
+  if (manifest.rewrites?.length) {
+    config.rewrites = manifest.rewrites;
+  }
+  if (manifest.headers?.length) {
+    config.headers = manifest.headers;
+  }
+
+  return config;
+}
+
+/**
+ * Apply the bundle's manifest: drop abba.json, write vercel.json, copy the
+ * custom 404 page to where Vercel serves it from, and derive project settings.
+ * Bundles without a manifest are returned unchanged with static settings.
+ * Source bundles are checked before they are built, so their outputDirectory
+ * can't be checked and notFoundPage isn't supported.
+ */
+export function applyBundleManifest(
+  files: DeploymentFile[],
+  options: { source?: boolean } = {}
+): {
+  files: DeploymentFile[];
+  projectSettings: VercelProjectSettings;
+  manifest: BundleManifest | null;
+} {
+  const manifest = parseBundleManifest(files);
+  if (!manifest) {
+    return { files, projectSettings: STATIC_PROJECT_SETTINGS, manifest: null };
+  }
+
+  const outputDirectory = manifest.outputDirectory
+    ? normalizeManifestPath(manifest.outputDirectory, 'outputDirectory')
+    : null;
+  const outputPrefix = outputDirectory ? `${outputDirectory}/` : '';
+
+  if (outputDirectory && !options.source && !files.some((f) => f.file.startsWith(outputPrefix))) {
+    throw invalidManifest(`outputDirectory "${outputDirectory}" has no files in the bundle`);
+  }
+
+  let deployFiles = files.filter((f) => f.file !== MANIFEST_FILENAME);
+
+  if (manifest.notFoundPage && options.source) {
+    throw invalidManifest('notFoundPage is not supported for source bundles');
+  }
+  if (manifest.notFoundPage) {
+    const pagePath = outputPrefix + normalizeManifestPath(manifest.notFoundPage, 'notFoundPage');
+    const page = deployFiles.find((f) => f.file === pagePath);
+    if (!page) {
+      throw invalidManifest(`notFoundPage "${manifest.notFoundPage}" is not in the bundle`);
+    }
+
+    // Vercel serves 404.html from the output root for missing paths
+    const notFoundPath = `${outputPrefix}404.html`;
+    if (pagePath !== notFoundPath) {
+      deployFiles = deployFiles.filter((f) => f.file !== notFoundPath);
+      deployFiles.push({ ...page, file: notFoundPath });
+    }
+  }
+
+  const vercelConfig = buildVercelConfig(manifest);
+  if (Object.keys(vercelConfig).length > 0) {
+    deployFiles = mergeVercelConfig(deployFiles, vercelConfig);
+  }
+
+  return {
+    files: deployFiles,
+    projectSettings: { ...STATIC_PROJECT_SETTINGS, outputDirectory },
+    manifest,
+  };
+}
+
+/**
+ * Normalize a path from the manifest, reporting problems as manifest errors
+ */
+function normalizeManifestPath(path: string, field: string): string {
+  try {
+    return normalizeBundlePath(path);
+  } catch (error) {
+    throw invalidManifest(
+      `Invalid ${field} "${path}": ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Read the bundle's vercel.json ({} if it has none or it isn't a JSON object)
+ */
+export function readVercelConfig(files: DeploymentFile[]): Record<string, unknown> {
+  const existingFile = files.find((f) => f.file === VERCEL_CONFIG_FILENAME);
+  if (!existingFile) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(readFileText(existingFile));
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed;
+    }
+  } catch {
+    console.warn(`[manifest] Replacing unparseable ${VERCEL_CONFIG_FILENAME} from bundle`);
+  }
+  return {};
+}
+
+/**
+ * Write the generated config to vercel.json, keeping any settings from a
+ * vercel.json already in the bundle that the generated config doesn't declare
+ */
+export function mergeVercelConfig(
+  files: DeploymentFile[],
+  generated: Record<string, unknown>
+): DeploymentFile[] {
+  const existing = readVercelConfig(files);
+
+  return [
+    ...files.filter((f) => f.file !== VERCEL_CONFIG_FILENAME),
+    {
+      file: VERCEL_CONFIG_FILENAME,
+      data: JSON.stringify({ ...existing, ...generated }, null, 2),
+    },
+  ];
+}
@@ -0,0 +1,304 @@
+/**
+ * Netlify Rules Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileText, VERCEL_CONFIG_FILENAME } from './manifest';
+import {
+  applyNetlifyRules,
+  convertNetlifyPath,
+  getServedPaths,
+  matchesNetlifyPath,
+  parseHeadersFile,
+  parseRedirectsFile,
+} from './netlify';
+import type { DeploymentFile } from './vercel';
+
+function file(path: string, data: string): DeploymentFile {
+  return { file: path, data };
+}
+
+function vercelConfig(files: DeploymentFile[]): Record<string, unknown> {
+  const config = files.find((f) => f.file === VERCEL_CONFIG_FILENAME);
+  return config ? JSON.parse(readFileText(config)) : {};
+}
+
+describe('netlify', () => {
+  describe('convertNetlifyPath', () => {
+    it('turns trailing splats into catch-all parameters', () => {
+      expect(convertNetlifyPath('/blog/*')).toBe('/blog/:splat*');
+      expect(convertNetlifyPath('/*')).toBe('/:splat*');
+    });
+
+    it('keeps placeholders and plain paths', () => {
+      expect(convertNetlifyPath('/news/:year/:slug')).toBe('/news/:year/:slug');
+      expect(convertNetlifyPath('/about')).toBe('/about');
+    });
+
+    it('rejects patterns Vercel cannot express', () => {
+      expect(convertNetlifyPath('/a/*/b')).toBeNull();
+      expect(convertNetlifyPath('/files*')).toBeNull();
+      expect(convertNetlifyPath('https://old.example.com/*')).toBeNull();
+    });
+  });
+
+  describe('parseRedirectsFile', () => {
+    it('translates redirects, rewrites and forced rules', () => {
+      const rules = parseRedirectsFile(
+        [
+          '# Moved content',
+          '/old            /new',
+          '/blog/*         /news/:splat     302',
+          '/docs/:version  /v/:version      308!',
+          '/api/*          https://api.example.com/:splat  200',
+          '',
+          '/*              /index.html      200   # SPA',
+        ].join('\n')
+      );
+
+      expect(rules.redirects).toEqual([
+        { source: '/old', destination: '/new', statusCode: 301, force: false },
+        { source: '/blog/:splat*', destination: '/news/:splat*', statusCode: 302, force: false },
+        { source: '/docs/:version', destination: '/v/:version', statusCode: 308, force: true },
+      ]);
+      expect(rules.rewrites).toEqual([
+        { source: '/api/:splat*', destination: 'https://api.example.com/:splat*', force: false },
+        { source: '/:splat*', destination: '/index.html', force: false },
+      ]);
+      expect(rules.unsupported).toEqual([]);
+    });
+
+    it('tells forced and unforced redirects apart where a file exists', () => {
+      const rules = parseRedirectsFile(
+        ['/old.html  /new  301', '/old.html  /new  301!'].join('\n'),
+        '_redirects',
+        ['/old.html', '/old']
+      );
+
+      expect(rules.redirects).toEqual([
+        { source: '/old.html', destination: '/new', statusCode: 301, force: true },
+      ]);
+      expect(rules.unsupported).toEqual([
+        {
+          file: '_redirects',
+          line: 1,
+          text: '/old.html  /new  301',
+          reason:
+            'A file in the bundle matches this path, so Netlify serves it instead of redirecting (use 301! to always redirect)',
+        },
+      ]);
+    });
+
+    it('reports forced rewrites of paths with a file', () => {
+      const rules = parseRedirectsFile(
+        [
+          '/*  /index.html  200',
+          '/app/*  /app/index.html  200!',
+          '/api/*  /backend/:splat  200!',
+        ].join('\n'),
+        '_redirects',
+        ['/index.html', '/', '/app/index.html', '/app/']
+      );
+
+      expect(rules.rewrites).toEqual([
+        { source: '/:splat*', destination: '/index.html', force: false },
+        { source: '/api/:splat*', destination: '/backend/:splat*', force: true },
+      ]);
+      expect(rules.unsupported.map((rule) => [rule.line, rule.reason])).toEqual([
+        [2, 'Forced rewrites (200!) of paths with a file in the bundle are not supported'],
+      ]);
+    });
+
+    it('reports lines it cannot translate', () => {
+      const rules = parseRedirectsFile(
+        [
+          '/store id=:id  /products/:id  301',
+          '/*  /fr/:splat  302  Country=fr',
+          '/missing/*  /404.html  404',
+          '/x/*/y  /z',
+          'https://old.example.com/*  https://new.example.com/:splat  301!',
+          '/typo  /fixed  30l',
+          '/lonely',
+        ].join('\r\n')
+      );
+
+      expect(rules.redirects).toEqual([]);
+      expect(rules.rewrites).toEqual([]);
+      expect(rules.unsupported.map((rule) => [rule.line, rule.reason])).toEqual([
+        [1, 'Query parameter matches are not supported'],
+        [2, 'Conditions (country, language, role, cookie) are not supported'],
+        [3, 'Status 404 is not supported (use 200 or a 3xx redirect)'],
+        [4, 'Splats are only supported as the last path segment'],
+        [5, 'Host matches are not supported'],
+        [6, 'Invalid status "30l"'],
+        [7, 'Missing destination'],
+      ]);
+      expect(rules.unsupported[2]).toMatchObject({
+        file: '_redirects',
+        text: '/missing/*  /404.html  404',
+      });
+    });
+  });
+
+  describe('matchesNetlifyPath', () => {
+    it('matches placeholders, splats and trailing slashes', () => {
+      expect(matchesNetlifyPath('/docs/:page', ['/docs/intro.html'])).toBe(true);
+      expect(matchesNetlifyPath('/docs/:page', ['/docs/a/b.html'])).toBe(false);
+      expect(matchesNetlifyPath('/blog/*', ['/blog/'])).toBe(true);
+      expect(matchesNetlifyPath('/blog/*', ['/blog/2024/post.html'])).toBe(true);
+      expect(matchesNetlifyPath('/blog/*', ['/blogroll.html'])).toBe(false);
+      expect(matchesNetlifyPath('/about', ['/about/'])).toBe(true);
+      expect(matchesNetlifyPath('/a.b', ['/axb'])).toBe(false);
+    });
+  });
+
+  describe('getServedPaths', () => {
+    it('serves index.html at its directory and other HTML without the extension', () => {
+      expect(getServedPaths('index.html')).toEqual(['/index.html', '/']);
+      expect(getServedPaths('docs/index.html')).toEqual(['/docs/index.html', '/docs/']);
+      expect(getServedPaths('about.html')).toEqual(['/about.html', '/about']);
+      expect(getServedPaths('app.js')).toEqual(['/app.js']);
+    });
+  });
+
+  describe('parseHeadersFile', () => {
+    it('translates header blocks per path', () => {
+      const rules = parseHeadersFile(
+        [
+          '# Security headers',
+          '/*',
+          '  X-Frame-Options: DENY',
+          '  Link: </style.css>; rel=preload',
+          '  Link: </app.js>; rel=preload',
+          '',
+          '/assets/*',
+          '  Cache-Control: public, max-age=31536000, immutable',
+        ].join('\n')
+      );
+
+      expect(rules.headers).toEqual([
+        {
+          source: '/:splat*',
+          headers: [
+            { key: 'X-Frame-Options', value: 'DENY' },
+            { key: 'Link', value: '</style.css>; rel=preload, </app.js>; rel=preload' },
+          ],
+        },
+        {
+          source: '/assets/:splat*',
+          headers: [{ key: 'Cache-Control', value: 'public, max-age=31536000, immutable' }],
+        },
+      ]);
+      expect(rules.unsupported).toEqual([]);
+    });
+
+    it('reports lines it cannot translate without leaking credentials', () => {
+      const password = 'hunter' + '2';
+      const rules = parseHeadersFile(
+        [
+          '  X-Early: 1',
+          '/a/*/b',
+          '  X-Skipped: 1',
+          '/private/*',
+          `  Basic-Auth: admin:${password}`,
+          '  not a header',
+          '  X-Kept: yes',
+        ].join('\n')
+      );
+
+      expect(rules.headers).toEqual([
+        { source: '/private/:splat*', headers: [{ key: 'X-Kept', value: 'yes' }] },
+      ]);
+      expect(rules.unsupported.map((rule) => [rule.line, rule.text, rule.reason])).toEqual([
+        [1, 'X-Early: 1', 'Header before any path'],
+        [2, '/a/*/b', 'Splats are only supported as the last path segment'],
+        [5, 'Basic-Auth: [redacted]', 'Basic-Auth is not supported'],
+        [6, 'not a header', 'Expected "Name: value"'],
+      ]);
+      expect(JSON.stringify(rules)).not.toContain(password);
+    });
+  });
+
+  describe('applyNetlifyRules', () => {
+    it('writes the rules to vercel.json and drops the originals', () => {
+      const files = [
+        file('index.html', 'x'),
+        file('_redirects', '/old /new\n/* /index.html 200\n/de/* /de 302 Language=de'),
+        file('_headers', '/*\n  X-Frame-Options: DENY'),
+      ];
+
+      const result = applyNetlifyRules(files, null);
+
+      expect(result.files.map((f) => f.file)).toEqual(['index.html', 'vercel.json']);
+      expect(result.imported).toEqual(['_redirects', '_headers']);
+      expect(result.unsupported).toEqual([
+        expect.objectContaining({ file: '_redirects', line: 3 }),
+      ]);
+      expect(vercelConfig(result.files)).toEqual({
+        redirects: [{ source: '/old', destination: '/new', statusCode: 301 }],
+        rewrites: [{ source: '/:splat*', destination: '/index.html' }],
+        headers: [{ source: '/:splat*', headers: [{ key: 'X-Frame-Options', value: 'DENY' }] }],
+      });
+    });
+
+    it('checks for shadowing files in the output directory', () => {
+      const files = [
+        file('dist/index.html', 'x'),
+        file('dist/about.html', 'x'),
+        file('dist/_redirects', '/about  /team  301\n/contact  /team  301\n/about  /team  302!'),
+        file('contact.html', 'not deployed from dist'),
+      ];
+
+      const result = applyNetlifyRules(files, 'dist');
+
+      expect(result.unsupported).toEqual([
+        expect.objectContaining({ file: 'dist/_redirects', line: 1 }),
+      ]);
+      expect(vercelConfig(result.files).redirects).toEqual([
+        { source: '/contact', destination: '/team', statusCode: 301 },
+        { source: '/about', destination: '/team', statusCode: 302 },
+      ]);
+    });
+
+    it('adds the rules after those the bundle declares', () => {
+      const existing = { source: '/a', destination: '/b', permanent: true };
+      const files = [
+        file('vercel.json', JSON.stringify({ cleanUrls: true, redirects: [existing] })),
+        file('_redirects', '/old /new'),
+      ];
+
+      const { files: result } = applyNetlifyRules(files, null);
+
+      expect(vercelConfig(result)).toEqual({
+        cleanUrls: true,
+        redirects: [existing, { source: '/old', destination: '/new', statusCode: 301 }],
+      });
+    });
+
+    it('reads the files from the output directory', () => {
+      const files = [
+        file('dist/index.html', 'x'),
+        file('dist/_redirects', '/old /new'),
+        file('_redirects', '/ignored /elsewhere'),
+      ];
+
+      const result = applyNetlifyRules(files, 'dist');
+
+      expect(result.imported).toEqual(['dist/_redirects']);
+      expect(result.files.map((f) => f.file)).toEqual([
+        'dist/index.html',
+        '_redirects',
+        'vercel.json',
+      ]);
+      expect(vercelConfig(result.files).redirects).toEqual([
+        { source: '/old', destination: '/new', statusCode: 301 },
+      ]);
+    });
+
+    it('leaves bundles without Netlify files alone', () => {
+      const files = [file('index.html', 'x')];
+
+      expect(applyNetlifyRules(files, null)).toEqual({ files, imported: [], unsupported: [] });
+    });
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * Netlify Rules
+ *
+ * Translates the _redirects and _headers files Netlify templates ship into
+ * vercel.json redirects, rewrites and headers, since Vercel ignores them.
+ * The originals are not deployed. Lines that can't be translated are
+ * reported instead of failing the bundle, e.g.:
+ *   /old/*     /new/:splat   301!   -> { source: "/old/:splat*", destination: "/new/:splat*", statusCode: 301 }
+ *   /app/*     /index.html   200    -> rewrite
+ *   /de/*      /de/404.html  404    -> unsupported (Vercel rewrites can't set a status)
+ *   /*  /fr/:splat  302  Country=fr -> unsupported (conditions)
+ *
+ * Netlify serves an existing file in place of a rule unless the rule is
+ * forced (!). Vercel redirects always win over files and rewrites never do,
+ * so an unforced redirect or a forced rewrite whose path has a file in the
+ * bundle is reported rather than translated with different behavior.
+ */
+
+import { mergeVercelConfig, readFileText, readVercelConfig } from './manifest';
+import type { UnsupportedRule } from './types';
+import type { DeploymentFile } from './vercel';
+
+export const REDIRECTS_FILENAME = '_redirects';
+export const HEADERS_FILENAME = '_headers';
+
+const REDIRECT_STATUS_CODES = [301, 302, 303, 307, 308];
+const DEFAULT_REDIRECT_STATUS = 301;
+
+// Longer lines aren't echoed back in full
+const MAX_REPORTED_LINE_LENGTH = 200;
+
+export interface NetlifyRedirect {
+  source: string;
+  destination: string;
+  statusCode: number;
+  /** Forced (!): applies even where a file exists */
+  force: boolean;
+}
+
+export interface NetlifyRewrite {
+  source: string;
+  destination: string;
+  /** Forced (!): applies even where a file exists */
+  force: boolean;
+}
+
+export interface NetlifyHeaderRule {
+  source: string;
+  headers: { key: string; value: string }[];
+}
+
+/**
+ * Rules translated from one file, plus the lines that couldn't be
+ */
+export interface NetlifyRules {
+  redirects: NetlifyRedirect[];
+  rewrites: NetlifyRewrite[];
+  headers: NetlifyHeaderRule[];
+  unsupported: UnsupportedRule[];
+}
+
+function emptyRules(): NetlifyRules {
+  return { redirects: [], rewrites: [], headers: [], unsupported: [] };
+}
+
+function unsupportedLine(
+  file: string,
+  line: number,
+  text: string,
+  reason: string
+): UnsupportedRule {
+  const trimmed = text.trim();
+  return {
+    file,
+    line,
+    text:
+      trimmed.length > MAX_REPORTED_LINE_LENGTH
+        ? `${trimmed.slice(0, MAX_REPORTED_LINE_LENGTH)}...`
+        : trimmed,
+    reason,
+  };
+}
+
+/**
+ * Translate a Netlify path pattern into Vercel's path-to-regexp syntax.
+ * Placeholders (/:slug) carry over; a trailing splat (/*) becomes /:splat*.
+ * Returns null for patterns Vercel can't express.
+ */
+export function convertNetlifyPath(path: string): string | null {
+  if (!path.startsWith('/')) {
+    return null;
+  }
+
+  const splatIndex = path.indexOf('*');
+  if (splatIndex === -1) {
+    return path;
+  }
+  // Netlify only supports a splat as the last path segment
+  if (splatIndex !== path.length - 1 || !path.endsWith('/*')) {
+    return null;
+  }
+  return `${path.slice(0, -1)}:splat*`;
+}
+
+/**
+ * Explain why convertNetlifyPath rejected a path
+ */
+function unsupportedPathReason(path: string): string {
+  if (/^https?:\/\//.test(path)) {
+    return 'Host matches are not supported';
+  }
+  if (!path.startsWith('/')) {
+    return 'Paths must start with "/"';
+  }
+  return 'Splats are only supported as the last path segment';
+}
+
+/**
+ * Check whether a Netlify path pattern matches any of the given paths.
+ * Placeholders match one segment; a trailing splat also matches its parent.
+ */
+export function matchesNetlifyPath(pattern: string, paths: string[]): boolean {
+  const body = pattern
+    .replace(/\/\*$/, '')
+    .split(/(:[A-Za-z0-9_]+)/)
+    .map((part) => (part.startsWith(':') ? '[^/]+' : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  const regex = new RegExp(`^${body}${pattern.endsWith('/*') ? '(/.*)?' : '/?'}$`, 'i');
+  return paths.some((path) => regex.test(path));
+}
+
+/**
+ * URL paths a static file is served at: its own path, plus the directory for
+ * index.html and the extensionless path for other HTML files
+ */
+export function getServedPaths(file: string): string[] {
+  const paths = [`/${file}`];
+  if (file === 'index.html' || file.endsWith('/index.html')) {
+    paths.push(`/${file.slice(0, -'index.html'.length)}`);
+  } else if (file.endsWith('.html')) {
+    paths.push(`/${file.slice(0, -'.html'.length)}`);
+  }
+  return paths;
+}
+
+/**
+ * Translate a redirect destination: :splat takes the whole matched remainder
+ */
+function convertDestination(destination: string): string {
+  return destination.replace(/:splat\b(?!\*)/g, ':splat*');
+}
+
+/**
+ * Parse a _redirects file:
+ *   <from> <to> [status][!]
+ * Comments (#) and blank lines are ignored. Query parameter matches, host
+ * matches and conditions (Country=, Language=, Role=, ...) are reported as
+ * unsupported, as are rules whose behavior depends on a file at one of
+ * servedPaths (see above).
+ */
+export function parseRedirectsFile(
+  text: string,
+  file = REDIRECTS_FILENAME,
+  servedPaths: string[] = []
+): NetlifyRules {
+  const rules = emptyRules();
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+    if (!line) {
+      return;
+    }
+    const unsupported = (reason: string) =>
+      rules.unsupported.push(unsupportedLine(file, lineNumber, rawLine, reason));
+
+    const [from, ...rest] = line.split(/\s+/);
+    if (rest.length === 0) {
+      unsupported('Missing destination');
+      return;
+    }
+    if (rest[0].includes('=') && !/^(\/|https?:\/\/)/.test(rest[0])) {
+      unsupported('Query parameter matches are not supported');
+      return;
+    }
+
+    const [to, statusToken, ...conditions] = rest;
+    if (conditions.length > 0) {
+      unsupported('Conditions (country, language, role, cookie) are not supported');
+      return;
+    }
+
+    const source = convertNetlifyPath(from);
+    if (!source) {
+      unsupported(unsupportedPathReason(from));
+      return;
+    }
+
+    let status = DEFAULT_REDIRECT_STATUS;
+    let force = false;
+    if (statusToken) {
+      const match = /^(\d{3})(!?)$/.exec(statusToken);
+      if (!match) {
+        unsupported(`Invalid status "${statusToken}"`);
+        return;
+      }
+      status = Number(match[1]);
+      force = match[2] === '!';
+    }
+
+    const destination = convertDestination(to);
+    const shadowed = matchesNetlifyPath(from, servedPaths);
+    if (status === 200) {
+      // Vercel rewrites only apply where no file exists, like unforced Netlify rewrites
+      if (force && shadowed) {
+        unsupported('Forced rewrites (200!) of paths with a file in the bundle are not supported');
+        return;
+      }
+      rules.rewrites.push({ source, destination, force });
+    } else if (REDIRECT_STATUS_CODES.includes(status)) {
+      // Vercel redirects always take precedence over files, like forced Netlify redirects
+      if (!force && shadowed) {
+        unsupported(
+          `A file in the bundle matches this path, so Netlify serves it instead of redirecting (use ${status}! to always redirect)`
+        );
+        return;
+      }
+      rules.redirects.push({ source, destination, statusCode: status, force });
+    } else {
+      unsupported(`Status ${status} is not supported (use 200 or a 3xx redirect)`);
+    }
+  });
+
+  return rules;
+}
+
+/**
+ * Parse a _headers file: a path line followed by indented "Name: value"
+ * lines. Repeated headers for a path are joined with ", ". Basic-Auth is
+ * reported as unsupported with its credentials left out.
+ */
+export function parseHeadersFile(text: string, file = HEADERS_FILENAME): NetlifyRules {
+  const rules = emptyRules();
+  let current: NetlifyHeaderRule | null = null;
+  // Set while skipping the headers of a path that couldn't be translated
+  let skipping = false;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      return;
+    }
+
+    // Path lines start at the beginning of the line; anything else is a header
+    if (!/^\s/.test(rawLine) && /^(\/|https?:\/\/)/.test(line)) {
+      current = null;
+      const source = convertNetlifyPath(line);
+      if (!source) {
+        skipping = true;
+        rules.unsupported.push(
+          unsupportedLine(file, lineNumber, rawLine, unsupportedPathReason(line))
+        );
+        return;
+      }
+      skipping = false;
+      current = { source, headers: [] };
+      rules.headers.push(current);
+      return;
+    }
+
+    if (skipping) {
+      return;
+    }
+
+    const colon = line.indexOf(':');
+    const key = colon > 0 ? line.slice(0, colon).trim() : '';
+    const value = colon > 0 ? line.slice(colon + 1).trim() : '';
+    if (key.toLowerCase() === 'basic-auth') {
+      rules.unsupported.push(
+        unsupportedLine(file, lineNumber, `${key}: [redacted]`, 'Basic-Auth is not supported')
+      );
+      return;
+    }
+    if (!current) {
+      rules.unsupported.push(unsupportedLine(file, lineNumber, rawLine, 'Header before any path'));
+      return;
+    }
+    if (!/^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/.test(key)) {
+      rules.unsupported.push(unsupportedLine(file, lineNumber, rawLine, 'Expected "Name: value"'));
+      return;
+    }
+
+    const existing = current.headers.find((h) => h.key.toLowerCase() === key.toLowerCase());
+    if (existing) {
+      existing.value = `${existing.value}, ${value}`;
+    } else {
+      current.headers.push({ key, value });
+    }
+  });
+
+  rules.headers = rules.headers.filter((rule) => rule.headers.length > 0);
+  return rules;
+}
+
+/**
+ * Translate the _redirects and _headers files at the root of the output
+ * directory into vercel.json, and drop them from the deployment. Netlify's
+ * rules are added after any the bundle already declares.
+ */
+export function applyNetlifyRules(
+  files: DeploymentFile[],
+  outputDirectory: string | null
+): { files: DeploymentFile[]; imported: string[]; unsupported: UnsupportedRule[] } {
+  const prefix = outputDirectory ? `${outputDirectory}/` : '';
+  const redirectsPath = `${prefix}${REDIRECTS_FILENAME}`;
+  const headersPath = `${prefix}${HEADERS_FILENAME}`;
+
+  const redirectsFile = files.find((f) => f.file === redirectsPath);
+  const headersFile = files.find((f) => f.file === headersPath);
+  if (!redirectsFile && !headersFile) {
+    return { files, imported: [], unsupported: [] };
+  }
+
+  // Paths the deployed output serves, which unforced rules don't apply to
+  const servedPaths = files
+    .filter((f) => f.file.startsWith(prefix) && f !== redirectsFile && f !== headersFile)
+    .flatMap((f) => getServedPaths(f.file.slice(prefix.length)));
+
+  const rules = emptyRules();
+  for (const parsed of [
+    redirectsFile
+      ? parseRedirectsFile(readFileText(redirectsFile), redirectsPath, servedPaths)
+      : emptyRules(),
+    headersFile ? parseHeadersFile(readFileText(headersFile), headersPath) : emptyRules(),
+  ]) {
+    rules.redirects.push(...parsed.redirects);
+    rules.rewrites.push(...parsed.rewrites);
+    rules.headers.push(...parsed.headers);
+    rules.unsupported.push(...parsed.unsupported);
+  }
+
+  const imported = [redirectsFile, headersFile]
+    .filter((f): f is DeploymentFile => f !== undefined)
+    .map((f) => f.file);
+  let deployFiles = files.filter((f) => !imported.includes(f.file));
+
+  // vercel.json has no force flag; it only decided whether a rule could be translated
+  const translated = {
+    redirects: rules.redirects.map(({ source, destination, statusCode }) => ({
+      source,
+      destination,
+      statusCode,
+    })),
+    rewrites: rules.rewrites.map(({ source, destination }) => ({ source, destination })),
+    headers: rules.headers,
+  };
+
+  const existing = readVercelConfig(deployFiles);
+  const generated: Record<string, unknown> = {};
+  for (const key of ['redirects', 'rewrites', 'headers'] as const) {
+    if (translated[key].length > 0) {
+      const current = Array.isArray(existing[key]) ? (existing[key] as unknown[]) : [];
+      generated[key] = [...current, ...translated[key]];
+    }
+  }
+  if (Object.keys(generated).length > 0) {
+    deployFiles = mergeVercelConfig(deployFiles, generated);
+  }
+
+  return { files: deployFiles, imported, unsupported: rules.unsupported };
+}
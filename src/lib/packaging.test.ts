@@ -0,0 +1,176 @@
+/**
+ * Bundle Packaging Tests
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import JSZip from 'jszip';
+import { BundleValidationError, computeHash, discardExtractedBundle } from './bundle';
+import { readFileText } from './manifest';
+import { packageBundle, secretsBlockedMessage } from './packaging';
+
+async function createZip(entries: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(entries)) {
+    zip.file(path, content);
+  }
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+// Extraction directories left by the current test
+const extracted: string[] = [];
+
+async function pack(...args: Parameters<typeof packageBundle>) {
+  const packaged = await packageBundle(...args);
+  extracted.push(packaged.directory);
+  return packaged;
+}
+
+describe('packaging', () => {
+  afterEach(async () => {
+    delete process.env.ABBA_SECRET_SCAN_POLICY;
+    await Promise.all(extracted.splice(0).map(discardExtractedBundle));
+  });
+
+  describe('packageBundle', () => {
+    it('extracts, applies the manifest and adds default files', async () => {
+      const zip = await createZip({
+        'abba.json': JSON.stringify({ cleanUrls: true }),
+        'app.js': 'console.log(1)',
+        '.DS_Store': 'x',
+      });
+
+      const packaged = await pack(zip);
+
+      expect(packaged.hash).toBe(computeHash(zip));
+      expect(packaged.format).toBe('zip');
+      expect(packaged.projectSettings.outputDirectory).toBeNull();
+      expect(packaged.files.map((f) => f.file)).toEqual(['app.js', 'vercel.json', 'index.html']);
+      expect(packaged.report.skipped).toEqual([{ path: '.DS_Store', reason: 'hidden' }]);
+      expect(packaged.report.defaulted).toEqual(['index.html']);
+      expect(packaged.secretFindings).toEqual([]);
+      expect(packaged.blockedBySecrets).toBe(false);
+    });
+
+    it('blocks bundles with secrets under the block policy', async () => {
+      const zip = await createZip({ 'index.html': 'x', 'keys/server.pem': 'x' });
+
+      process.env.ABBA_SECRET_SCAN_POLICY = 'block';
+      const packaged = await pack(zip);
+
+      expect(packaged.secretFindings).toEqual([
+        expect.objectContaining({ file: 'keys/server.pem', rule: 'private_key_file' }),
+      ]);
+      expect(packaged.secretScanPolicy).toBe('block');
+      expect(packaged.blockedBySecrets).toBe(true);
+      expect(secretsBlockedMessage(packaged.secretFindings)).toBe(
+        'Bundle contains 1 possible secrets; remove them and publish again'
+      );
+    });
+
+    it('follows the secret scan policy', async () => {
+      const zip = await createZip({ 'index.html': 'x', 'keys/server.pem': 'x' });
+
+      const warned = await pack(zip);
+      process.env.ABBA_SECRET_SCAN_POLICY = 'off';
+      const unscanned = await pack(zip);
+
+      expect(warned.secretFindings).toHaveLength(1);
+      expect(warned.blockedBySecrets).toBe(false);
+      expect(unscanned.secretFindings).toEqual([]);
+      expect(unscanned.blockedBySecrets).toBe(false);
+    });
+
+    it('rejects bundles that would lose files in strict mode', async () => {
+      const zip = await createZip({ 'index.html': 'x', '.env': 'SECRET=1' });
+
+      const error = await packageBundle(zip, { strict: true }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(BundleValidationError);
+      expect((error as BundleValidationError).code).toBe('skipped_file');
+    });
+
+    it('adds the SPA fallback to SPA builds', async () => {
+      const zip = await createZip({
+        'abba.json': JSON.stringify({ outputDirectory: 'dist', cleanUrls: true }),
+        'dist/index.html': '<div id="root"></div>',
+        'dist/assets/index-4f9a1c2b.js': 'console.log(1)',
+      });
+
+      const detected = await pack(zip);
+      const forcedOff = await pack(zip, { spa: false });
+
+      const vercelJson = detected.files.find((f) => f.file === 'vercel.json')!;
+      expect(detected.spaFallback).toBe(true);
+      expect(JSON.parse(readFileText(vercelJson))).toEqual({
+        cleanUrls: true,
+        rewrites: [expect.objectContaining({ destination: '/index.html' })],
+      });
+      expect(forcedOff.spaFallback).toBe(false);
+    });
+
+    it('imports Netlify rules before detecting SPAs', async () => {
+      const zip = await createZip({
+        'index.html': '<div id="root"></div>',
+        'assets/index-4f9a1c2b.js': 'console.log(1)',
+        _redirects: '/* /index.html 200\n/fr/* /fr 302 Country=fr',
+      });
+
+      const packaged = await pack(zip);
+
+      const vercelJson = packaged.files.find((f) => f.file === 'vercel.json')!;
+      expect(JSON.parse(readFileText(vercelJson))).toEqual({
+        rewrites: [{ source: '/:splat*', destination: '/index.html' }],
+      });
+      expect(packaged.spaFallback).toBe(false);
+      expect(packaged.files.map((f) => f.file)).not.toContain('_redirects');
+      expect(packaged.report.imported).toEqual(['_redirects']);
+      expect(packaged.report.unsupportedRules).toEqual([
+        expect.objectContaining({ file: '_redirects', line: 2 }),
+      ]);
+    });
+
+    it('detects the framework of source bundles', async () => {
+      const zip = await createZip({
+        'package.json': JSON.stringify({
+          devDependencies: { vite: '^5.0.0' },
+          scripts: { build: 'vite build' },
+        }),
+        'pnpm-lock.yaml': '',
+        'src/main.ts': 'console.log(1)',
+      });
+
+      const packaged = await pack(zip, { mode: 'source' });
+
+      expect(packaged.projectSettings).toEqual({
+        framework: 'vite',
+        buildCommand: 'pnpm run build',
+        installCommand: 'pnpm install',
+        outputDirectory: 'dist',
+      });
+      // The build produces index.html
+      expect(packaged.report.defaulted).toEqual([]);
+      expect(packaged.files.map((f) => f.file)).not.toContain('index.html');
+    });
+
+    it('lets abba.json override the build output directory', async () => {
+      const zip = await createZip({
+        'abba.json': JSON.stringify({ outputDirectory: 'out' }),
+        'package.json': JSON.stringify({ dependencies: { 'react-scripts': '5.0.1' } }),
+      });
+
+      const packaged = await pack(zip, { mode: 'source' });
+
+      expect(packaged.projectSettings.framework).toBe('create-react-app');
+      expect(packaged.projectSettings.outputDirectory).toBe('out');
+    });
+
+    it('rejects source bundles without a supported framework', async () => {
+      const zip = await createZip({ 'index.html': 'x' });
+
+      const error = await packageBundle(zip, { mode: 'source' }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(BundleValidationError);
+      expect((error as BundleValidationError).code).toBe('unsupported_framework');
+    });
+  });
+});
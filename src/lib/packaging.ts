@@ -0,0 +1,135 @@
+/**
+ * Bundle Packaging
+ *
+ * Turns an uploaded bundle into the files to deploy: extraction and safety
+ * checks, abba.json, Netlify _redirects/_headers, the SPA fallback, default
+ * files (or framework detection for source bundles) and the secret scan.
+ * Shared by publish/upload and the bundles/validate dry run, so it has no
+ * side effects (no job updates, no Vercel calls) beyond the temporary
+ * directory the extracted files are spooled to, which the caller removes.
+ */
+
+import {
+  discardExtractedBundle,
+  ensureDefaultFiles,
+  extractBundle,
+  type BundleFormat,
+  type BundleSource,
+  type ExtractBundleOptions,
+} from './bundle';
+import { detectFramework } from './frameworks';
+import { applyBundleManifest } from './manifest';
+import { applyNetlifyRules } from './netlify';
+import { applySpaFallback } from './spa';
+import { getSecretScanPolicy, scanForSecrets, type SecretScanPolicy } from './secrets';
+import type { BundleReport, PublishMode, SecretFinding } from './types';
+import type { DeploymentFile, VercelProjectSettings } from './vercel';
+
+/**
+ * A bundle ready to deploy
+ */
+export interface PackagedBundle {
+  files: DeploymentFile[];
+  /** SHA256 of the bundle */
+  hash: string;
+  format: BundleFormat;
+  projectSettings: VercelProjectSettings;
+  report: BundleReport;
+  secretFindings: SecretFinding[];
+  secretScanPolicy: SecretScanPolicy;
+  /** The scan found secrets and the policy is to block */
+  blockedBySecrets: boolean;
+  /** vercel.json got a catch-all rewrite to index.html */
+  spaFallback: boolean;
+  /** Temporary directory holding the extracted files (remove with discardExtractedBundle) */
+  directory: string;
+}
+
+export interface PackageBundleOptions extends ExtractBundleOptions {
+  /** Source bundles are built by Vercel (defaults to static) */
+  mode?: PublishMode;
+  /** Force the SPA fallback rewrite on or off (detected for static bundles by default) */
+  spa?: boolean;
+}
+
+/**
+ * Package a bundle for deployment.
+ * Throws BundleValidationError for bundles that can't be deployed.
+ */
+export async function packageBundle(
+  source: BundleSource,
+  options: PackageBundleOptions = {}
+): Promise<PackagedBundle> {
+  const extracted = await extractBundle(source, options);
+  try {
+    return packageExtractedBundle(extracted, options);
+  } catch (error) {
+    await discardExtractedBundle(extracted.directory);
+    throw error;
+  }
+}
+
+function packageExtractedBundle(
+  { files: extracted, hash, format, report, directory }: Awaited<ReturnType<typeof extractBundle>>,
+  options: PackageBundleOptions
+): PackagedBundle {
+  const isSource = options.mode === 'source';
+
+  // Apply abba.json, if the bundle has one
+  const { files: configured, projectSettings: manifestSettings } = applyBundleManifest(extracted, {
+    source: isSource,
+  });
+
+  let files = configured;
+  let projectSettings = manifestSettings;
+  if (isSource) {
+    // The build produces index.html; an outputDirectory in abba.json wins over the preset's
+    const detected = detectFramework(files);
+    projectSettings = {
+      ...detected,
+      outputDirectory: manifestSettings.outputDirectory ?? detected.outputDirectory,
+    };
+  } else {
+    // Translate Netlify _redirects and _headers, reporting what doesn't carry over
+    const netlify = applyNetlifyRules(files, projectSettings.outputDirectory);
+    files = netlify.files;
+    report.imported.push(...netlify.imported);
+    report.unsupportedRules.push(...netlify.unsupported);
+  }
+
+  // Route deep links to index.html (source bundles aren't built yet, so only when forced)
+  const spa = applySpaFallback(
+    files,
+    projectSettings.outputDirectory,
+    isSource ? options.spa === true : options.spa
+  );
+  files = spa.files;
+
+  if (!isSource) {
+    files = ensureDefaultFiles(files, report);
+  }
+
+  // Scan for secrets before anything is deployed
+  const secretScanPolicy = getSecretScanPolicy();
+  const secretFindings = secretScanPolicy === 'off' ? [] : scanForSecrets(files);
+
+  return {
+    files,
+    hash,
+    format,
+    projectSettings,
+    report,
+    secretFindings,
+    secretScanPolicy,
+    blockedBySecrets: secretScanPolicy === 'block' && secretFindings.length > 0,
+    spaFallback: spa.applied,
+    directory,
+  };
+}
+
+/**
+ * Explain why the secret scan blocked a bundle
+ */
+export function secretsBlockedMessage(findings: SecretFinding[]): string {
+  return `Bundle contains ${findings.length} possible secrets; remove them and publish again`;
+}
@@ -0,0 +1,293 @@
+/**
+ * Publish Quota Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  getQuotaLimits,
+  getQuotaWindow,
+  getQuotaUsage,
+  checkPublishQuota,
+  checkUploadQuota,
+  quotaExceededResponse,
+} from './quotas';
+import { createPublishJob, updateJobStatus, clearInMemoryStoreForTesting } from './db';
+
+// Mock Supabase to use in-memory store
+vi.mock('./supabase', () => ({
+  isSupabaseConfigured: () => false,
+  getSupabaseClient: () => null,
+}));
+
+const QUOTA_ENV_VARS = [
+  'ABBA_QUOTA_PUBLISHES_PER_DAY',
+  'ABBA_QUOTA_BYTES_PER_DAY',
+  'ABBA_QUOTA_CONCURRENT_JOBS',
+];
+
+const DEVICE_A = { deviceId: 'device-a', profileId: null, clientIp: null };
+
+async function createJob(deviceId: string, profileId?: string, uploadedBytes?: number) {
+  const job = await createPublishJob({
+    appId: 1,
+    deviceId,
+    profileId,
+    bundleHash: 'abc123',
+    bundleSize: 1024,
+  });
+  if (uploadedBytes !== undefined) {
+    await updateJobStatus(job.id, 'ready', { uploaded_bytes: uploadedBytes });
+  }
+  return job;
+}
+
+describe('quotas', () => {
+  beforeEach(() => {
+    clearInMemoryStoreForTesting();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-07T15:30:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    for (const name of QUOTA_ENV_VARS) {
+      delete process.env[name];
+    }
+  });
+
+  describe('getQuotaLimits', () => {
+    it('has defaults', () => {
+      expect(getQuotaLimits()).toEqual({
+        publishesPerDay: 50,
+        bytesPerDay: 1024 * 1024 * 1024,
+        concurrentJobs: 3,
+      });
+    });
+
+    it('reads limits from the environment', () => {
+      process.env.ABBA_QUOTA_PUBLISHES_PER_DAY = '10';
+      process.env.ABBA_QUOTA_BYTES_PER_DAY = '5000';
+      process.env.ABBA_QUOTA_CONCURRENT_JOBS = '1';
+
+      expect(getQuotaLimits()).toEqual({
+        publishesPerDay: 10,
+        bytesPerDay: 5000,
+        concurrentJobs: 1,
+      });
+    });
+
+    it('treats 0 as unlimited', () => {
+      process.env.ABBA_QUOTA_PUBLISHES_PER_DAY = '0';
+      expect(getQuotaLimits().publishesPerDay).toBeNull();
+    });
+
+    it('ignores invalid values', () => {
+      process.env.ABBA_QUOTA_CONCURRENT_JOBS = 'lots';
+      expect(getQuotaLimits().concurrentJobs).toBe(3);
+    });
+  });
+
+  describe('getQuotaWindow', () => {
+    it('runs from midnight to midnight UTC', () => {
+      expect(getQuotaWindow()).toEqual({
+        start: '2026-01-07T00:00:00.000Z',
+        resetAt: '2026-01-08T00:00:00.000Z',
+      });
+    });
+  });
+
+  describe('getQuotaUsage', () => {
+    it('counts publishes and uploaded bytes for today only', async () => {
+      vi.setSystemTime(new Date('2026-01-06T12:00:00Z'));
+      await createJob('device-a', undefined, 500);
+      vi.setSystemTime(new Date('2026-01-07T15:30:00Z'));
+      await createJob('device-a', undefined, 300);
+      await createJob('device-a', undefined, 200);
+
+      const usage = await getQuotaUsage(DEVICE_A);
+
+      expect(usage.device).toEqual({ publishes: 2, uploadedBytes: 500, inFlight: 0 });
+      expect(usage.profile).toBeNull();
+    });
+
+    it('counts in-flight jobs from before the window', async () => {
+      vi.setSystemTime(new Date('2026-01-06T23:50:00Z'));
+      await createJob('device-a');
+      vi.setSystemTime(new Date('2026-01-07T00:10:00Z'));
+
+      const usage = await getQuotaUsage(DEVICE_A);
+
+      expect(usage.device?.inFlight).toBe(1);
+      expect(usage.device?.publishes).toBe(0);
+    });
+
+    it('stops counting unfinished jobs idle for an hour', async () => {
+      vi.setSystemTime(new Date('2026-01-07T14:00:00Z'));
+      await createJob('device-a');
+      const active = await createJob('device-a');
+      vi.setSystemTime(new Date('2026-01-07T14:45:00Z'));
+      await updateJobStatus(active.id, 'uploading');
+      vi.setSystemTime(new Date('2026-01-07T15:30:00Z'));
+
+      const usage = await getQuotaUsage(DEVICE_A);
+
+      expect(usage.device?.inFlight).toBe(1);
+      expect(usage.device?.publishes).toBe(2);
+    });
+
+    it('reports profile usage across devices', async () => {
+      await createJob('device-a', 'profile-1');
+      await createJob('device-b', 'profile-1');
+      await createJob('device-c', 'profile-2');
+
+      const usage = await getQuotaUsage({
+        deviceId: 'device-a',
+        profileId: 'profile-1',
+        clientIp: null,
+      });
+
+      expect(usage.device?.publishes).toBe(1);
+      expect(usage.profile?.publishes).toBe(2);
+    });
+  });
+
+  describe('checkPublishQuota', () => {
+    it('allows publishes under the limits', async () => {
+      expect(await checkPublishQuota(DEVICE_A, 1024)).toBeNull();
+    });
+
+    it('enforces the daily publish limit per device', async () => {
+      process.env.ABBA_QUOTA_PUBLISHES_PER_DAY = '2';
+      process.env.ABBA_QUOTA_CONCURRENT_JOBS = '0';
+      await createJob('device-a');
+      await createJob('device-a');
+
+      const violation = await checkPublishQuota(DEVICE_A, 1024);
+
+      expect(violation).toEqual({
+        quota: 'publishesPerDay',
+        scope: 'device',
+        limit: 2,
+        used: 2,
+        resetAt: '2026-01-08T00:00:00.000Z',
+      });
+      expect(
+        await checkPublishQuota({ deviceId: 'device-b', profileId: null, clientIp: null }, 1024)
+      ).toBeNull();
+    });
+
+    it('enforces the daily publish limit per profile', async () => {
+      process.env.ABBA_QUOTA_PUBLISHES_PER_DAY = '2';
+      process.env.ABBA_QUOTA_CONCURRENT_JOBS = '0';
+      await createJob('device-a', 'profile-1');
+      await createJob('device-b', 'profile-1');
+
+      const violation = await checkPublishQuota(
+        { deviceId: 'device-c', profileId: 'profile-1', clientIp: null },
+        1024
+      );
+
+      expect(violation?.scope).toBe('profile');
+      expect(violation?.quota).toBe('publishesPerDay');
+    });
+
+    it('applies device quotas to each client of the shared env device', async () => {
+      process.env.ABBA_QUOTA_PUBLISHES_PER_DAY = '2';
+      process.env.ABBA_QUOTA_CONCURRENT_JOBS = '0';
+      for (let i = 0; i < 2; i++) {
+        await createPublishJob({
+          appId: 1,
+          deviceId: 'env',
+          clientIp: '203.0.113.1',
+          bundleHash: 'abc123',
+          bundleSize: 1024,
+        });
+      }
+
+      expect(
+        await checkPublishQuota({ deviceId: 'env', profileId: null, clientIp: '203.0.113.1' }, 1024)
+      ).toMatchObject({ scope: 'device', quota: 'publishesPerDay', used: 2 });
+      expect(
+        await checkPublishQuota({ deviceId: 'env', profileId: null, clientIp: '203.0.113.2' }, 1024)
+      ).toBeNull();
+    });
+
+    it('frees the daily limit at midnight UTC', async () => {
+      process.env.ABBA_QUOTA_PUBLISHES_PER_DAY = '1';
+      await createJob('device-a', undefined, 100);
+
+      expect(await checkPublishQuota(DEVICE_A, 1024)).not.toBeNull();
+
+      vi.setSystemTime(new Date('2026-01-08T00:00:01Z'));
+      expect(await checkPublishQuota(DEVICE_A, 1024)).toBeNull();
+    });
+
+    it('enforces the concurrent job limit', async () => {
+      process.env.ABBA_QUOTA_CONCURRENT_JOBS = '1';
+      const job = await createJob('device-a');
+
+      const violation = await checkPublishQuota(DEVICE_A, 1024);
+      expect(violation).toMatchObject({ quota: 'concurrentJobs', limit: 1, resetAt: null });
+
+      await updateJobStatus(job.id, 'failed');
+      expect(await checkPublishQuota(DEVICE_A, 1024)).toBeNull();
+    });
+
+    it('rejects a declared size that would exceed the daily byte limit', async () => {
+      process.env.ABBA_QUOTA_BYTES_PER_DAY = '1000';
+      await createJob('device-a', undefined, 600);
+
+      const violation = await checkPublishQuota(DEVICE_A, 500);
+
+      expect(violation).toMatchObject({ quota: 'bytesPerDay', used: 600, limit: 1000 });
+    });
+  });
+
+  describe('checkUploadQuota', () => {
+    it('checks only the byte limit', async () => {
+      process.env.ABBA_QUOTA_PUBLISHES_PER_DAY = '1';
+      process.env.ABBA_QUOTA_CONCURRENT_JOBS = '1';
+      process.env.ABBA_QUOTA_BYTES_PER_DAY = '1000';
+      await createJob('device-a');
+
+      expect(await checkUploadQuota(DEVICE_A, 1000)).toBeNull();
+      expect(await checkUploadQuota(DEVICE_A, 1001)).toMatchObject({ quota: 'bytesPerDay' });
+    });
+  });
+
+  describe('quotaExceededResponse', () => {
+    it('returns a structured 429 with the reset time', async () => {
+      const response = quotaExceededResponse({
+        quota: 'publishesPerDay',
+        scope: 'device',
+        limit: 50,
+        used: 50,
+        resetAt: '2026-01-08T00:00:00.000Z',
+      });
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get('Retry-After')).toBe(String(8.5 * 60 * 60));
+      expect(await response.json()).toEqual({
+        error: 'QuotaExceeded',
+        message: 'Daily publish limit reached for this device. Resets at 2026-01-08T00:00:00.000Z.',
+        quota: 'publishesPerDay',
+        scope: 'device',
+        limit: 50,
+        used: 50,
+        resetAt: '2026-01-08T00:00:00.000Z',
+      });
+    });
+
+    it('omits Retry-After for concurrent jobs', () => {
+      const response = quotaExceededResponse({
+        quota: 'concurrentJobs',
+        scope: 'profile',
+        limit: 3,
+        used: 3,
+        resetAt: null,
+      });
+
+      expect(response.headers.get('Retry-After')).toBeNull();
+    });
+  });
+});
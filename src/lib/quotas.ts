@@ -0,0 +1,235 @@
+/**
+ * Publish Quotas
+ *
+ * Daily caps on publishes and uploaded bytes, plus a cap on concurrent
+ * in-flight jobs. Each limit applies separately to the publishing device
+ * and to the job's profile. Usage is computed from the job store, and
+ * daily quotas reset at midnight UTC. Unfinished jobs that have not been
+ * updated for an hour no longer count as in flight.
+ *
+ * The shared ABBA_DEVICE_TOKEN is one 'env' device for every install using
+ * it, so its device quotas apply to each client IP (the same way it is rate
+ * limited). Its callers have no verified profile.
+ *
+ * Limits come from ABBA_QUOTA_* environment variables; 0 means unlimited.
+ */
+
+import { NextResponse } from 'next/server';
+import { getJobUsage, type JobUsage } from './db';
+
+/**
+ * Configured limits (null = unlimited)
+ */
+export interface QuotaLimits {
+  publishesPerDay: number | null;
+  bytesPerDay: number | null;
+  concurrentJobs: number | null;
+}
+
+export type QuotaName = keyof QuotaLimits;
+
+export type QuotaScope = 'device' | 'profile';
+
+const DEFAULT_QUOTA_LIMITS: QuotaLimits = {
+  publishesPerDay: 50,
+  bytesPerDay: 1024 * 1024 * 1024, // 1GB
+  concurrentJobs: 3,
+};
+
+// Unfinished jobs idle this long are abandoned (deployment polling gives up after 5 minutes)
+const STALE_JOB_MS = 60 * 60 * 1000;
+
+const QUOTA_ENV_VARS: Record<QuotaName, string> = {
+  publishesPerDay: 'ABBA_QUOTA_PUBLISHES_PER_DAY',
+  bytesPerDay: 'ABBA_QUOTA_BYTES_PER_DAY',
+  concurrentJobs: 'ABBA_QUOTA_CONCURRENT_JOBS',
+};
+
+const QUOTA_DESCRIPTIONS: Record<QuotaName, string> = {
+  publishesPerDay: 'Daily publish limit',
+  bytesPerDay: 'Daily upload limit',
+  concurrentJobs: 'Concurrent publish limit',
+};
+
+/**
+ * Who a job's usage is attributed to
+ */
+export interface QuotaSubject {
+  deviceId: string;
+  profileId: string | null;
+  /** Client IP on the shared 'env' device (null for registry devices) */
+  clientIp: string | null;
+}
+
+/**
+ * A quota that a request would exceed
+ */
+export interface QuotaViolation {
+  quota: QuotaName;
+  scope: QuotaScope;
+  limit: number;
+  used: number;
+  /** When the quota frees up (null for concurrent jobs, which free up as jobs finish) */
+  resetAt: string | null;
+}
+
+/**
+ * Current usage for a device and its profile
+ */
+export interface QuotaUsageReport {
+  windowStart: string;
+  resetAt: string;
+  limits: QuotaLimits;
+  /** For the shared 'env' device, usage of the calling client */
+  device: JobUsage;
+  profile: JobUsage | null;
+}
+
+/**
+ * Get the configured quota limits
+ */
+export function getQuotaLimits(): QuotaLimits {
+  const limits = { ...DEFAULT_QUOTA_LIMITS };
+
+  for (const quota of Object.keys(QUOTA_ENV_VARS) as QuotaName[]) {
+    const raw = process.env[QUOTA_ENV_VARS[quota]];
+    if (raw === undefined || raw === '') {
+      continue;
+    }
+
+    const value = Number(raw);
+    if (Number.isInteger(value) && value >= 0) {
+      limits[quota] = value === 0 ? null : value;
+    } else {
+      console.warn(`[quotas] Ignoring invalid ${QUOTA_ENV_VARS[quota]}="${raw}"`);
+    }
+  }
+
+  return limits;
+}
+
+/**
+ * Get the current daily quota window (midnight to midnight UTC)
+ */
+export function getQuotaWindow(now: number = Date.now()): { start: string; resetAt: string } {
+  const start = new Date(now);
+  start.setUTCHours(0, 0, 0, 0);
+  const resetAt = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+  return { start: start.toISOString(), resetAt: resetAt.toISOString() };
+}
+
+/**
+ * Get usage for a device (or shared device client) and, if it has one, its profile
+ */
+export async function getQuotaUsage(subject: QuotaSubject): Promise<QuotaUsageReport> {
+  const window = getQuotaWindow();
+  const activeSince = new Date(Date.now() - STALE_JOB_MS).toISOString();
+
+  const [device, profile] = await Promise.all([
+    getJobUsage(
+      { deviceId: subject.deviceId, clientIp: subject.clientIp },
+      window.start,
+      activeSince
+    ),
+    subject.profileId
+      ? getJobUsage({ profileId: subject.profileId }, window.start, activeSince)
+      : null,
+  ]);
+
+  return {
+    windowStart: window.start,
+    resetAt: window.resetAt,
+    limits: getQuotaLimits(),
+    device,
+    profile,
+  };
+}
+
+/**
+ * Find the first quota the requested usage would exceed
+ */
+function findViolation(
+  report: QuotaUsageReport,
+  requested: { publishes: number; bytes: number }
+): QuotaViolation | null {
+  const scopes: Array<[QuotaScope, JobUsage | null]> = [
+    ['device', report.device],
+    ['profile', report.profile],
+  ];
+
+  for (const [scope, usage] of scopes) {
+    if (!usage) {
+      continue;
+    }
+
+    const checks: Array<[QuotaName, number, number, string | null]> = [
+      ['publishesPerDay', usage.publishes, requested.publishes, report.resetAt],
+      ['concurrentJobs', usage.inFlight, requested.publishes, null],
+      ['bytesPerDay', usage.uploadedBytes, requested.bytes, report.resetAt],
+    ];
+
+    for (const [quota, used, amount, resetAt] of checks) {
+      const limit = report.limits[quota];
+      if (limit !== null && amount > 0 && used + amount > limit) {
+        return { quota, scope, limit, used, resetAt };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a new publish of the given declared size is allowed
+ */
+export async function checkPublishQuota(
+  subject: QuotaSubject,
+  bundleSize: number
+): Promise<QuotaViolation | null> {
+  const report = await getQuotaUsage(subject);
+  return findViolation(report, { publishes: 1, bytes: bundleSize });
+}
+
+/**
+ * Check whether an upload of the given size is allowed.
+ * The job being uploaded to is already counted as a publish.
+ */
+export async function checkUploadQuota(
+  subject: QuotaSubject,
+  uploadedBytes: number
+): Promise<QuotaViolation | null> {
+  const report = await getQuotaUsage(subject);
+  return findViolation(report, { publishes: 0, bytes: uploadedBytes });
+}
+
+/**
+ * Build the 429 response for an exceeded quota
+ */
+export function quotaExceededResponse(violation: QuotaViolation): NextResponse {
+  const headers: Record<string, string> = {};
+  let message = `${QUOTA_DESCRIPTIONS[violation.quota]} reached for this ${violation.scope}`;
+
+  if (violation.resetAt) {
+    const retryAfter = Math.max(
+      1,
+      Math.ceil((new Date(violation.resetAt).getTime() - Date.now()) / 1000)
+    );
+    headers['Retry-After'] = String(retryAfter);
+    message += `. Resets at ${violation.resetAt}.`;
+  } else {
+    message += '. Wait for an in-flight publish to finish.';
+  }
+
+  return NextResponse.json(
+    {
+      error: 'QuotaExceeded',
+      message,
+      quota: violation.quota,
+      scope: violation.scope,
+      limit: violation.limit,
+      used: violation.used,
+      resetAt: violation.resetAt,
+    },
+    { status: 429, headers }
+  );
+}
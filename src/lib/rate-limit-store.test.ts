@@ -0,0 +1,255 @@
+/**
+ * Rate Limit Store Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { NextRequest } from 'next/server';
+import {
+  applyAuthFailure,
+  createInMemoryRateLimitStore,
+  createSupabaseRateLimitStore,
+  refillTokens,
+  type RateLimitStore,
+} from './rate-limit-store';
+
+// Fake Supabase client backed by shared tables, emulating the rate_limit_consume()
+// and nonce_claim() functions from 007_create_rate_limit_buckets.sql and
+// 015_create_request_nonces.sql
+function createFakeSupabase(): SupabaseClient {
+  const rows = new Map<string, { tokens: number; updated_at: string }>();
+  const nonces = new Map<string, number>();
+
+  return {
+    rpc: async (
+      fn: string,
+      args: {
+        p_key: string;
+        p_cost: number;
+        p_capacity: number;
+        p_refill_per_second: number;
+        p_ttl_ms: number;
+      }
+    ) => {
+      const now = Date.now();
+
+      if (fn === 'nonce_claim') {
+        const expiresAt = nonces.get(args.p_key);
+        if (expiresAt !== undefined && expiresAt > now) {
+          return { data: false, error: null };
+        }
+        nonces.set(args.p_key, now + args.p_ttl_ms);
+        return { data: true, error: null };
+      }
+
+      const row = rows.get(args.p_key);
+      let tokens = row
+        ? refillTokens(row.tokens, new Date(row.updated_at).getTime(), {
+            capacity: args.p_capacity,
+            refillPerSecond: args.p_refill_per_second,
+          })
+        : args.p_capacity;
+
+      const allowed = tokens >= args.p_cost;
+      if (allowed) {
+        tokens -= args.p_cost;
+      }
+      rows.set(args.p_key, { tokens, updated_at: new Date(now).toISOString() });
+
+      return { data: [{ allowed, remaining: tokens }], error: null };
+    },
+    from: () => ({
+      select: () => ({
+        eq: (_column: string, key: string) => ({
+          maybeSingle: async () => ({ data: rows.get(key) || null, error: null }),
+        }),
+      }),
+    }),
+  } as unknown as SupabaseClient;
+}
+
+function createMockRequest(ip: string): NextRequest {
+  const headers = new Headers();
+  headers.set('x-forwarded-for', ip);
+
+  return {
+    headers,
+    nextUrl: new URL('http://localhost/api/test'),
+  } as unknown as NextRequest;
+}
+
+const bucket = { capacity: 10, refillPerSecond: 1 };
+
+function describeStore(name: string, createStore: () => RateLimitStore) {
+  describe(name, () => {
+    let store: RateLimitStore;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      store = createStore();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('starts with a full bucket', async () => {
+      expect(await store.peek('ip:10.0.0.1', bucket)).toBe(10);
+    });
+
+    it('takes the cost from the bucket', async () => {
+      expect(await store.consume('ip:10.0.0.1', 4, bucket)).toEqual({
+        allowed: true,
+        remaining: 6,
+      });
+      expect(await store.peek('ip:10.0.0.1', bucket)).toBe(6);
+    });
+
+    it('rejects without taking tokens when the cost exceeds what is left', async () => {
+      await store.consume('ip:10.0.0.1', 8, bucket);
+
+      expect(await store.consume('ip:10.0.0.1', 3, bucket)).toEqual({
+        allowed: false,
+        remaining: 2,
+      });
+      expect((await store.consume('ip:10.0.0.1', 2, bucket)).allowed).toBe(true);
+    });
+
+    it('refills over time up to capacity', async () => {
+      await store.consume('ip:10.0.0.1', 10, bucket);
+      vi.advanceTimersByTime(3000);
+      expect(await store.peek('ip:10.0.0.1', bucket)).toBe(3);
+
+      vi.advanceTimersByTime(60000);
+      expect(await store.peek('ip:10.0.0.1', bucket)).toBe(10);
+    });
+
+    it('tracks keys independently', async () => {
+      await store.consume('ip:10.0.0.1', 10, bucket);
+      expect(await store.peek('ip:10.0.0.2', bucket)).toBe(10);
+    });
+
+    it('remembers nonces until they expire', async () => {
+      expect(await store.claimNonce('device-1:nonce-a', 1000)).toBe(true);
+      expect(await store.claimNonce('device-1:nonce-a', 1000)).toBe(false);
+      expect(await store.claimNonce('device-2:nonce-a', 1000)).toBe(true);
+
+      vi.advanceTimersByTime(1001);
+      expect(await store.claimNonce('device-1:nonce-a', 1000)).toBe(true);
+    });
+  });
+}
+
+describe('rate-limit-store', () => {
+  describeStore('memory', createInMemoryRateLimitStore);
+
+  describeStore('supabase', () => createSupabaseRateLimitStore(createFakeSupabase()));
+
+  describe('refillTokens', () => {
+    it('adds tokens for the elapsed time', () => {
+      expect(refillTokens(2, 0, bucket, 5000)).toBe(7);
+    });
+
+    it('never exceeds capacity', () => {
+      expect(refillTokens(2, 0, bucket, 60000)).toBe(10);
+    });
+
+    it('ignores clock skew into the future', () => {
+      expect(refillTokens(2, 5000, bucket, 0)).toBe(2);
+    });
+  });
+
+  describe('applyAuthFailure', () => {
+    const policy = { threshold: 3, windowMs: 1000, baseLockoutMs: 100, maxLockoutMs: 250 };
+
+    it('locks out at the threshold and starts counting again', () => {
+      let entry = applyAuthFailure(undefined, 'ip:10.0.0.1', policy, 0);
+      entry = applyAuthFailure(entry, 'ip:10.0.0.1', policy, 10);
+      expect(entry).toMatchObject({ failures: 2, lockedUntil: 0, lockouts: 0 });
+
+      entry = applyAuthFailure(entry, 'ip:10.0.0.1', policy, 20);
+      expect(entry).toEqual({
+        key: 'ip:10.0.0.1',
+        failures: 0,
+        windowStart: 20,
+        lockedUntil: 120,
+        lockouts: 1,
+      });
+    });
+
+    it('doubles repeat lockouts up to the maximum', () => {
+      const locked = { key: 'k', failures: 2, windowStart: 0, lockedUntil: 0, lockouts: 2 };
+      expect(applyAuthFailure(locked, 'k', policy, 10).lockedUntil).toBe(260);
+    });
+
+    it('starts a new window once the old one has passed', () => {
+      const old = { key: 'k', failures: 2, windowStart: 0, lockedUntil: 50, lockouts: 1 };
+      expect(applyAuthFailure(old, 'k', policy, 2000)).toEqual({
+        key: 'k',
+        failures: 1,
+        windowStart: 2000,
+        lockedUntil: 50,
+        lockouts: 1,
+      });
+    });
+  });
+
+  describe('two instances on the supabase backend', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      process.env.RATE_LIMIT_BACKEND = 'supabase';
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.doUnmock('./supabase');
+      vi.resetModules();
+      delete process.env.RATE_LIMIT_BACKEND;
+    });
+
+    it('share one limit', async () => {
+      const db = createFakeSupabase();
+      vi.doMock('./supabase', () => ({
+        isSupabaseConfigured: () => true,
+        getSupabaseClient: () => db,
+      }));
+
+      // Each import is a separate module instance, like two serverless instances
+      vi.resetModules();
+      const instanceA = await import('./rate-limit');
+      vi.resetModules();
+      const instanceB = await import('./rate-limit');
+      expect(instanceA).not.toBe(instanceB);
+
+      const request = createMockRequest('192.168.1.10');
+
+      for (let i = 0; i < 30; i++) {
+        expect(await instanceA.checkRateLimit(request)).toBeNull();
+        expect(await instanceB.checkRateLimit(request)).toBeNull();
+      }
+
+      // 61st request overall is blocked, whichever instance handles it
+      expect((await instanceA.checkRateLimit(request))?.status).toBe(429);
+      expect((await instanceB.checkRateLimit(request))?.status).toBe(429);
+      expect((await instanceB.getRateLimitStatus(request)).remaining).toBe(0);
+    });
+
+    it('do not share a limit on the memory backend', async () => {
+      process.env.RATE_LIMIT_BACKEND = 'memory';
+
+      vi.resetModules();
+      const instanceA = await import('./rate-limit');
+      vi.resetModules();
+      const instanceB = await import('./rate-limit');
+
+      const request = createMockRequest('192.168.1.11');
+
+      for (let i = 0; i < 60; i++) {
+        await instanceA.checkRateLimit(request);
+      }
+
+      expect(await instanceA.checkRateLimit(request)).not.toBeNull();
+      expect(await instanceB.checkRateLimit(request)).toBeNull();
+    });
+  });
+});
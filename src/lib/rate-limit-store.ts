@@ -0,0 +1,436 @@
+/**
+ * Rate Limit Stores
+ *
+ * Backends for the rate limiter's token buckets, and for the signed
+ * request nonces and auth lockouts that have to be shared the same way:
+ * - memory: per-instance Map (local dev, single instance)
+ * - supabase: shared Postgres tables, updated atomically by the
+ *   rate_limit_consume(), nonce_claim() and auth_lockout_record_failure()
+ *   functions, so every instance sees the same state
+ *
+ * RATE_LIMIT_BACKEND picks the backend. The store lives here rather than in
+ * rate-limit so auth, signing and lockout can share it without importing
+ * the rate limiter, which itself depends on auth.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseClient, isSupabaseConfigured } from './supabase';
+
+/**
+ * Size and refill rate of a token bucket
+ */
+export interface RateLimitBucketConfig {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+/**
+ * Outcome of trying to take tokens from a bucket
+ */
+export interface RateLimitConsumeResult {
+  allowed: boolean;
+  /** Tokens left in the bucket after this request */
+  remaining: number;
+}
+
+/**
+ * When repeated auth failures lock a key out
+ */
+export interface LockoutPolicy {
+  /** Failures within the window that trigger a lockout */
+  threshold: number;
+  windowMs: number;
+  /** First lockout, doubled on each repeat */
+  baseLockoutMs: number;
+  maxLockoutMs: number;
+}
+
+/**
+ * Failed auth attempts recorded for one lockout key (times in ms)
+ */
+export interface LockoutEntry {
+  key: string;
+  failures: number;
+  windowStart: number;
+  /** 0 if the key has never been locked out */
+  lockedUntil: number;
+  /** Number of lockouts so far, drives the exponential backoff */
+  lockouts: number;
+}
+
+/**
+ * Storage backend for rate limit buckets, nonces and auth lockouts
+ */
+export interface RateLimitStore {
+  /** Refill the bucket, then take `cost` tokens if there are enough */
+  consume(
+    key: string,
+    cost: number,
+    config: RateLimitBucketConfig
+  ): Promise<RateLimitConsumeResult>;
+  /** Read the tokens currently available without taking any */
+  peek(key: string, config: RateLimitBucketConfig): Promise<number>;
+  /** Remember a nonce for ttlMs; false if it is already remembered */
+  claimNonce(key: string, ttlMs: number): Promise<boolean>;
+  /** Count a failed auth attempt, locking the key out when it reaches the threshold */
+  recordAuthFailure(key: string, policy: LockoutPolicy): Promise<LockoutEntry>;
+  /** Forget a key's failures, unless it is locked out */
+  resetAuthFailures(key: string): Promise<void>;
+  /** Read the lockout entries that exist for the given keys */
+  getLockouts(keys: string[]): Promise<LockoutEntry[]>;
+  /** Read every lockout entry */
+  listLockouts(): Promise<LockoutEntry[]>;
+  /** Delete the given lockout entries, or all of them; returns how many were deleted */
+  clearLockouts(keys?: string[]): Promise<number>;
+}
+
+export type RateLimitBackend = 'memory' | 'supabase';
+
+let rateLimitStore: RateLimitStore | null = null;
+
+/**
+ * Refill a bucket for the time elapsed since it was last updated
+ */
+export function refillTokens(
+  tokens: number,
+  updatedAt: number,
+  config: RateLimitBucketConfig,
+  now: number = Date.now()
+): number {
+  const elapsedSeconds = Math.max(0, now - updatedAt) / 1000;
+  return Math.min(config.capacity, tokens + elapsedSeconds * config.refillPerSecond);
+}
+
+/**
+ * Count one more failure against a lockout entry
+ */
+export function applyAuthFailure(
+  entry: LockoutEntry | undefined,
+  key: string,
+  policy: LockoutPolicy,
+  now: number = Date.now()
+): LockoutEntry {
+  const next: LockoutEntry =
+    entry && entry.windowStart + policy.windowMs >= now
+      ? { ...entry }
+      : {
+          key,
+          failures: 0,
+          windowStart: now,
+          lockedUntil: entry?.lockedUntil || 0,
+          lockouts: entry?.lockouts || 0,
+        };
+
+  next.failures++;
+
+  if (next.failures >= policy.threshold) {
+    next.lockedUntil =
+      now + Math.min(policy.baseLockoutMs * 2 ** next.lockouts, policy.maxLockoutMs);
+    next.lockouts++;
+    next.failures = 0;
+    next.windowStart = now;
+  }
+
+  return next;
+}
+
+interface BucketEntry {
+  tokens: number;
+  updatedAt: number;
+  /** When the bucket will be full again and can be forgotten */
+  fullAt: number;
+}
+
+/**
+ * Create an in-memory store. Buckets are not shared between instances.
+ */
+export function createInMemoryRateLimitStore(): RateLimitStore {
+  const entries = new Map<string, BucketEntry>();
+  // Nonce key -> when it may be used again
+  const nonces = new Map<string, number>();
+  const lockouts = new Map<string, LockoutEntry>();
+  // Lockout entries are kept until their window, lockout and backoff history have all expired
+  let lockoutRetentionMs = 0;
+
+  // Clean up full buckets (a missing bucket is a full one) and expired nonces every minute
+  if (typeof setInterval !== 'undefined') {
+    const interval = setInterval(() => {
+      const now = Date.now();
+      for (const [key, entry] of entries.entries()) {
+        if (entry.fullAt < now) {
+          entries.delete(key);
+        }
+      }
+      for (const [key, expiresAt] of nonces.entries()) {
+        if (expiresAt < now) {
+          nonces.delete(key);
+        }
+      }
+      for (const [key, entry] of lockouts.entries()) {
+        if (Math.max(entry.windowStart, entry.lockedUntil) + lockoutRetentionMs < now) {
+          lockouts.delete(key);
+        }
+      }
+    }, 60 * 1000);
+    interval.unref?.();
+  }
+
+  function currentTokens(key: string, config: RateLimitBucketConfig, now: number): number {
+    const entry = entries.get(key);
+    return entry ? refillTokens(entry.tokens, entry.updatedAt, config, now) : config.capacity;
+  }
+
+  return {
+    async consume(key, cost, config) {
+      const now = Date.now();
+      let tokens = currentTokens(key, config, now);
+      const allowed = tokens >= cost;
+
+      if (allowed) {
+        tokens -= cost;
+      }
+
+      entries.set(key, {
+        tokens,
+        updatedAt: now,
+        fullAt: now + ((config.capacity - tokens) / config.refillPerSecond) * 1000,
+      });
+
+      return { allowed, remaining: tokens };
+    },
+
+    async peek(key, config) {
+      return currentTokens(key, config, Date.now());
+    },
+
+    async claimNonce(key, ttlMs) {
+      const now = Date.now();
+      const expiresAt = nonces.get(key);
+
+      if (expiresAt !== undefined && expiresAt > now) {
+        return false;
+      }
+
+      nonces.set(key, now + ttlMs);
+      return true;
+    },
+
+    async recordAuthFailure(key, policy) {
+      lockoutRetentionMs = Math.max(lockoutRetentionMs, policy.windowMs, policy.maxLockoutMs);
+      const entry = applyAuthFailure(lockouts.get(key), key, policy);
+      lockouts.set(key, entry);
+      return { ...entry };
+    },
+
+    async resetAuthFailures(key) {
+      const entry = lockouts.get(key);
+      if (entry && entry.lockedUntil <= Date.now()) {
+        lockouts.delete(key);
+      }
+    },
+
+    async getLockouts(keys) {
+      return keys.flatMap((key) => {
+        const entry = lockouts.get(key);
+        return entry ? [{ ...entry }] : [];
+      });
+    },
+
+    async listLockouts() {
+      return Array.from(lockouts.values(), (entry) => ({ ...entry }));
+    },
+
+    async clearLockouts(keys) {
+      if (keys === undefined) {
+        const count = lockouts.size;
+        lockouts.clear();
+        return count;
+      }
+      return keys.filter((key) => lockouts.delete(key)).length;
+    },
+  };
+}
+
+/**
+ * Create a Supabase-backed store shared by all instances.
+ * Requires supabase/migrations/007_create_rate_limit_buckets.sql,
+ * 015_create_request_nonces.sql and 016_create_auth_lockouts.sql.
+ */
+export function createSupabaseRateLimitStore(supabase: SupabaseClient): RateLimitStore {
+  async function selectLockouts(keys?: string[]): Promise<LockoutEntry[]> {
+    let query = supabase.from('auth_lockouts').select('*');
+    if (keys !== undefined) {
+      query = query.in('key', keys);
+    }
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('[rate-limit] Failed to read lockouts:', error);
+      throw new Error(`Failed to read lockouts: ${error.message}`);
+    }
+
+    return ((data || []) as LockoutRow[]).map(toLockoutEntry);
+  }
+
+  return {
+    async consume(key, cost, config) {
+      const { data, error } = await supabase.rpc('rate_limit_consume', {
+        p_key: key,
+        p_cost: cost,
+        p_capacity: config.capacity,
+        p_refill_per_second: config.refillPerSecond,
+      });
+
+      if (error) {
+        console.error('[rate-limit] Failed to consume tokens:', error);
+        throw new Error(`Failed to consume rate limit tokens: ${error.message}`);
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      return { allowed: row.allowed, remaining: row.remaining };
+    },
+
+    async peek(key, config) {
+      const { data, error } = await supabase
+        .from('rate_limit_buckets')
+        .select('tokens, updated_at')
+        .eq('key', key)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[rate-limit] Failed to read bucket:', error);
+        throw new Error(`Failed to read rate limit bucket: ${error.message}`);
+      }
+
+      if (!data) {
+        return config.capacity;
+      }
+
+      return refillTokens(data.tokens, new Date(data.updated_at).getTime(), config);
+    },
+
+    async claimNonce(key, ttlMs) {
+      const { data, error } = await supabase.rpc('nonce_claim', {
+        p_key: key,
+        p_ttl_ms: ttlMs,
+      });
+
+      if (error) {
+        console.error('[rate-limit] Failed to claim nonce:', error);
+        throw new Error(`Failed to claim nonce: ${error.message}`);
+      }
+
+      return data === true;
+    },
+
+    async recordAuthFailure(key, policy) {
+      const { data, error } = await supabase.rpc('auth_lockout_record_failure', {
+        p_key: key,
+        p_threshold: policy.threshold,
+        p_window_ms: policy.windowMs,
+        p_base_lockout_ms: policy.baseLockoutMs,
+        p_max_lockout_ms: policy.maxLockoutMs,
+      });
+
+      if (error) {
+        console.error('[rate-limit] Failed to record auth failure:', error);
+        throw new Error(`Failed to record auth failure: ${error.message}`);
+      }
+
+      return toLockoutEntry(Array.isArray(data) ? data[0] : data);
+    },
+
+    async resetAuthFailures(key) {
+      const { error } = await supabase
+        .from('auth_lockouts')
+        .delete()
+        .eq('key', key)
+        .or(`locked_until.is.null,locked_until.lte.${new Date().toISOString()}`);
+
+      if (error) {
+        console.error('[rate-limit] Failed to reset auth failures:', error);
+        throw new Error(`Failed to reset auth failures: ${error.message}`);
+      }
+    },
+
+    async getLockouts(keys) {
+      return keys.length > 0 ? selectLockouts(keys) : [];
+    },
+
+    async listLockouts() {
+      return selectLockouts();
+    },
+
+    async clearLockouts(keys) {
+      let query = supabase.from('auth_lockouts').delete({ count: 'exact' });
+      // PostgREST refuses deletes without a filter
+      query = keys === undefined ? query.not('key', 'is', null) : query.in('key', keys);
+      const { count, error } = await query;
+
+      if (error) {
+        console.error('[rate-limit] Failed to clear lockouts:', error);
+        throw new Error(`Failed to clear lockouts: ${error.message}`);
+      }
+
+      return count || 0;
+    },
+  };
+}
+
+/**
+ * Get the configured rate limit backend
+ */
+export function getRateLimitBackend(): RateLimitBackend {
+  const backend = process.env.RATE_LIMIT_BACKEND || 'memory';
+
+  if (backend === 'supabase') {
+    if (isSupabaseConfigured()) {
+      return 'supabase';
+    }
+    console.warn(
+      '[rate-limit] RATE_LIMIT_BACKEND=supabase but Supabase not configured, using memory'
+    );
+  } else if (backend !== 'memory') {
+    console.warn(`[rate-limit] Unknown RATE_LIMIT_BACKEND "${backend}", using memory`);
+  }
+
+  return 'memory';
+}
+
+/**
+ * Get the rate limit store (created on first use)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!rateLimitStore) {
+    rateLimitStore =
+      getRateLimitBackend() === 'supabase'
+        ? createSupabaseRateLimitStore(getSupabaseClient())
+        : createInMemoryRateLimitStore();
+  }
+  return rateLimitStore;
+}
+
+/**
+ * Drop the store, so the next use creates a fresh one (for testing)
+ */
+export function resetRateLimitStoreForTesting(): void {
+  rateLimitStore = null;
+}
+
+interface LockoutRow {
+  key: string;
+  failures: number;
+  window_start: string;
+  locked_until: string | null;
+  lockouts: number;
+}
+
+function toLockoutEntry(row: LockoutRow): LockoutEntry {
+  return {
+    key: row.key,
+    failures: row.failures,
+    windowStart: new Date(row.window_start).getTime(),
+    lockedUntil: row.locked_until ? new Date(row.locked_until).getTime() : 0,
+    lockouts: row.lockouts,
+  };
+}
@@ -3,8 +3,32 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { NextRequest } from 'next/server';
-import { checkRateLimit, resetRateLimitForTesting, getRateLimitStatus } from './rate-limit';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  checkRateLimit,
+  resetRateLimitForTesting,
+  getRateLimitStatus,
+  toRateLimitInfo,
+  applyRateLimitHeaders,
+  withRateLimitHeaders,
+} from './rate-limit';
+import { getAuthenticatedDevice, type AuthenticatedDevice } from './auth';
+
+vi.mock('./auth', () => ({
+  getAuthenticatedDevice: vi.fn(() => null),
+}));
+
+function mockDevice(id: string, source: 'registry' | 'env' = 'registry'): AuthenticatedDevice {
+  return {
+    id,
+    label: 'Test device',
+    profileId: null,
+    source,
+    slot: source === 'env' ? 'current' : 'registry',
+    expiresAt: null,
+    scopes: ['publish:write', 'publish:read', 'publish:cancel'],
+  };
+}
 
 // Mock NextRequest
 function createMockRequest(ip: string = '127.0.0.1'): NextRequest {
@@ -21,83 +45,302 @@ function createMockRequest(ip: string = '127.0.0.1'): NextRequest {
 describe('rate-limit', () => {
   beforeEach(() => {
     resetRateLimitForTesting();
+    vi.mocked(getAuthenticatedDevice).mockReturnValue(null);
     vi.useFakeTimers();
+    // Test requests carry their address in x-forwarded-for
+    process.env.ABBA_TRUSTED_PROXIES = '1';
   });
 
   afterEach(() => {
     vi.useRealTimers();
+    delete process.env.ABBA_TRUSTED_PROXIES;
   });
 
-  it('allows requests under the limit', () => {
+  it('allows requests under the limit', async () => {
     const request = createMockRequest('192.168.1.1');
 
     for (let i = 0; i < 60; i++) {
-      const result = checkRateLimit(request);
+      const result = await checkRateLimit(request);
       expect(result).toBeNull();
     }
   });
 
-  it('blocks requests over the limit', () => {
+  it('blocks requests over the limit', async () => {
     const request = createMockRequest('192.168.1.2');
 
     // Make 60 allowed requests
     for (let i = 0; i < 60; i++) {
-      checkRateLimit(request);
+      await checkRateLimit(request);
     }
 
     // 61st request should be blocked
-    const result = checkRateLimit(request);
+    const result = await checkRateLimit(request);
     expect(result).not.toBeNull();
     expect(result?.status).toBe(429);
   });
 
-  it('resets limit after window expires', () => {
+  it('resets limit after window expires', async () => {
     const request = createMockRequest('192.168.1.3');
 
     // Hit the limit
     for (let i = 0; i < 61; i++) {
-      checkRateLimit(request);
+      await checkRateLimit(request);
     }
 
     // Advance time past the window (1 minute)
     vi.advanceTimersByTime(61000);
 
     // Should be allowed again
-    const result = checkRateLimit(request);
+    const result = await checkRateLimit(request);
     expect(result).toBeNull();
   });
 
-  it('tracks IPs independently', () => {
+  it('tracks IPs independently', async () => {
     const request1 = createMockRequest('10.0.0.1');
     const request2 = createMockRequest('10.0.0.2');
 
     // Exhaust limit for IP 1
     for (let i = 0; i < 61; i++) {
-      checkRateLimit(request1);
+      await checkRateLimit(request1);
     }
 
     // IP 1 should be blocked
-    expect(checkRateLimit(request1)).not.toBeNull();
+    expect(await checkRateLimit(request1)).not.toBeNull();
 
     // IP 2 should still be allowed
-    expect(checkRateLimit(request2)).toBeNull();
+    expect(await checkRateLimit(request2)).toBeNull();
   });
 
-  it('returns correct remaining count', () => {
+  it('returns correct remaining count', async () => {
     const request = createMockRequest('10.0.0.3');
 
-    let status = getRateLimitStatus(request);
+    let status = await getRateLimitStatus(request);
     expect(status.remaining).toBe(60);
 
-    checkRateLimit(request);
-    status = getRateLimitStatus(request);
+    await checkRateLimit(request);
+    status = await getRateLimitStatus(request);
     expect(status.remaining).toBe(59);
 
     for (let i = 0; i < 59; i++) {
-      checkRateLimit(request);
+      await checkRateLimit(request);
     }
 
-    status = getRateLimitStatus(request);
+    status = await getRateLimitStatus(request);
     expect(status.remaining).toBe(0);
   });
+
+  describe('route costs', () => {
+    it('takes the route cost from the bucket', async () => {
+      const request = createMockRequest('10.0.1.1');
+
+      // 3 uploads at cost 20 use up the default bucket
+      for (let i = 0; i < 3; i++) {
+        expect(await checkRateLimit(request, { cost: 20 })).toBeNull();
+      }
+
+      expect((await getRateLimitStatus(request)).remaining).toBe(0);
+      expect((await checkRateLimit(request, { cost: 20 }))?.status).toBe(429);
+    });
+
+    it('allows cheaper requests when an expensive one is rejected', async () => {
+      const request = createMockRequest('10.0.1.2');
+
+      await checkRateLimit(request, { cost: 50 });
+
+      expect(await checkRateLimit(request, { cost: 20 })).not.toBeNull();
+      expect(await checkRateLimit(request, { cost: 5 })).toBeNull();
+    });
+
+    it('sets Retry-After to the time until the cost is refilled', async () => {
+      const request = createMockRequest('10.0.1.3');
+
+      await checkRateLimit(request, { cost: 55 });
+      const result = await checkRateLimit(request, { cost: 20 });
+
+      expect(result?.headers.get('Retry-After')).toBe('15');
+    });
+
+    it('refills gradually', async () => {
+      const request = createMockRequest('10.0.1.4');
+
+      for (let i = 0; i < 3; i++) {
+        await checkRateLimit(request, { cost: 20 });
+      }
+
+      vi.advanceTimersByTime(10000);
+      expect(await checkRateLimit(request, { cost: 20 })).not.toBeNull();
+
+      vi.advanceTimersByTime(10000);
+      expect(await checkRateLimit(request, { cost: 20 })).toBeNull();
+    });
+  });
+
+  describe('buckets', () => {
+    it('keeps polling separate from the default bucket', async () => {
+      const request = createMockRequest('10.0.2.1');
+
+      for (let i = 0; i < 3; i++) {
+        await checkRateLimit(request, { cost: 20 });
+      }
+      expect(await checkRateLimit(request, { cost: 20 })).not.toBeNull();
+
+      // Status polls still go through
+      expect(await checkRateLimit(request, { bucket: 'polling' })).toBeNull();
+    });
+
+    it('does not let polling starve uploads', async () => {
+      const request = createMockRequest('10.0.2.2');
+
+      for (let i = 0; i < 200; i++) {
+        await checkRateLimit(request, { bucket: 'polling' });
+      }
+      expect(await checkRateLimit(request, { bucket: 'polling' })).not.toBeNull();
+
+      expect(await checkRateLimit(request, { cost: 20 })).toBeNull();
+    });
+
+    it('reports status per bucket', async () => {
+      const request = createMockRequest('10.0.2.3');
+
+      await checkRateLimit(request, { bucket: 'polling' });
+
+      expect((await getRateLimitStatus(request, { bucket: 'polling' })).remaining).toBe(119);
+      expect((await getRateLimitStatus(request)).remaining).toBe(60);
+    });
+  });
+
+  describe('keys', () => {
+    it('keys by authenticated device instead of IP', async () => {
+      vi.mocked(getAuthenticatedDevice).mockReturnValue(mockDevice('device-a'));
+
+      // Same device from two addresses shares one bucket
+      for (let i = 0; i < 3; i++) {
+        await checkRateLimit(createMockRequest(`10.0.3.${i}`), { cost: 20 });
+      }
+      expect(await checkRateLimit(createMockRequest('10.0.3.9'), { cost: 20 })).not.toBeNull();
+    });
+
+    it('gives devices behind one IP their own buckets', async () => {
+      const request = createMockRequest('10.0.3.20');
+
+      vi.mocked(getAuthenticatedDevice).mockReturnValue(mockDevice('device-a'));
+      for (let i = 0; i < 3; i++) {
+        await checkRateLimit(request, { cost: 20 });
+      }
+      expect(await checkRateLimit(request, { cost: 20 })).not.toBeNull();
+
+      vi.mocked(getAuthenticatedDevice).mockReturnValue(mockDevice('device-b'));
+      expect(await checkRateLimit(request, { cost: 20 })).toBeNull();
+    });
+
+    it('gives each IP on the shared device token its own bucket', async () => {
+      vi.mocked(getAuthenticatedDevice).mockReturnValue(mockDevice('env', 'env'));
+
+      for (let i = 0; i < 3; i++) {
+        await checkRateLimit(createMockRequest('10.0.3.40'), { cost: 20 });
+      }
+      expect(await checkRateLimit(createMockRequest('10.0.3.40'), { cost: 20 })).not.toBeNull();
+      expect(await checkRateLimit(createMockRequest('10.0.3.41'), { cost: 20 })).toBeNull();
+    });
+
+    it('falls back to IP for unauthenticated requests', async () => {
+      const request = createMockRequest('10.0.3.30');
+
+      vi.mocked(getAuthenticatedDevice).mockReturnValue(mockDevice('device-a'));
+      for (let i = 0; i < 3; i++) {
+        await checkRateLimit(request, { cost: 20 });
+      }
+
+      vi.mocked(getAuthenticatedDevice).mockReturnValue(null);
+      expect(await checkRateLimit(request, { cost: 20 })).toBeNull();
+    });
+  });
+
+  describe('RateLimit headers', () => {
+    it('describes a bucket', () => {
+      expect(toRateLimitInfo({ capacity: 60, refillPerSecond: 1 }, 42.5)).toEqual({
+        limit: 60,
+        remaining: 42,
+        reset: 18,
+        policy: '60;w=60',
+      });
+      expect(toRateLimitInfo({ capacity: 120, refillPerSecond: 2 }, 120).policy).toBe('120;w=60');
+    });
+
+    it('reports the route check on success responses', async () => {
+      const request = createMockRequest('10.0.4.1');
+      await checkRateLimit(request, { cost: 5 });
+
+      const response = await applyRateLimitHeaders(request, NextResponse.json({ ok: true }));
+
+      expect(response.headers.get('RateLimit-Limit')).toBe('60');
+      expect(response.headers.get('RateLimit-Remaining')).toBe('55');
+      expect(response.headers.get('RateLimit-Reset')).toBe('5');
+      expect(response.headers.get('RateLimit-Policy')).toBe('60;w=60');
+    });
+
+    it('reports the polling bucket for polling routes', async () => {
+      const request = createMockRequest('10.0.4.2');
+      await checkRateLimit(request, { bucket: 'polling' });
+
+      const response = await applyRateLimitHeaders(request, NextResponse.json({ ok: true }));
+
+      expect(response.headers.get('RateLimit-Limit')).toBe('120');
+      expect(response.headers.get('RateLimit-Remaining')).toBe('119');
+    });
+
+    it('reports the default bucket for requests rejected before the check', async () => {
+      const request = createMockRequest('10.0.4.3');
+      await checkRateLimit(createMockRequest('10.0.4.3'), { cost: 10 });
+
+      const response = await applyRateLimitHeaders(
+        request,
+        NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      );
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get('RateLimit-Remaining')).toBe('50');
+    });
+
+    it('includes headers and body data on 429 responses', async () => {
+      const request = createMockRequest('10.0.4.4');
+      await checkRateLimit(request, { cost: 50 });
+
+      const result = await checkRateLimit(request, { cost: 20 });
+      const body = await result?.json();
+
+      expect(result?.headers.get('RateLimit-Remaining')).toBe('10');
+      expect(result?.headers.get('RateLimit-Policy')).toBe('60;w=60');
+      expect(body.rateLimit).toEqual({ limit: 60, remaining: 10, reset: 50, policy: '60;w=60' });
+    });
+
+    it('wraps route handlers', async () => {
+      const handler = withRateLimitHeaders(async (request: NextRequest) => {
+        const rateLimitError = await checkRateLimit(request, { cost: 20 });
+        if (rateLimitError) return rateLimitError;
+        return NextResponse.json({ ok: true });
+      });
+
+      const response = await handler(createMockRequest('10.0.4.5'));
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('RateLimit-Remaining')).toBe('40');
+    });
+
+    it('turns thrown errors into a 500 with headers', async () => {
+      const handler = withRateLimitHeaders(async (request: NextRequest) => {
+        await checkRateLimit(request, { cost: 5 });
+        throw new Error('Store unavailable');
+      });
+
+      const response = await handler(createMockRequest('10.0.4.6'));
+
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({
+        error: 'Internal server error',
+        message: 'Store unavailable',
+      });
+      expect(response.headers.get('RateLimit-Remaining')).toBe('55');
+    });
+  });
 });
@@ -1,92 +1,143 @@
 /**
  * Rate Limiting
  *
- * Simple in-memory rate limiter per IP address.
- * For MVP - consider Redis for production multi-instance deployment.
+ * Token-bucket rate limiter. Each route takes a cost from a named bucket;
+ * cheap polling routes draw from their own bucket so they can't starve
+ * uploads. Buckets are keyed by the authenticated device, falling back to
+ * the client IP for unauthenticated routes, so routes should check auth
+ * before the rate limit. Clients of the shared ABBA_DEVICE_TOKEN are one
+ * device to auth, so they are keyed by IP as well.
+ *
+ * Every response reports the caller's bucket in RateLimit-* headers (IETF
+ * draft) so clients can pace themselves; routes opt in by wrapping their
+ * handlers with withRateLimitHeaders.
+ *
+ * Buckets live in a pluggable store chosen by RATE_LIMIT_BACKEND:
+ * 'memory' (default, per instance) or 'supabase' (shared across instances).
+ * Signed request nonces are kept in the same store.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedDevice } from './auth';
+import { getClientIp } from './client-ip';
+import {
+  getRateLimitStore,
+  resetRateLimitStoreForTesting,
+  type RateLimitBucketConfig,
+} from './rate-limit-store';
 
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-}
+// Configuration
+export const RATE_LIMIT_BUCKETS = {
+  // 60 tokens, refilled at 1/second (60 cheap requests per minute)
+  default: { capacity: 60, refillPerSecond: 1 },
+  // Status and pairing polls, kept apart from publish work
+  polling: { capacity: 120, refillPerSecond: 2 },
+} satisfies Record<string, RateLimitBucketConfig>;
 
-const rateLimitStore = new Map<string, RateLimitEntry>();
+export type RateLimitBucketName = keyof typeof RATE_LIMIT_BUCKETS;
 
-// Configuration
-const RATE_LIMIT_WINDOW_MS = 60 * 1000; // 1 minute
-const RATE_LIMIT_MAX_REQUESTS = 60; // 60 requests per minute (generous for polling)
+/**
+ * What a route charges against the rate limit
+ */
+export interface RateLimitOptions {
+  /** Tokens taken per request (default 1) */
+  cost?: number;
+  /** Bucket to take them from (default 'default') */
+  bucket?: RateLimitBucketName;
+}
 
 /**
- * Get client IP from request
+ * Rate limit state reported to clients, following the IETF RateLimit
+ * header fields draft (reset is in seconds, policy is "limit;w=window")
  */
-function getClientIp(request: NextRequest): string {
-  // Check common proxy headers
-  const forwarded = request.headers.get('x-forwarded-for');
-  if (forwarded) {
-    return forwarded.split(',')[0].trim();
-  }
+export interface RateLimitInfo {
+  limit: number;
+  remaining: number;
+  reset: number;
+  policy: string;
+}
 
-  const realIp = request.headers.get('x-real-ip');
-  if (realIp) {
-    return realIp;
-  }
+// Result of each request's rate limit check, reported in its response headers
+const rateLimitResults = new WeakMap<NextRequest, RateLimitInfo>();
 
-  // Fallback - this won't work in production behind a proxy
-  return 'unknown';
+/**
+ * Get the rate limit subject: the authenticated device, else the client IP.
+ * Every install on the shared token is the 'env' device, so each of their
+ * IPs gets its own bucket.
+ */
+export function getRateLimitKey(request: NextRequest): string {
+  const device = getAuthenticatedDevice(request);
+  if (!device) {
+    return `ip:${getClientIp(request)}`;
+  }
+  return device.source === 'env'
+    ? `device:${device.id}:ip:${getClientIp(request)}`
+    : `device:${device.id}`;
 }
 
 /**
- * Clean up expired entries periodically
+ * Describe a bucket's state for clients
  */
-function cleanupExpiredEntries(): void {
-  const now = Date.now();
-  for (const [ip, entry] of rateLimitStore.entries()) {
-    if (entry.resetTime < now) {
-      rateLimitStore.delete(ip);
-    }
-  }
+export function toRateLimitInfo(bucket: RateLimitBucketConfig, tokens: number): RateLimitInfo {
+  const windowSeconds = Math.ceil(bucket.capacity / bucket.refillPerSecond);
+  return {
+    limit: bucket.capacity,
+    remaining: Math.max(0, Math.floor(tokens)),
+    reset: Math.ceil((bucket.capacity - tokens) / bucket.refillPerSecond),
+    policy: `${bucket.capacity};w=${windowSeconds}`,
+  };
 }
 
-// Run cleanup every minute
-if (typeof setInterval !== 'undefined') {
-  setInterval(cleanupExpiredEntries, RATE_LIMIT_WINDOW_MS);
+/**
+ * Build the RateLimit-* response headers
+ */
+export function getRateLimitHeaders(info: RateLimitInfo): Record<string, string> {
+  return {
+    'RateLimit-Limit': String(info.limit),
+    'RateLimit-Remaining': String(info.remaining),
+    'RateLimit-Reset': String(info.reset),
+    'RateLimit-Policy': info.policy,
+  };
 }
 
 /**
- * Check and update rate limit for a request
+ * Take a route's cost from the request's bucket
  * Returns null if allowed, or an error response if rate limited
  */
-export function checkRateLimit(request: NextRequest): NextResponse | null {
-  const ip = getClientIp(request);
-  const now = Date.now();
-
-  let entry = rateLimitStore.get(ip);
-
-  if (!entry || entry.resetTime < now) {
-    // Create new entry or reset expired one
-    entry = {
-      count: 1,
-      resetTime: now + RATE_LIMIT_WINDOW_MS,
-    };
-    rateLimitStore.set(ip, entry);
+export async function checkRateLimit(
+  request: NextRequest,
+  options: RateLimitOptions = {}
+): Promise<NextResponse | null> {
+  const cost = options.cost ?? 1;
+  const bucketName = options.bucket ?? 'default';
+  const bucket = RATE_LIMIT_BUCKETS[bucketName];
+  const key = `${bucketName}:${getRateLimitKey(request)}`;
+
+  let result;
+  try {
+    result = await getRateLimitStore().consume(key, cost, bucket);
+  } catch (error) {
+    // Fail open: a store outage shouldn't take the API down with it
+    console.error('[rate-limit] Store unavailable, allowing request:', error);
     return null;
   }
 
-  entry.count++;
+  const info = toRateLimitInfo(bucket, result.remaining);
+  rateLimitResults.set(request, info);
 
-  if (entry.count > RATE_LIMIT_MAX_REQUESTS) {
-    const retryAfter = Math.ceil((entry.resetTime - now) / 1000);
+  if (!result.allowed) {
+    const retryAfter = Math.ceil((cost - result.remaining) / bucket.refillPerSecond);
     return NextResponse.json(
       {
         error: 'Too Many Requests',
         message: `Rate limit exceeded. Try again in ${retryAfter} seconds.`,
+        rateLimit: info,
       },
       {
         status: 429,
         headers: {
           'Retry-After': String(retryAfter),
+          ...getRateLimitHeaders(info),
         },
       }
     );
@@ -96,26 +147,78 @@ export function checkRateLimit(request: NextRequest): NextResponse | null {
 }
 
 /**
- * Get current rate limit status for testing/debugging
+ * Get current rate limit status for testing/debugging.
+ * resetTime is when the bucket will be full again.
  */
-export function getRateLimitStatus(request: NextRequest): {
+export async function getRateLimitStatus(
+  request: NextRequest,
+  options: Pick<RateLimitOptions, 'bucket'> = {}
+): Promise<{
   remaining: number;
   resetTime: number;
-} {
-  const ip = getClientIp(request);
-  const entry = rateLimitStore.get(ip);
-  const now = Date.now();
-
-  if (!entry || entry.resetTime < now) {
-    return {
-      remaining: RATE_LIMIT_MAX_REQUESTS,
-      resetTime: now + RATE_LIMIT_WINDOW_MS,
-    };
-  }
+}> {
+  const bucketName = options.bucket ?? 'default';
+  const bucket = RATE_LIMIT_BUCKETS[bucketName];
+  const key = `${bucketName}:${getRateLimitKey(request)}`;
+  const tokens = await getRateLimitStore().peek(key, bucket);
 
   return {
-    remaining: Math.max(0, RATE_LIMIT_MAX_REQUESTS - entry.count),
-    resetTime: entry.resetTime,
+    remaining: Math.floor(tokens),
+    resetTime: Date.now() + ((bucket.capacity - tokens) / bucket.refillPerSecond) * 1000,
+  };
+}
+
+/**
+ * Add RateLimit-* headers to a response. Uses the request's rate limit
+ * check if it got that far, otherwise the current state of its default
+ * bucket (e.g. for requests rejected by auth first).
+ */
+export async function applyRateLimitHeaders(
+  request: NextRequest,
+  response: NextResponse
+): Promise<NextResponse> {
+  let info = rateLimitResults.get(request);
+
+  if (!info) {
+    try {
+      const bucket = RATE_LIMIT_BUCKETS.default;
+      const tokens = await getRateLimitStore().peek(`default:${getRateLimitKey(request)}`, bucket);
+      info = toRateLimitInfo(bucket, tokens);
+    } catch (error) {
+      console.error('[rate-limit] Store unavailable, omitting headers:', error);
+      return response;
+    }
+  }
+
+  for (const [name, value] of Object.entries(getRateLimitHeaders(info))) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+/**
+ * Wrap a route handler so every response carries RateLimit-* headers.
+ * Errors the handler throws (e.g. a store failure during auth) become the
+ * usual 500 response, so they get the headers too.
+ */
+export function withRateLimitHeaders<Args extends unknown[]>(
+  handler: (request: NextRequest, ...args: Args) => Promise<NextResponse>
+): (request: NextRequest, ...args: Args) => Promise<NextResponse> {
+  return async (request, ...args) => {
+    let response: NextResponse;
+    try {
+      response = await handler(request, ...args);
+    } catch (error) {
+      console.error(`[rate-limit] Unhandled error in ${request.nextUrl.pathname}:`, error);
+      response = NextResponse.json(
+        {
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+        { status: 500 }
+      );
+    }
+    return applyRateLimitHeaders(request, response);
   };
 }
 
@@ -123,5 +226,5 @@ export function getRateLimitStatus(request: NextRequest): {
  * Reset rate limit for testing
  */
 export function resetRateLimitForTesting(): void {
-  rateLimitStore.clear();
+  resetRateLimitStoreForTesting();
 }
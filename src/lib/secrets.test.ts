@@ -0,0 +1,163 @@
+/**
+ * Secret Scanning Tests
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { getSecretScanPolicy, scanFileForSecrets, scanForSecrets } from './secrets';
+
+// Fake credentials, assembled so the literals never look like real ones
+const AWS_KEY = 'AKIA' + 'IOSFODNN7EXAMPLE';
+const GITHUB_TOKEN = 'ghp_' + 'a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8';
+const STRIPE_KEY = 'sk_' + 'live_' + '4eC39HqLyjWDarjtT1zdp7dc';
+const PRIVATE_KEY = '-----BEGIN ' + 'RSA PRIVATE KEY-----';
+
+function textFile(file: string, data: string) {
+  return { file, data };
+}
+
+describe('secrets', () => {
+  describe('scanFileForSecrets', () => {
+    it('reports the file, line and rule of each match', () => {
+      const findings = scanFileForSecrets(
+        textFile(
+          'js/config.js',
+          ['export default {', `  awsKey: '${AWS_KEY}',`, `  gh: "${GITHUB_TOKEN}",`, '};'].join(
+            '\n'
+          )
+        )
+      );
+
+      expect(findings).toEqual([
+        {
+          file: 'js/config.js',
+          line: 2,
+          rule: 'aws_access_key',
+          description: 'AWS access key ID',
+        },
+        { file: 'js/config.js', line: 3, rule: 'github_token', description: 'GitHub token' },
+      ]);
+    });
+
+    it('never includes the matched text', () => {
+      const findings = scanFileForSecrets(textFile('app.js', `const key = "${STRIPE_KEY}";`));
+
+      expect(findings).toHaveLength(1);
+      expect(JSON.stringify(findings)).not.toContain(STRIPE_KEY);
+    });
+
+    it('detects private keys and service account credentials', () => {
+      expect(scanFileForSecrets(textFile('certs/server.txt', `${PRIVATE_KEY}\nMIIE...`))).toEqual([
+        expect.objectContaining({ line: 1, rule: 'private_key' }),
+      ]);
+      expect(
+        scanFileForSecrets(textFile('gcp.json', '{\n  "type": "service_account",\n}'))[0]
+      ).toMatchObject({ line: 2, rule: 'google_service_account' });
+    });
+
+    it('detects hard-coded credentials in assignments', () => {
+      const findings = scanFileForSecrets(
+        textFile(
+          'config.js',
+          [
+            'const config = {',
+            '  apiKey: "q8Zr2Lw9vX4mN7pK",',
+            "  password: 'hunter2hunter2'",
+            '};',
+          ].join('\n')
+        )
+      );
+
+      expect(findings.map((f) => [f.line, f.rule])).toEqual([
+        [2, 'credential_assignment'],
+        [3, 'credential_assignment'],
+      ]);
+    });
+
+    it('ignores keys that are public by design and ordinary text', () => {
+      const findings = scanFileForSecrets(
+        textFile(
+          'index.html',
+          [
+            '<input type="password" name="password">',
+            '<script>',
+            '  firebase.initializeApp({ apiKey: "AIzaSyDOCAbC123dEf456GhI789jKl012-MnO" });',
+            '  Stripe("pk_live_51HqLyjWDarjtT1zdp7dc");',
+            '  const errors = { password: "Password is too short" };',
+            '</script>',
+          ].join('\n')
+        )
+      );
+
+      expect(findings).toEqual([]);
+    });
+
+    it('flags key files by name wherever they are', () => {
+      const names = [
+        'deploy/id_rsa',
+        'ssl/server.pem',
+        'android/release.keystore',
+        'config/firebase-service-account.json',
+        'service_account_prod.json',
+      ];
+
+      const findings = names.flatMap((name) => scanFileForSecrets(textFile(name, 'x')));
+
+      expect(findings.map((f) => [f.file, f.line])).toEqual(names.map((name) => [name, null]));
+    });
+
+    it('does not flag public keys or ordinary JSON files', () => {
+      expect(scanFileForSecrets(textFile('.ssh/id_rsa.pub', 'ssh-rsa AAAA'))).toEqual([]);
+      expect(scanFileForSecrets(textFile('accounts.json', '[]'))).toEqual([]);
+    });
+
+    it('checks binary files by name only', () => {
+      const data = Buffer.from(`${PRIVATE_KEY}\n`).toString('base64');
+
+      expect(scanFileForSecrets({ file: 'img/logo.png', data, encoding: 'base64' })).toEqual([]);
+      expect(
+        scanFileForSecrets({ file: 'keys/store.p12', data, encoding: 'base64' })[0]
+      ).toMatchObject({ rule: 'private_key_file', line: null });
+    });
+  });
+
+  describe('scanForSecrets', () => {
+    it('scans every file', () => {
+      const findings = scanForSecrets([
+        textFile('index.html', '<h1>Hi</h1>'),
+        textFile('a.js', AWS_KEY),
+        textFile('b.js', STRIPE_KEY),
+      ]);
+
+      expect(findings.map((f) => f.file)).toEqual(['a.js', 'b.js']);
+    });
+
+    it('caps the number of findings', () => {
+      const files = Array.from({ length: 150 }, (_, i) => textFile(`k${i}.pem`, 'x'));
+
+      expect(scanForSecrets(files)).toHaveLength(100);
+    });
+  });
+
+  describe('getSecretScanPolicy', () => {
+    afterEach(() => {
+      delete process.env.ABBA_SECRET_SCAN_POLICY;
+    });
+
+    it('warns by default', () => {
+      expect(getSecretScanPolicy()).toBe('warn');
+    });
+
+    it('reads the policy from the environment', () => {
+      process.env.ABBA_SECRET_SCAN_POLICY = 'Block';
+      expect(getSecretScanPolicy()).toBe('block');
+
+      process.env.ABBA_SECRET_SCAN_POLICY = 'off';
+      expect(getSecretScanPolicy()).toBe('off');
+    });
+
+    it('falls back to warn for unknown values', () => {
+      process.env.ABBA_SECRET_SCAN_POLICY = 'ignore';
+      expect(getSecretScanPolicy()).toBe('warn');
+    });
+  });
+});
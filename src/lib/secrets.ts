@@ -0,0 +1,157 @@
+/**
+ * Secret Scanning
+ *
+ * Checks bundle files for credentials before they are deployed. Content
+ * rules are regexes for common secret formats (in the spirit of
+ * redactSensitiveInfo); file name rules catch key files and service account
+ * credentials wherever they sit in the bundle. Findings name the file, line
+ * and rule, never the matched text.
+ *
+ * ABBA_SECRET_SCAN_POLICY decides what happens to findings:
+ *   block          - fail the publish
+ *   warn (default) - deploy, and attach the findings to the job
+ *   off            - don't scan
+ */
+
+import { readFileText } from './manifest';
+import type { SecretFinding } from './types';
+import type { DeploymentFile } from './vercel';
+
+export type SecretScanPolicy = 'block' | 'warn' | 'off';
+
+const SECRET_SCAN_POLICIES: SecretScanPolicy[] = ['block', 'warn', 'off'];
+
+// Enough to act on, without letting one leaky bundle bloat the job
+const MAX_FINDINGS = 100;
+
+interface SecretRule {
+  id: string;
+  description: string;
+  pattern: RegExp;
+}
+
+// Matched against each line of text files. The generic assignment rule skips
+// keys that are public by design (Google browser keys, Stripe publishable keys).
+const CONTENT_RULES: SecretRule[] = [
+  {
+    id: 'private_key',
+    description: 'Private key',
+    pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/,
+  },
+  {
+    id: 'aws_access_key',
+    description: 'AWS access key ID',
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/,
+  },
+  {
+    id: 'github_token',
+    description: 'GitHub token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{60,})\b/,
+  },
+  {
+    id: 'slack_token',
+    description: 'Slack token',
+    pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/,
+  },
+  {
+    id: 'stripe_secret_key',
+    description: 'Stripe secret key',
+    pattern: /\b(?:sk|rk)_live_[A-Za-z0-9]{16,}/,
+  },
+  {
+    id: 'ai_api_key',
+    description: 'OpenAI or Anthropic API key',
+    pattern: /\bsk-(?:proj-|ant-|svcacct-)?[A-Za-z0-9_-]{40,}/,
+  },
+  {
+    id: 'google_service_account',
+    description: 'Google service account credentials',
+    pattern: /"type"\s*:\s*"service_account"/,
+  },
+  {
+    id: 'credential_assignment',
+    description: 'Hard-coded credential',
+    pattern:
+      /\b(?:api[_-]?key|api[_-]?secret|secret[_-]?key|client[_-]?secret|access[_-]?token|auth[_-]?token|password|passwd)["']?\s*[:=]\s*["'](?!AIza|pk_(?:live|test)_)[^"'\s]{12,}["']/i,
+  },
+];
+
+// Matched against the file's name (its last path segment)
+const FILE_NAME_RULES: SecretRule[] = [
+  {
+    id: 'ssh_private_key_file',
+    description: 'SSH private key file',
+    pattern: /^id_(?:rsa|dsa|ecdsa|ed25519)$/,
+  },
+  {
+    id: 'private_key_file',
+    description: 'Key or certificate store',
+    pattern: /\.(?:pem|key|p12|pfx|jks|keystore)$/i,
+  },
+  {
+    id: 'service_account_file',
+    description: 'Service account credentials file',
+    pattern: /service[-_]?account.*\.json$/i,
+  },
+];
+
+/**
+ * Get the configured policy for bundles with findings (defaults to warn)
+ */
+export function getSecretScanPolicy(): SecretScanPolicy {
+  const value = process.env.ABBA_SECRET_SCAN_POLICY?.trim().toLowerCase();
+  if (!value) {
+    return 'warn';
+  }
+  if (!SECRET_SCAN_POLICIES.includes(value as SecretScanPolicy)) {
+    console.warn(`[secrets] Unknown ABBA_SECRET_SCAN_POLICY "${value}", using warn`);
+    return 'warn';
+  }
+  return value as SecretScanPolicy;
+}
+
+/**
+ * Scan one file. Binary (base64) files are only checked by name.
+ */
+export function scanFileForSecrets(file: DeploymentFile): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+  const name = file.file.split('/').pop() || '';
+
+  for (const rule of FILE_NAME_RULES) {
+    if (rule.pattern.test(name)) {
+      findings.push({ file: file.file, line: null, rule: rule.id, description: rule.description });
+      break;
+    }
+  }
+
+  if (file.encoding === 'base64') {
+    return findings;
+  }
+
+  // One finding per line is enough to point at it
+  const lines = readFileText(file).split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const rule = CONTENT_RULES.find(({ pattern }) => pattern.test(lines[i]));
+    if (rule) {
+      findings.push({ file: file.file, line: i + 1, rule: rule.id, description: rule.description });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Scan the files about to be deployed, up to MAX_FINDINGS findings
+ */
+export function scanForSecrets(files: DeploymentFile[]): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+
+  for (const file of files) {
+    findings.push(...scanFileForSecrets(file));
+    if (findings.length >= MAX_FINDINGS) {
+      return findings.slice(0, MAX_FINDINGS);
+    }
+  }
+
+  return findings;
+}
@@ -0,0 +1,145 @@
+/**
+ * Request Signing Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  buildCanonicalRequest,
+  canonicalQuery,
+  computeSignature,
+  consumeNonce,
+  deriveSigningKey,
+  isTimestampWithinSkew,
+  isValidNonce,
+} from './signing';
+import { hashDeviceToken } from './device-tokens';
+import { resetRateLimitStoreForTesting } from './rate-limit-store';
+
+describe('signing', () => {
+  describe('canonicalQuery', () => {
+    it('sorts parameters by name, then value', () => {
+      const params = new URLSearchParams('b=2&a=z&a=y');
+      expect(canonicalQuery(params)).toBe('a=y&a=z&b=2');
+    });
+
+    it('percent-encodes names and values', () => {
+      const params = new URLSearchParams();
+      params.set('publish id', 'a/b c');
+      expect(canonicalQuery(params)).toBe('publish%20id=a%2Fb%20c');
+    });
+
+    it('returns an empty string without parameters', () => {
+      expect(canonicalQuery(new URLSearchParams())).toBe('');
+    });
+
+    it('sorts by code unit rather than locale order', () => {
+      const params = new URLSearchParams('ab=4&a-b=3&a=2&B=1&a=Z&a=b');
+      expect(canonicalQuery(params)).toBe('B=1&a=2&a=Z&a=b&a-b=3&ab=4');
+    });
+  });
+
+  describe('buildCanonicalRequest', () => {
+    it('joins the parts with newlines and upper-cases the method', () => {
+      const canonical = buildCanonicalRequest({
+        method: 'put',
+        path: '/api/v1/publish/upload',
+        query: 'publishId=abc',
+        timestamp: '1700000000',
+        nonce: 'nonce-0123456789abcdef',
+        bodyHash: 'e3b0c442',
+      });
+
+      expect(canonical).toBe(
+        'PUT\n/api/v1/publish/upload\npublishId=abc\n1700000000\nnonce-0123456789abcdef\ne3b0c442'
+      );
+    });
+  });
+
+  describe('computeSignature', () => {
+    it('produces a hex HMAC-SHA256', () => {
+      expect(computeSignature('key', 'message')).toMatch(/^[a-f0-9]{64}$/);
+    });
+
+    it('depends on the key', () => {
+      expect(computeSignature('key-a', 'message')).not.toBe(computeSignature('key-b', 'message'));
+    });
+  });
+
+  describe('isTimestampWithinSkew', () => {
+    const now = Date.UTC(2026, 0, 1);
+
+    afterEach(() => {
+      delete process.env.ABBA_SIGNATURE_MAX_SKEW_SECONDS;
+    });
+
+    it('accepts timestamps inside the default 5 minute window', () => {
+      expect(isTimestampWithinSkew(String(now / 1000), now)).toBe(true);
+      expect(isTimestampWithinSkew(String(now / 1000 - 299), now)).toBe(true);
+      expect(isTimestampWithinSkew(String(now / 1000 + 299), now)).toBe(true);
+    });
+
+    it('rejects timestamps outside the window', () => {
+      expect(isTimestampWithinSkew(String(now / 1000 - 301), now)).toBe(false);
+      expect(isTimestampWithinSkew(String(now / 1000 + 301), now)).toBe(false);
+    });
+
+    it('honours ABBA_SIGNATURE_MAX_SKEW_SECONDS', () => {
+      process.env.ABBA_SIGNATURE_MAX_SKEW_SECONDS = '30';
+      expect(isTimestampWithinSkew(String(now / 1000 - 31), now)).toBe(false);
+    });
+
+    it('rejects non-numeric timestamps', () => {
+      expect(isTimestampWithinSkew('yesterday', now)).toBe(false);
+      expect(isTimestampWithinSkew('1.5e9', now)).toBe(false);
+    });
+  });
+
+  describe('isValidNonce', () => {
+    it('accepts URL-safe nonces of 16-128 chars', () => {
+      expect(isValidNonce('abcdefghijklmnop')).toBe(true);
+      expect(isValidNonce('A1_-'.repeat(8))).toBe(true);
+    });
+
+    it('rejects short or unsafe nonces', () => {
+      expect(isValidNonce('short')).toBe(false);
+      expect(isValidNonce('has spaces in the nonce')).toBe(false);
+    });
+  });
+
+  describe('deriveSigningKey', () => {
+    it('derives a key that the stored token hash does not reveal', () => {
+      const key = deriveSigningKey('device-token');
+
+      expect(key).toMatch(/^[a-f0-9]{64}$/);
+      expect(key).toBe(deriveSigningKey('device-token'));
+      expect(key).not.toBe(hashDeviceToken('device-token'));
+    });
+  });
+
+  describe('consumeNonce', () => {
+    beforeEach(() => {
+      resetRateLimitStoreForTesting();
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('accepts a nonce once', async () => {
+      expect(await consumeNonce('device-1', 'nonce-0123456789abcdef')).toBe(true);
+      expect(await consumeNonce('device-1', 'nonce-0123456789abcdef')).toBe(false);
+    });
+
+    it('tracks nonces per key', async () => {
+      expect(await consumeNonce('device-1', 'nonce-0123456789abcdef')).toBe(true);
+      expect(await consumeNonce('device-2', 'nonce-0123456789abcdef')).toBe(true);
+    });
+
+    it('forgets nonces after they can no longer pass the skew check', async () => {
+      expect(await consumeNonce('device-1', 'nonce-0123456789abcdef')).toBe(true);
+      vi.advanceTimersByTime(10 * 60 * 1000 + 1);
+      expect(await consumeNonce('device-1', 'nonce-0123456789abcdef')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Request Signing
+ *
+ * Helpers for the optional HMAC-signed request mode. Instead of sending the
+ * device token on every request, the client signs each request with a key
+ * derived from it:
+ *
+ *   key       = hex(hmac_sha256(deviceToken, "abba-signing"))
+ *   canonical = METHOD \n PATH \n QUERY \n TIMESTAMP \n NONCE \n hex(sha256(body))
+ *   signature = hex(hmac_sha256(key, canonical))
+ *
+ * QUERY is the query string with parameters sorted by name, then value.
+ * Clients may also send the body hash in x-abba-content-sha256; uploads
+ * then check the body against it while streaming it, instead of buffering
+ * it to verify the signature.
+ * The key is not the hash the registry looks tokens up by, so read access
+ * to token hashes is not enough to sign requests.
+ * Nonces are remembered in the rate limit store (shared across instances
+ * on the supabase backend) until their timestamp falls out of the allowed
+ * skew window, so a captured request cannot be replayed.
+ */
+
+import crypto from 'crypto';
+import { getRateLimitStore } from './rate-limit-store';
+
+export const SIGNATURE_HEADERS = {
+  keyId: 'x-abba-key-id',
+  timestamp: 'x-abba-timestamp',
+  nonce: 'x-abba-nonce',
+  signature: 'x-abba-signature',
+  /** Optional hex(sha256(body)), so large bodies can be streamed rather than buffered */
+  contentSha256: 'x-abba-content-sha256',
+} as const;
+
+const DEFAULT_MAX_SKEW_SECONDS = 300; // 5 minutes
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+const SIGNING_KEY_CONTEXT = 'abba-signing';
+
+/**
+ * Whether every request must be signed (bearer tokens rejected)
+ */
+export function isSignedRequestRequired(): boolean {
+  return process.env.ABBA_REQUIRE_SIGNED_REQUESTS === 'true';
+}
+
+/**
+ * Maximum allowed difference between client and server clocks
+ */
+export function getMaxClockSkewSeconds(): number {
+  const configured = Number(process.env.ABBA_SIGNATURE_MAX_SKEW_SECONDS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_SKEW_SECONDS;
+}
+
+/**
+ * Derive the signing key for a device token
+ */
+export function deriveSigningKey(token: string): string {
+  return crypto.createHmac('sha256', token).update(SIGNING_KEY_CONTEXT).digest('hex');
+}
+
+/**
+ * Compare strings by code unit, the same in every language and locale
+ */
+function compareCodeUnits(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Build the sorted, encoded query string used in the canonical request
+ */
+export function canonicalQuery(searchParams: URLSearchParams): string {
+  return Array.from(searchParams.entries())
+    .sort(([aKey, aValue], [bKey, bValue]) =>
+      aKey === bKey ? compareCodeUnits(aValue, bValue) : compareCodeUnits(aKey, bKey)
+    )
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+}
+
+/**
+ * Build the canonical request string that gets signed
+ */
+export function buildCanonicalRequest(params: {
+  method: string;
+  path: string;
+  query: string;
+  timestamp: string;
+  nonce: string;
+  bodyHash: string;
+}): string {
+  return [
+    params.method.toUpperCase(),
+    params.path,
+    params.query,
+    params.timestamp,
+    params.nonce,
+    params.bodyHash,
+  ].join('\n');
+}
+
+/**
+ * Compute the hex HMAC-SHA256 signature of a canonical request
+ */
+export function computeSignature(signingKey: string, canonicalRequest: string): string {
+  return crypto.createHmac('sha256', signingKey).update(canonicalRequest).digest('hex');
+}
+
+/**
+ * Check a client timestamp (unix seconds) against the allowed skew window
+ */
+export function isTimestampWithinSkew(timestamp: string, now: number = Date.now()): boolean {
+  if (!/^\d+$/.test(timestamp)) {
+    return false;
+  }
+  const skewMs = Math.abs(now - Number(timestamp) * 1000);
+  return skewMs <= getMaxClockSkewSeconds() * 1000;
+}
+
+/**
+ * Check the nonce format
+ */
+export function isValidNonce(nonce: string): boolean {
+  return NONCE_PATTERN.test(nonce);
+}
+
+/**
+ * Record a nonce for a key.
+ * Returns false if the nonce was already used within its lifetime.
+ */
+export async function consumeNonce(keyId: string, nonce: string): Promise<boolean> {
+  // A nonce must outlive any timestamp that could still pass the skew check
+  return getRateLimitStore().claimNonce(
+    `nonce:${keyId}:${nonce}`,
+    2 * getMaxClockSkewSeconds() * 1000
+  );
+}
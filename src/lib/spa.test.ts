@@ -0,0 +1,141 @@
+/**
+ * SPA Fallback Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileText, VERCEL_CONFIG_FILENAME } from './manifest';
+import { applySpaFallback, buildSpaRewrite, detectSpa } from './spa';
+import type { DeploymentFile } from './vercel';
+
+function file(path: string, data = 'x'): DeploymentFile {
+  return { file: path, data };
+}
+
+function vercelConfig(files: DeploymentFile[]): Record<string, unknown> {
+  const config = files.find((f) => f.file === VERCEL_CONFIG_FILENAME);
+  return config ? JSON.parse(readFileText(config)) : {};
+}
+
+const VITE_BUILD = [
+  file('index.html'),
+  file('assets/index-4f9a1c2b.js'),
+  file('assets/index-B3kx9aZ1.css'),
+  file('favicon.ico'),
+];
+
+const CRA_BUILD = [
+  file('index.html'),
+  file('static/js/main.3f1a2b4c.js'),
+  file('static/css/main.8d2e7f10.css'),
+  file('manifest.json'),
+];
+
+function matches(source: string, path: string): boolean {
+  return new RegExp(`^${source}$`).test(path);
+}
+
+describe('spa', () => {
+  describe('detectSpa', () => {
+    it('detects Vite and Create React App builds', () => {
+      expect(detectSpa(VITE_BUILD, null)).toBe(true);
+      expect(detectSpa(CRA_BUILD, null)).toBe(true);
+    });
+
+    it('looks inside the output directory', () => {
+      const files = [file('README.md'), ...VITE_BUILD.map((f) => file(`dist/${f.file}`))];
+
+      expect(detectSpa(files, 'dist')).toBe(true);
+      expect(detectSpa(files, 'build')).toBe(false);
+    });
+
+    it('does not treat multi-page sites as SPAs', () => {
+      expect(detectSpa([...VITE_BUILD, file('about.html')], null)).toBe(false);
+      expect(detectSpa([...VITE_BUILD, file('docs/index.html')], null)).toBe(false);
+      expect(detectSpa([...VITE_BUILD, file('404.html')], null)).toBe(false);
+    });
+
+    it('needs a root index.html and hashed scripts', () => {
+      expect(detectSpa([file('app.html'), file('assets/index-4f9a1c2b.js')], null)).toBe(false);
+      expect(detectSpa([file('index.html'), file('app.js'), file('main-component.js')], null)).toBe(
+        false
+      );
+    });
+  });
+
+  describe('buildSpaRewrite', () => {
+    it('rewrites routes but not files or asset directories', () => {
+      const { source, destination } = buildSpaRewrite(['assets']);
+
+      expect(destination).toBe('/index.html');
+      expect(matches(source, '/')).toBe(true);
+      expect(matches(source, '/settings')).toBe(true);
+      expect(matches(source, '/users/42/edit')).toBe(true);
+      expect(matches(source, '/favicon.ico')).toBe(false);
+      expect(matches(source, '/assets/index-4f9a1c2b.js')).toBe(false);
+      expect(matches(source, '/assets/missing')).toBe(false);
+    });
+
+    it('escapes directory names', () => {
+      const { source } = buildSpaRewrite(['a.b']);
+
+      expect(matches(source, '/a.b/x')).toBe(false);
+      expect(matches(source, '/axb/x')).toBe(true);
+    });
+  });
+
+  describe('applySpaFallback', () => {
+    it('adds the rewrite to detected SPAs', () => {
+      const { files, applied } = applySpaFallback(VITE_BUILD, null);
+
+      expect(applied).toBe(true);
+      expect(vercelConfig(files)).toEqual({ rewrites: [buildSpaRewrite(['assets'])] });
+    });
+
+    it('excludes every directory with hashed scripts', () => {
+      const { files } = applySpaFallback([...CRA_BUILD, file('chunks/1.a1b2c3d4.js')], null);
+
+      expect(vercelConfig(files).rewrites).toEqual([buildSpaRewrite(['chunks', 'static'])]);
+    });
+
+    it('leaves other bundles alone unless forced', () => {
+      const site = [file('index.html'), file('about.html')];
+
+      expect(applySpaFallback(site, null)).toEqual({ files: site, applied: false });
+
+      const forced = applySpaFallback(site, null, true);
+      expect(forced.applied).toBe(true);
+      expect(vercelConfig(forced.files).rewrites).toEqual([buildSpaRewrite()]);
+    });
+
+    it('can be forced off', () => {
+      expect(applySpaFallback(VITE_BUILD, null, false)).toEqual({
+        files: VITE_BUILD,
+        applied: false,
+      });
+    });
+
+    it('keeps rewrites the bundle declares', () => {
+      const rewrite = { source: '/api/(.*)', destination: 'https://api.example.com/$1' };
+      const files = [
+        ...VITE_BUILD,
+        file(VERCEL_CONFIG_FILENAME, JSON.stringify({ cleanUrls: true, rewrites: [rewrite] })),
+      ];
+
+      // Detection backs off, forcing appends the fallback last
+      expect(applySpaFallback(files, null).applied).toBe(false);
+      expect(vercelConfig(applySpaFallback(files, null, true).files)).toEqual({
+        cleanUrls: true,
+        rewrites: [rewrite, buildSpaRewrite(['assets'])],
+      });
+    });
+
+    it('never mixes the rewrite with legacy routes', () => {
+      const files = [
+        ...VITE_BUILD,
+        file(VERCEL_CONFIG_FILENAME, JSON.stringify({ routes: [{ src: '/(.*)', dest: '/' }] })),
+      ];
+
+      expect(applySpaFallback(files, null, true).applied).toBe(false);
+    });
+  });
+});
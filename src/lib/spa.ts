@@ -0,0 +1,117 @@
+/**
+ * SPA Fallback
+ *
+ * Single-page apps route on the client, so a deep link like /settings has
+ * no file behind it and 404s on Vercel. Bundles that look like SPA build
+ * output get a catch-all rewrite to index.html in the generated vercel.json:
+ *   index.html + assets/index-4f9a1c2b.js, no other HTML
+ *     -> { "source": "/((?!assets/)(?!.*\\.[A-Za-z0-9]+$).*)", "destination": "/index.html" }
+ * Paths with a file extension and the directories the hashed scripts live in
+ * are left alone, so a missing asset still 404s instead of returning HTML.
+ */
+
+import { mergeVercelConfig, readVercelConfig } from './manifest';
+import type { DeploymentFile } from './vercel';
+
+export const SPA_INDEX_FILENAME = 'index.html';
+
+const HTML_FILE_PATTERN = /\.html?$/i;
+
+// Bundler output names like index-4f9a1c2b.js (Vite) or main.3f1a2b4c.js (webpack):
+// a hash of 8+ characters, at least one of them a digit
+const HASHED_SCRIPT_PATTERN = /[.-](?=[A-Za-z0-9_]*\d)[A-Za-z0-9_]{8,}\.m?js$/;
+
+/**
+ * Files within the output directory, with paths relative to it
+ */
+function outputPaths(files: DeploymentFile[], outputDirectory: string | null): string[] {
+  if (!outputDirectory) {
+    return files.map((f) => f.file);
+  }
+  const prefix = `${outputDirectory}/`;
+  return files.filter((f) => f.file.startsWith(prefix)).map((f) => f.file.slice(prefix.length));
+}
+
+/**
+ * Check whether a bundle looks like SPA build output: index.html as the only
+ * HTML file and at least one hashed script
+ */
+export function detectSpa(files: DeploymentFile[], outputDirectory: string | null): boolean {
+  const paths = outputPaths(files, outputDirectory);
+  const htmlFiles = paths.filter((path) => HTML_FILE_PATTERN.test(path));
+
+  return (
+    htmlFiles.length === 1 &&
+    htmlFiles[0] === SPA_INDEX_FILENAME &&
+    paths.some((path) => HASHED_SCRIPT_PATTERN.test(path))
+  );
+}
+
+/**
+ * Top-level directories holding hashed scripts, e.g. "assets" or "static"
+ */
+function assetDirectories(paths: string[]): string[] {
+  const directories = new Set<string>();
+  for (const path of paths) {
+    const slash = path.indexOf('/');
+    if (slash > 0 && HASHED_SCRIPT_PATTERN.test(path)) {
+      directories.add(path.slice(0, slash));
+    }
+  }
+  return [...directories].sort();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build the catch-all rewrite, excluding paths with a file extension and
+ * the given asset directories
+ */
+export function buildSpaRewrite(excludedDirectories: string[] = []): {
+  source: string;
+  destination: string;
+} {
+  const excluded = excludedDirectories.length
+    ? `(?!(?:${excludedDirectories.map(escapeRegExp).join('|')})/)`
+    : '';
+  return {
+    source: `/(${excluded}(?!.*\\.[A-Za-z0-9]+$).*)`,
+    destination: `/${SPA_INDEX_FILENAME}`,
+  };
+}
+
+/**
+ * Add the SPA fallback rewrite to vercel.json: spa true or false forces it
+ * on or off, and undefined adds it if the bundle looks like an SPA.
+ * Detection backs off when the bundle already declares its own rewrites or
+ * routes; a forced fallback is added after any existing rewrites.
+ */
+export function applySpaFallback(
+  files: DeploymentFile[],
+  outputDirectory: string | null,
+  spa?: boolean
+): { files: DeploymentFile[]; applied: boolean } {
+  if (spa === false || (spa === undefined && !detectSpa(files, outputDirectory))) {
+    return { files, applied: false };
+  }
+
+  const config = readVercelConfig(files);
+  if (config.routes) {
+    // Vercel rejects rewrites alongside legacy routes
+    console.warn('[spa] vercel.json declares routes, not adding the SPA fallback');
+    return { files, applied: false };
+  }
+
+  const rewrites = Array.isArray(config.rewrites) ? config.rewrites : [];
+  if (spa === undefined && rewrites.length > 0) {
+    return { files, applied: false };
+  }
+
+  const rewrite = buildSpaRewrite(assetDirectories(outputPaths(files, outputDirectory)));
+  return {
+    files: mergeVercelConfig(files, { rewrites: [...rewrites, rewrite] }),
+    applied: true,
+  };
+}
@@ -5,11 +5,16 @@
 import { describe, it, expect } from 'vitest';
 import {
   isTerminalStatus,
+  isUuid,
   getStatusProgress,
   getStatusMessage,
+  getUploadProgress,
+  getSourceBuild,
   PublishStartRequestSchema,
   PublishStatusResponseSchema,
+  DeviceTokenRevokeRequestSchema,
 } from './types';
+import type { PublishJob } from './types';
 
 describe('types', () => {
   describe('isTerminalStatus', () => {
@@ -28,6 +33,25 @@ describe('types', () => {
     });
   });
 
+  describe('isUuid', () => {
+    it('accepts UUIDs only', () => {
+      expect(isUuid('0b6f5a8e-3c1d-4f2a-9e7b-5d4c3b2a1f00')).toBe(true);
+      expect(isUuid('not-a-uuid')).toBe(false);
+      expect(isUuid('')).toBe(false);
+    });
+  });
+
+  describe('DeviceTokenRevokeRequestSchema', () => {
+    it('rejects device IDs that are not UUIDs', () => {
+      expect(DeviceTokenRevokeRequestSchema.safeParse({ deviceId: 'abc' }).success).toBe(false);
+      expect(
+        DeviceTokenRevokeRequestSchema.safeParse({
+          deviceId: '0b6f5a8e-3c1d-4f2a-9e7b-5d4c3b2a1f00',
+        }).success
+      ).toBe(true);
+    });
+  });
+
   describe('getStatusProgress', () => {
     it('returns 100 for ready status', () => {
       expect(getStatusProgress('ready')).toBe(100);
@@ -61,6 +85,41 @@ describe('types', () => {
     });
   });
 
+  describe('getUploadProgress', () => {
+    const job = { status: 'uploading', bundle_size: 1000, upload_offset: 400 } as PublishJob;
+
+    it('reports the bytes of a chunked upload in progress', () => {
+      expect(getUploadProgress(job)).toEqual({ receivedBytes: 400, totalBytes: 1000 });
+    });
+
+    it('is undefined for single-request uploads and finished uploads', () => {
+      expect(getUploadProgress({ ...job, upload_offset: null })).toBeUndefined();
+      expect(getUploadProgress({ ...job, status: 'packaging' })).toBeUndefined();
+    });
+  });
+
+  describe('getSourceBuild', () => {
+    const job = {
+      framework: 'vite',
+      build_command: 'npm run build',
+      install_command: 'npm install',
+      output_directory: 'web/dist',
+    } as PublishJob;
+
+    it('reports the recorded build, including the resolved output directory', () => {
+      expect(getSourceBuild(job)).toEqual({
+        framework: 'vite',
+        buildCommand: 'npm run build',
+        installCommand: 'npm install',
+        outputDirectory: 'web/dist',
+      });
+    });
+
+    it('is undefined until a framework has been detected', () => {
+      expect(getSourceBuild({ ...job, framework: null })).toBeUndefined();
+    });
+  });
+
   describe('PublishStartRequestSchema', () => {
     it('validates correct request', () => {
       const result = PublishStartRequestSchema.safeParse({
@@ -78,6 +137,7 @@ describe('types', () => {
         bundleSize: 1024,
         profileId: 'user-123',
         appName: 'My App',
+        strict: true,
       });
       expect(result.success).toBe(true);
     });
@@ -113,6 +173,16 @@ describe('types', () => {
         url: 'https://my-app.vercel.app',
         progress: 100,
         message: 'Your app is live!',
+        bundleReport: {
+          included: ['index.html'],
+          skipped: [{ path: '.env', reason: 'hidden' }],
+          renamed: [],
+          defaulted: [],
+          imported: ['_redirects'],
+          unsupportedRules: [
+            { file: '_redirects', line: 3, text: '/* /fr 302 Country=fr', reason: 'Conditions' },
+          ],
+        },
       });
       expect(result.success).toBe(true);
     });
@@ -29,8 +29,22 @@ export function isTerminalStatus(status: PublishStatus): boolean {
   return TERMINAL_STATUSES.includes(status);
 }
 
+// --- IDs ---
+
+/**
+ * Job, device and pairing IDs are UUIDs. Anything else can't match a row, and
+ * Postgres rejects it with a cast error rather than finding nothing.
+ */
+export function isUuid(value: string): boolean {
+  return z.string().uuid().safeParse(value).success;
+}
+
 // --- Publish Start Request/Response ---
 
+/** static deploys the bundle as-is; source has Vercel build it first */
+export const PublishModeEnum = z.enum(['static', 'source']);
+export type PublishMode = z.infer<typeof PublishModeEnum>;
+
 export const PublishStartRequestSchema = z.object({
   /** The app ID being published */
   appId: z.number(),
@@ -38,10 +52,19 @@ export const PublishStartRequestSchema = z.object({
   bundleHash: z.string(),
   /** Size of the bundle in bytes */
   bundleSize: z.number(),
-  /** Profile ID of the user publishing */
+  /**
+   * Profile ID of the user publishing. Only checked against the device's
+   * bound profile; jobs never record an unverified profile.
+   */
   profileId: z.string().optional(),
   /** Optional app name for display */
   appName: z.string().optional(),
+  /** Fail the publish instead of leaving files out of the deployment */
+  strict: z.boolean().optional(),
+  /** Deploy the bundle as-is (default) or build it from source */
+  mode: PublishModeEnum.optional(),
+  /** Force the SPA fallback rewrite on or off (omit to detect SPA bundles) */
+  spa: z.boolean().optional(),
 });
 
 export type PublishStartRequest = z.infer<typeof PublishStartRequestSchema>;
@@ -73,6 +96,89 @@ export const PublishCompleteRequestSchema = z.object({
 
 export type PublishCompleteRequest = z.infer<typeof PublishCompleteRequestSchema>;
 
+// --- Bundle Report ---
+
+/** Why a file in the bundle was left out of the deployment */
+export const BundleSkipReasonEnum = z.enum(['hidden', 'too_large', 'file_limit']);
+
+export type BundleSkipReason = z.infer<typeof BundleSkipReasonEnum>;
+
+export const UnsupportedRuleSchema = z.object({
+  /** Deployment path of the _redirects or _headers file */
+  file: z.string(),
+  /** 1-based line number */
+  line: z.number(),
+  /** The line as written (credentials left out) */
+  text: z.string(),
+  reason: z.string(),
+});
+
+export type UnsupportedRule = z.infer<typeof UnsupportedRuleSchema>;
+
+export const BundleReportSchema = z.object({
+  /** Deployment paths of the files extracted from the bundle */
+  included: z.array(z.string()),
+  /** Files left out of the deployment */
+  skipped: z.array(z.object({ path: z.string(), reason: BundleSkipReasonEnum })),
+  /** Files deployed under a different path than the archive names them (e.g. "css\\a.css") */
+  renamed: z.array(z.object({ from: z.string(), to: z.string() })),
+  /** Files the broker added because the bundle lacked them */
+  defaulted: z.array(z.string()),
+  /** Netlify _redirects and _headers files translated into vercel.json instead of deployed */
+  imported: z.array(z.string()),
+  /** Lines of those files that couldn't be translated */
+  unsupportedRules: z.array(UnsupportedRuleSchema),
+});
+
+export type BundleReport = z.infer<typeof BundleReportSchema>;
+
+// --- Secret Scanning ---
+
+export const SecretFindingSchema = z.object({
+  /** Deployment path of the file */
+  file: z.string(),
+  /** 1-based line of the match, or null for findings on the file name */
+  line: z.number().nullable(),
+  /** Rule that matched, e.g. "private_key" */
+  rule: z.string(),
+  description: z.string(),
+});
+
+export type SecretFinding = z.infer<typeof SecretFindingSchema>;
+
+// --- Source Builds ---
+
+export const SourceBuildSchema = z.object({
+  /** Vercel framework slug, e.g. "vite" */
+  framework: z.string(),
+  buildCommand: z.string().nullable(),
+  installCommand: z.string().nullable(),
+  /** From abba.json, else the framework's (null = Vercel's default) */
+  outputDirectory: z.string().nullable(),
+});
+
+export type SourceBuild = z.infer<typeof SourceBuildSchema>;
+
+// --- Chunked Uploads ---
+
+export const UploadChunkSchema = z.object({
+  /** First byte of the chunk within the bundle */
+  start: z.number(),
+  /** Last byte of the chunk (inclusive, as in Content-Range) */
+  end: z.number(),
+  /** SHA256 of the chunk */
+  sha256: z.string(),
+});
+
+export type UploadChunk = z.infer<typeof UploadChunkSchema>;
+
+export const UploadProgressSchema = z.object({
+  receivedBytes: z.number(),
+  totalBytes: z.number(),
+});
+
+export type UploadProgress = z.infer<typeof UploadProgressSchema>;
+
 // --- Publish Status Request/Response ---
 
 export const PublishStatusQuerySchema = z.object({
@@ -92,6 +198,14 @@ export const PublishStatusResponseSchema = z.object({
   progress: z.number().optional(),
   /** Human-readable status message */
   message: z.string().optional(),
+  /** What happened to each bundle file, once the bundle has been processed */
+  bundleReport: BundleReportSchema.optional(),
+  /** Possible secrets found in the bundle (deployed anyway under the warn policy) */
+  secretFindings: z.array(SecretFindingSchema).optional(),
+  /** How Vercel builds a source-mode bundle, once the framework has been detected */
+  build: SourceBuildSchema.optional(),
+  /** Bytes received so far, while a chunked upload is in progress */
+  upload: UploadProgressSchema.optional(),
 });
 
 export type PublishStatusResponse = z.infer<typeof PublishStatusResponseSchema>;
@@ -113,6 +227,131 @@ export const PublishCancelResponseSchema = z.object({
 
 export type PublishCancelResponse = z.infer<typeof PublishCancelResponseSchema>;
 
+// --- Bundle Manifest (abba.json) ---
+
+/** Route source pattern, in Vercel's path-to-regexp syntax, e.g. "/blog/:slug" */
+const ManifestRouteSourceSchema = z.string().min(1).max(4096).startsWith('/');
+
+export const ManifestRedirectSchema = z.object({
+  source: ManifestRouteSourceSchema,
+  /** Path or absolute URL */
+  destination: z.string().min(1).max(4096),
+  /** 308 when true, 307 otherwise */
+  permanent: z.boolean().optional(),
+});
+
+export const ManifestRewriteSchema = z.object({
+  source: ManifestRouteSourceSchema,
+  destination: z.string().min(1).max(4096),
+});
+
+export const ManifestHeaderRuleSchema = z.object({
+  source: ManifestRouteSourceSchema,
+  headers: z
+    .array(
+      z.object({
+        key: z.string().regex(/^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/, 'Invalid header name'),
+        value: z.string().max(4096),
+      })
+    )
+    .min(1),
+});
+
+export const BundleManifestSchema = z
+  .object({
+    /** Directory within the bundle that holds the site (defaults to the root) */
+    outputDirectory: z.string().min(1).optional(),
+    /** Serve /about from about.html */
+    cleanUrls: z.boolean().optional(),
+    /** true: redirect /about to /about/, false: redirect /about/ to /about */
+    trailingSlash: z.boolean().optional(),
+    redirects: z.array(ManifestRedirectSchema).max(1024).optional(),
+    rewrites: z.array(ManifestRewriteSchema).max(1024).optional(),
+    headers: z.array(ManifestHeaderRuleSchema).max(1024).optional(),
+    /** Page to serve for missing paths, relative to the output directory */
+    notFoundPage: z.string().min(1).optional(),
+  })
+  .strict();
+
+export type BundleManifest = z.infer<typeof BundleManifestSchema>;
+
+// --- Device Scopes ---
+
+export const DeviceScopeEnum = z.enum(['publish:write', 'publish:read', 'publish:cancel', 'admin']);
+
+export type DeviceScope = z.infer<typeof DeviceScopeEnum>;
+
+/** Scopes granted to new device tokens when none are requested */
+export const DEFAULT_DEVICE_SCOPES: DeviceScope[] = [
+  'publish:write',
+  'publish:read',
+  'publish:cancel',
+];
+
+/** Scopes held by ABBA_ADMIN_TOKEN */
+export const ALL_DEVICE_SCOPES: DeviceScope[] = DeviceScopeEnum.options;
+
+// --- Device Tokens (Admin) ---
+
+export const DeviceTokenIssueRequestSchema = z.object({
+  /** Human-readable label for the device, e.g. "Studio MacBook" */
+  label: z.string().min(1).max(100),
+  /** Profile ID of the user who owns the device */
+  profileId: z.string().optional(),
+  /** Capabilities granted to the token (defaults to publish read/write/cancel) */
+  scopes: z.array(DeviceScopeEnum).min(1).optional(),
+});
+
+export type DeviceTokenIssueRequest = z.infer<typeof DeviceTokenIssueRequestSchema>;
+
+export const DeviceTokenRevokeRequestSchema = z.object({
+  deviceId: z.string().uuid(),
+});
+
+export type DeviceTokenRevokeRequest = z.infer<typeof DeviceTokenRevokeRequestSchema>;
+
+// --- Auth Lockouts (Admin) ---
+
+export const LockoutClearRequestSchema = z.object({
+  /** Source to clear, e.g. "ip:203.0.113.7" or "key:<signing key id>"; omit to clear all */
+  key: z.string().optional(),
+});
+
+export type LockoutClearRequest = z.infer<typeof LockoutClearRequestSchema>;
+
+// --- Device Pairing ---
+
+export const PairingStatusEnum = z.enum(['pending', 'approved', 'claimed']);
+
+export type PairingStatus = z.infer<typeof PairingStatusEnum>;
+
+export const DevicePairStartRequestSchema = z.object({
+  /** Suggested label for the device, e.g. its hostname */
+  label: z.string().min(1).max(100).optional(),
+});
+
+export type DevicePairStartRequest = z.infer<typeof DevicePairStartRequestSchema>;
+
+export const DevicePairApproveRequestSchema = z.object({
+  /** Short code shown on the desktop, e.g. "K7QX-M2PF" */
+  code: z.string(),
+  /** Label for the device (overrides the one suggested by the desktop) */
+  label: z.string().min(1).max(100).optional(),
+  /** Profile ID of the user who owns the device */
+  profileId: z.string().optional(),
+  /** Capabilities granted to the minted token */
+  scopes: z.array(DeviceScopeEnum).min(1).optional(),
+});
+
+export type DevicePairApproveRequest = z.infer<typeof DevicePairApproveRequestSchema>;
+
+export const DevicePairClaimRequestSchema = z.object({
+  /** Polling ID returned by pair/start */
+  pairingId: z.string().uuid(),
+});
+
+export type DevicePairClaimRequest = z.infer<typeof DevicePairClaimRequestSchema>;
+
 // --- Database Types ---
 
 export interface PublishJob {
@@ -121,9 +360,34 @@ export interface PublishJob {
   app_id: number;
   app_name: string | null;
   profile_id: string | null;
+  /** Device that created the job ('env' for the shared ABBA_DEVICE_TOKEN) */
+  device_id: string | null;
+  /** Client IP that started a job on the shared token (null for registry devices) */
+  client_ip: string | null;
   bundle_hash: string;
   bundle_size: number;
+  /** Bytes actually received by publish/upload (counts toward the daily quota) */
+  uploaded_bytes: number | null;
   bundle_path: string | null;
+  /** Bytes of a chunked upload received so far (null for single-request uploads) */
+  upload_offset: number | null;
+  /** Chunks received, in order */
+  upload_chunks: UploadChunk[] | null;
+  /** Fail the publish instead of skipping bundle files */
+  strict: boolean;
+  mode: PublishMode;
+  /** Forced SPA fallback setting, or null to detect it */
+  spa: boolean | null;
+  /** Detected for source builds: Vercel framework slug and commands */
+  framework: string | null;
+  build_command: string | null;
+  install_command: string | null;
+  /** Output directory Vercel serves, from abba.json or the detected framework */
+  output_directory: string | null;
+  /** Outcome of processing the bundle, set by publish/upload */
+  bundle_report: BundleReport | null;
+  /** Possible secrets found by the scan before deploying */
+  secret_findings: SecretFinding[] | null;
   vercel_deployment_id: string | null;
   vercel_project_id: string | null;
   url: string | null;
@@ -132,6 +396,37 @@ export interface PublishJob {
   updated_at: string;
 }
 
+export interface DeviceToken {
+  id: string;
+  label: string;
+  profile_id: string | null;
+  /** SHA256 of the token; the raw token is only returned once, at issue time */
+  token_hash: string;
+  /** HMAC key for signed requests (null for tokens issued before migration 014) */
+  signing_key: string | null;
+  scopes: DeviceScope[];
+  revoked: boolean;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface DevicePairing {
+  /** Polling ID, only known to the desktop that started pairing */
+  id: string;
+  code: string;
+  label: string | null;
+  status: PairingStatus;
+  profile_id: string | null;
+  scopes: DeviceScope[] | null;
+  /** Device token minted when the pairing was claimed */
+  device_id: string | null;
+  expires_at: string;
+  created_at: string;
+  approved_at: string | null;
+  claimed_at: string | null;
+}
+
 // --- Progress Calculation ---
 
 const STATUS_PROGRESS: Record<PublishStatus, number> = {
@@ -169,3 +464,28 @@ export function getStatusMessage(status: PublishStatus): string {
       return 'Publish cancelled';
   }
 }
+
+/**
+ * The build recorded on a source-mode job, if its framework has been detected
+ */
+export function getSourceBuild(job: PublishJob): SourceBuild | undefined {
+  if (!job.framework) {
+    return undefined;
+  }
+  return {
+    framework: job.framework,
+    buildCommand: job.build_command,
+    installCommand: job.install_command,
+    outputDirectory: job.output_directory,
+  };
+}
+
+/**
+ * Byte progress of a chunked upload that is still in progress
+ */
+export function getUploadProgress(job: PublishJob): UploadProgress | undefined {
+  if (job.status !== 'uploading' || job.upload_offset === null) {
+    return undefined;
+  }
+  return { receivedBytes: job.upload_offset, totalBytes: job.bundle_size };
+}
@@ -0,0 +1,303 @@
+/**
+ * Bundle Upload Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import v8 from 'v8';
+import vm from 'vm';
+import JSZip from 'jszip';
+import { NextRequest } from 'next/server';
+import { getSignedBodyHash } from './auth';
+import { discardExtractedBundle, extractBundle } from './bundle';
+import { discardReceivedBundle, receiveBundle, type ReceivedBundle } from './upload';
+
+vi.mock('./auth', () => ({
+  getSignedBodyHash: vi.fn(() => null),
+}));
+
+const URL = 'http://localhost/api/v1/publish/upload?publishId=test';
+
+function sha256(data: Buffer | string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+// A streamed request body, without a Content-Length
+function createStreamingRequest(
+  chunks: Iterable<Buffer> | AsyncIterable<Buffer>,
+  headers: Record<string, string> = {}
+): NextRequest {
+  return new NextRequest(URL, {
+    method: 'PUT',
+    headers,
+    body: Readable.toWeb(Readable.from(chunks)) as ReadableStream,
+    duplex: 'half',
+  } as ConstructorParameters<typeof NextRequest>[1]);
+}
+
+function createMultipartBody(
+  parts: Array<{ name: string; filename?: string; contentType?: string; data: Buffer | string }>
+): { body: Buffer; contentType: string } {
+  const boundary = `----abba${crypto.randomBytes(8).toString('hex')}`;
+  const chunks: Buffer[] = [];
+
+  for (const part of parts) {
+    let header = `--${boundary}\r\nContent-Disposition: form-data; name="${part.name}"`;
+    if (part.filename) header += `; filename="${part.filename}"`;
+    if (part.contentType) header += `\r\nContent-Type: ${part.contentType}`;
+    chunks.push(Buffer.from(`${header}\r\n\r\n`), Buffer.from(part.data), Buffer.from('\r\n'));
+  }
+  chunks.push(Buffer.from(`--${boundary}--\r\n`));
+
+  return { body: Buffer.concat(chunks), contentType: `multipart/form-data; boundary=${boundary}` };
+}
+
+function tempFiles(): string[] {
+  return fs.readdirSync(os.tmpdir()).filter((name) => name.startsWith('abba-bundle-'));
+}
+
+const received: ReceivedBundle[] = [];
+
+async function expectReceived(request: NextRequest, options?: { maxBytes?: number }) {
+  const result = await receiveBundle(request, options);
+  if (!result.ok) {
+    throw new Error(`Expected bundle to be received: ${result.error}`);
+  }
+  received.push(result.bundle);
+  return result.bundle;
+}
+
+describe('upload', () => {
+  beforeEach(() => {
+    vi.mocked(getSignedBodyHash).mockReturnValue(null);
+  });
+
+  afterAll(async () => {
+    await Promise.all(received.map(discardReceivedBundle));
+  });
+
+  describe('receiveBundle', () => {
+    it('streams a raw upload to a temporary file', async () => {
+      const data = crypto.randomBytes(200 * 1024);
+      const request = createStreamingRequest([data.subarray(0, 1000), data.subarray(1000)], {
+        'content-type': 'application/gzip',
+      });
+
+      const bundle = await expectReceived(request);
+
+      expect(bundle.size).toBe(data.length);
+      expect(bundle.hash).toBe(sha256(data));
+      expect(bundle.contentType).toBe('application/gzip');
+      expect(fs.readFileSync(bundle.path)).toEqual(data);
+    });
+
+    it('receives the bundle part of a multipart upload', async () => {
+      const data = crypto.randomBytes(64 * 1024);
+      const { body, contentType } = createMultipartBody([
+        { name: 'note', data: 'ignored' },
+        { name: 'other', filename: 'other.zip', data: 'ignored' },
+        { name: 'bundle', filename: 'site.tar', contentType: 'application/x-tar', data },
+      ]);
+
+      const bundle = await expectReceived(
+        createStreamingRequest([body], { 'content-type': contentType })
+      );
+
+      expect(bundle.size).toBe(data.length);
+      expect(bundle.hash).toBe(sha256(data));
+      expect(bundle.contentType).toBe('application/x-tar');
+      expect(fs.readFileSync(bundle.path)).toEqual(data);
+    });
+
+    it('rejects multipart uploads without a bundle part', async () => {
+      const { body, contentType } = createMultipartBody([{ name: 'note', data: 'hello' }]);
+
+      const result = await receiveBundle(
+        createStreamingRequest([body], { 'content-type': contentType })
+      );
+
+      expect(result).toEqual({ ok: false, status: 400, error: 'No bundle file provided' });
+    });
+
+    it('turns away raw uploads that declare an oversized body', async () => {
+      let pulled = 0;
+      async function* chunks() {
+        pulled++;
+        yield Buffer.alloc(2048);
+      }
+
+      const result = await receiveBundle(
+        createStreamingRequest(chunks(), { 'content-length': '2048' }),
+        { maxBytes: 1024 }
+      );
+
+      expect(result).toEqual({
+        ok: false,
+        status: 400,
+        error: 'Bundle too large (max 1024 bytes)',
+      });
+      expect(pulled).toBe(0);
+    });
+
+    it('stops reading once a streamed upload crosses the limit', async () => {
+      let pulled = 0;
+      async function* chunks() {
+        for (let i = 0; i < 100; i++) {
+          pulled++;
+          yield Buffer.alloc(1024);
+        }
+      }
+      const before = tempFiles();
+
+      const result = await receiveBundle(createStreamingRequest(chunks()), { maxBytes: 4096 });
+
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.error).toContain('Bundle too large');
+      expect(pulled).toBeLessThan(100);
+      expect(tempFiles()).toEqual(before);
+    });
+
+    it('enforces the limit on multipart uploads', async () => {
+      const { body, contentType } = createMultipartBody([
+        { name: 'bundle', filename: 'site.zip', data: Buffer.alloc(8192) },
+      ]);
+
+      const result = await receiveBundle(
+        createStreamingRequest([body], { 'content-type': contentType }),
+        { maxBytes: 4096 }
+      );
+
+      expect(result).toEqual({
+        ok: false,
+        status: 400,
+        error: 'Bundle too large (max 4096 bytes)',
+      });
+    });
+
+    it('checks the body against a signed content hash', async () => {
+      const data = Buffer.from('bundle bytes');
+
+      vi.mocked(getSignedBodyHash).mockReturnValue(sha256(data));
+      await expectReceived(createStreamingRequest([data]));
+
+      vi.mocked(getSignedBodyHash).mockReturnValue(sha256('something else'));
+      const before = tempFiles();
+      const result = await receiveBundle(createStreamingRequest([data]));
+
+      expect(result).toEqual({
+        ok: false,
+        status: 401,
+        error: 'Request body does not match the signed content hash',
+      });
+      expect(tempFiles()).toEqual(before);
+    });
+
+    it('hashes the whole multipart body for signed uploads', async () => {
+      const { body, contentType } = createMultipartBody([
+        { name: 'bundle', filename: 'site.zip', data: 'bundle bytes' },
+      ]);
+      vi.mocked(getSignedBodyHash).mockReturnValue(sha256(body));
+
+      const bundle = await expectReceived(
+        createStreamingRequest([body], { 'content-type': contentType })
+      );
+
+      expect(bundle.hash).toBe(sha256('bundle bytes'));
+    });
+  });
+
+  describe('discardReceivedBundle', () => {
+    it('removes the temporary file', async () => {
+      const bundle = await expectReceived(createStreamingRequest([Buffer.from('x')]));
+
+      await discardReceivedBundle(bundle);
+
+      expect(fs.existsSync(bundle.path)).toBe(false);
+    });
+  });
+
+  describe('memory', () => {
+    const MB = 1024 * 1024;
+
+    v8.setFlagsFromString('--expose-gc');
+    const gc = vm.runInNewContext('gc') as () => void;
+
+    function memoryInUse(): number {
+      const { heapUsed, external } = process.memoryUsage();
+      return heapUsed + external;
+    }
+
+    // Track the most memory held (after collecting garbage) while an operation runs
+    async function measurePeak<T>(
+      operation: () => Promise<T>
+    ): Promise<{ result: T; peak: number }> {
+      gc();
+      const baseline = memoryInUse();
+      let peak = baseline;
+      const sampler = setInterval(() => {
+        gc();
+        peak = Math.max(peak, memoryInUse());
+      }, 100);
+
+      try {
+        const result = await operation();
+        gc();
+        peak = Math.max(peak, memoryInUse());
+        return { result, peak: peak - baseline };
+      } finally {
+        clearInterval(sampler);
+      }
+    }
+
+    // 45MB of incompressible files, close to the 50MB upload limit
+    async function writeNearLimitBundle(bundlePath: string): Promise<void> {
+      const zip = new JSZip();
+      for (let i = 0; i < 5; i++) {
+        zip.file(`assets/video-${i}.bin`, crypto.randomBytes(9 * MB));
+      }
+      zip.file('index.html', '<h1>Hi</h1>');
+      await new Promise<void>((resolve, reject) =>
+        zip
+          .generateNodeStream({ streamFiles: true })
+          .pipe(fs.createWriteStream(bundlePath))
+          .on('finish', resolve)
+          .on('error', reject)
+      );
+    }
+
+    it('keeps peak memory bounded for a near-limit bundle', async () => {
+      const bundlePath = path.join(os.tmpdir(), `abba-memory-test-${process.pid}.zip`);
+      await writeNearLimitBundle(bundlePath);
+      const bundleSize = fs.statSync(bundlePath).size;
+      expect(bundleSize).toBeGreaterThan(45 * MB);
+      let extractedDirectory: string | null = null;
+
+      try {
+        const upload = await measurePeak(() =>
+          expectReceived(
+            createStreamingRequest(fs.createReadStream(bundlePath), {
+              'content-type': 'application/zip',
+            })
+          )
+        );
+        const extraction = await measurePeak(() => extractBundle(upload.result));
+        extractedDirectory = extraction.result.directory;
+
+        expect(extraction.result.files).toHaveLength(6);
+        // Receiving never holds the bundle in memory
+        expect(upload.peak).toBeLessThan(bundleSize / 4);
+        // Neither does extraction: each file is streamed to disk as it is read
+        expect(extraction.peak).toBeLessThan(bundleSize / 4);
+      } finally {
+        fs.rmSync(bundlePath, { force: true });
+        if (extractedDirectory) {
+          await discardExtractedBundle(extractedDirectory);
+        }
+      }
+    }, 60_000);
+  });
+});
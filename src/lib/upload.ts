@@ -0,0 +1,196 @@
+/**
+ * Bundle Upload
+ *
+ * Streams an uploaded bundle to a temporary file instead of buffering it
+ * in memory. The size limit is enforced and the SHA256 computed as bytes
+ * arrive, so an oversized upload is cut off as soon as it crosses the limit.
+ * Accepts multipart/form-data (a "bundle" file field) or the raw archive.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import busboy from 'busboy';
+import { NextRequest } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { getSignedBodyHash } from './auth';
+import { MAX_BUNDLE_SIZE } from './bundle';
+
+/**
+ * A bundle spooled to disk
+ */
+export interface ReceivedBundle {
+  /** Temporary file holding the bundle (remove with discardReceivedBundle) */
+  path: string;
+  size: number;
+  /** SHA256 of the bundle */
+  hash: string;
+  /** Content-Type the bundle was sent with (the file part's, for multipart) */
+  contentType: string | null;
+}
+
+export type ReceiveBundleResult =
+  | { ok: true; bundle: ReceivedBundle }
+  | { ok: false; status: 400 | 401; error: string };
+
+/**
+ * Running size and hash of the bundle bytes received so far
+ */
+interface BundleMeter {
+  size: number;
+  exceeded: boolean;
+  hash: crypto.Hash;
+}
+
+/**
+ * Pass bundle bytes through, counting and hashing them, and fail once
+ * they exceed the limit
+ */
+function createMeterStream(meter: BundleMeter, maxBytes: number): Transform {
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      meter.size += chunk.length;
+      if (meter.size > maxBytes) {
+        meter.exceeded = true;
+        callback(new Error(`Bundle exceeds ${maxBytes} bytes`));
+        return;
+      }
+      meter.hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+}
+
+/**
+ * Write the "bundle" part of a multipart body to a file.
+ * Resolves with the part's content type, or null if there was no bundle part.
+ */
+function receiveMultipartBundle(
+  body: Readable,
+  contentType: string,
+  filePath: string,
+  meterStream: Transform
+): Promise<{ contentType: string | null } | null> {
+  return new Promise((resolve, reject) => {
+    const parser = busboy({ headers: { 'content-type': contentType } });
+    let upload: Promise<void> | null = null;
+    let partContentType: string | null = null;
+
+    // Stop reading the request as soon as anything fails
+    const fail = (error: Error) => {
+      body.unpipe(parser);
+      body.destroy();
+      reject(error);
+    };
+
+    parser.on('file', (name, file, info) => {
+      if (name !== 'bundle' || upload) {
+        file.resume();
+        return;
+      }
+      partContentType = info.mimeType || null;
+      upload = pipeline(file, meterStream, fs.createWriteStream(filePath));
+      upload.catch(fail);
+    });
+    parser.on('close', () => {
+      if (!upload) {
+        resolve(null);
+        return;
+      }
+      upload.then(() => resolve({ contentType: partContentType }), fail);
+    });
+    parser.on('error', fail);
+
+    body.pipe(parser);
+  });
+}
+
+/**
+ * Stream the request's bundle to a temporary file.
+ * Signed requests that declared their body hash are checked against it here.
+ */
+export async function receiveBundle(
+  request: NextRequest,
+  options: { maxBytes?: number } = {}
+): Promise<ReceiveBundleResult> {
+  const maxBytes = options.maxBytes ?? MAX_BUNDLE_SIZE;
+  const contentType = request.headers.get('content-type') || '';
+  const isMultipart = contentType.includes('multipart/form-data');
+  const tooLarge: ReceiveBundleResult = {
+    ok: false,
+    status: 400,
+    error: `Bundle too large (max ${maxBytes} bytes)`,
+  };
+
+  // Raw uploads that announce an oversized body can be turned away unread
+  if (!isMultipart && Number(request.headers.get('content-length')) > maxBytes) {
+    return tooLarge;
+  }
+
+  const filePath = path.join(os.tmpdir(), `abba-bundle-${uuidv4()}`);
+  const meter: BundleMeter = { size: 0, exceeded: false, hash: crypto.createHash('sha256') };
+  const meterStream = createMeterStream(meter, maxBytes);
+
+  const body = request.body
+    ? Readable.fromWeb(request.body as WebReadableStream<Uint8Array>)
+    : Readable.from([]);
+
+  // The signature covers the raw body (multipart framing included)
+  const signedBodyHash = getSignedBodyHash(request);
+  const bodyHash = signedBodyHash ? crypto.createHash('sha256') : null;
+  if (bodyHash) {
+    body.on('data', (chunk: Buffer) => bodyHash.update(chunk));
+  }
+
+  let bundleContentType: string | null;
+  try {
+    if (isMultipart) {
+      const part = await receiveMultipartBundle(body, contentType, filePath, meterStream);
+      if (!part) {
+        await removeFile(filePath);
+        return { ok: false, status: 400, error: 'No bundle file provided' };
+      }
+      bundleContentType = part.contentType;
+    } else {
+      await pipeline(body, meterStream, fs.createWriteStream(filePath));
+      bundleContentType = contentType || null;
+    }
+  } catch (error) {
+    await removeFile(filePath);
+    if (meter.exceeded) {
+      return tooLarge;
+    }
+    throw error;
+  }
+
+  if (bodyHash && bodyHash.digest('hex') !== signedBodyHash) {
+    console.warn('[upload] Request body does not match the signed content hash');
+    await removeFile(filePath);
+    return { ok: false, status: 401, error: 'Request body does not match the signed content hash' };
+  }
+
+  return {
+    ok: true,
+    bundle: {
+      path: filePath,
+      size: meter.size,
+      hash: meter.hash.digest('hex'),
+      contentType: bundleContentType,
+    },
+  };
+}
+
+async function removeFile(filePath: string): Promise<void> {
+  await fs.promises.rm(filePath, { force: true });
+}
+
+/**
+ * Remove a received bundle's temporary file
+ */
+export async function discardReceivedBundle(bundle: ReceivedBundle): Promise<void> {
+  await removeFile(bundle.path);
+}
@@ -2,9 +2,10 @@
  * Vercel Deployment Service
  *
  * Handles deploying app bundles to Vercel using the Deployments API.
- * Uploads files directly and creates deployments.
+ * Uploads extracted files through the file API and creates deployments.
  */
 
+import fs from 'fs';
 import { updateJobStatus } from './db';
 import { redactSensitiveInfo } from './auth';
 
@@ -52,20 +53,86 @@ async function vercelFetch(path: string, options: RequestInit = {}): Promise<Res
 }
 
 /**
- * Deployment file structure for Vercel API
+ * Deployment file sent inline (generated files such as vercel.json)
  */
-export interface DeploymentFile {
+export interface InlineDeploymentFile {
   file: string; // Path within the deployment
   data: string; // File content (base64 for binary)
   encoding?: 'base64';
 }
 
+/**
+ * Deployment file spooled to disk while extracting the bundle, uploaded to
+ * Vercel on its own and referenced by SHA1
+ */
+export interface SpooledDeploymentFile {
+  file: string; // Path within the deployment
+  localPath: string; // Temporary file holding the content
+  size: number;
+  sha: string; // SHA1 of the content, as Vercel's file API expects
+  encoding?: 'base64'; // Set for binary content
+}
+
+export type DeploymentFile = InlineDeploymentFile | SpooledDeploymentFile;
+
+// Spooled files uploaded to Vercel at once
+const FILE_UPLOAD_CONCURRENCY = 8;
+
+/**
+ * Read a deployment file's content
+ */
+export function readDeploymentFile(file: DeploymentFile): Buffer {
+  if ('localPath' in file) {
+    return fs.readFileSync(file.localPath);
+  }
+  return Buffer.from(file.data, file.encoding === 'base64' ? 'base64' : 'utf-8');
+}
+
+/**
+ * Upload a spooled file's content so a deployment can reference it by SHA1
+ */
+async function uploadDeploymentFile(file: SpooledDeploymentFile): Promise<void> {
+  const response = await vercelFetch('/v2/files', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'x-vercel-digest': file.sha,
+    },
+    body: await fs.promises.readFile(file.localPath),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    console.error('[vercel] File upload failed:', redactSensitiveInfo(error));
+    throw new Error(`Failed to upload ${file.file}: ${response.status}`);
+  }
+}
+
+/**
+ * Project settings sent with each deployment
+ */
+export interface VercelProjectSettings {
+  framework: string | null;
+  buildCommand: string | null;
+  installCommand: string | null;
+  outputDirectory: string | null;
+}
+
+/** Static deployment served from the bundle root */
+export const STATIC_PROJECT_SETTINGS: VercelProjectSettings = {
+  framework: null,
+  buildCommand: null,
+  installCommand: null,
+  outputDirectory: null,
+};
+
 /**
  * Create a new Vercel deployment with files
  */
 export async function createDeployment(
   projectName: string,
-  files: DeploymentFile[]
+  files: DeploymentFile[],
+  projectSettings: VercelProjectSettings = STATIC_PROJECT_SETTINGS
 ): Promise<{
   id: string;
   url: string;
@@ -78,22 +145,24 @@ export async function createDeployment(
   const project = await ensureProject(projectName);
   console.log(`[vercel] Using project: ${project.id}`);
 
+  // Upload spooled files first, a few at a time; the deployment only references them
+  const spooled = files.filter((f): f is SpooledDeploymentFile => 'localPath' in f);
+  for (let i = 0; i < spooled.length; i += FILE_UPLOAD_CONCURRENCY) {
+    await Promise.all(spooled.slice(i, i + FILE_UPLOAD_CONCURRENCY).map(uploadDeploymentFile));
+  }
+
   // Create deployment using v13 deployments API
   const response = await vercelFetch('/v13/deployments', {
     method: 'POST',
     body: JSON.stringify({
       name: projectName,
       project: project.id,
-      files: files.map((f) => ({
-        file: f.file,
-        data: f.data,
-        encoding: f.encoding,
-      })),
-      projectSettings: {
-        framework: null, // Static deployment
-        buildCommand: null,
-        outputDirectory: null,
-      },
+      files: files.map((f) =>
+        'localPath' in f
+          ? { file: f.file, sha: f.sha, size: f.size }
+          : { file: f.file, data: f.data, encoding: f.encoding }
+      ),
+      projectSettings,
       target: 'production',
     }),
   });
@@ -201,7 +270,8 @@ export async function deployBundle(
   publishId: string,
   appId: number,
   bundleHash: string,
-  files: DeploymentFile[]
+  files: DeploymentFile[],
+  projectSettings: VercelProjectSettings = STATIC_PROJECT_SETTINGS
 ): Promise<{ deploymentId: string; projectId: string }> {
   const projectName = generateProjectName(appId, bundleHash);
 
@@ -209,7 +279,7 @@ export async function deployBundle(
   await updateJobStatus(publishId, 'deploying');
 
   try {
-    const deployment = await createDeployment(projectName, files);
+    const deployment = await createDeployment(projectName, files, projectSettings);
 
     // Get the project ID from the deployment
     const projectResponse = await vercelFetch(`/v9/projects/${encodeURIComponent(projectName)}`);
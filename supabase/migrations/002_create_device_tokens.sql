@@ -0,0 +1,32 @@
+-- ABBA Broker: Device Tokens Table
+-- Run this migration in your Supabase SQL editor
+
+-- Create device_tokens table (tokens are stored as SHA256 hashes only)
+CREATE TABLE device_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  label TEXT NOT NULL,
+  profile_id TEXT,
+  token_hash TEXT NOT NULL UNIQUE,
+  revoked BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+-- Create indexes for common queries
+CREATE INDEX idx_device_tokens_profile_id ON device_tokens(profile_id);
+CREATE INDEX idx_device_tokens_created_at ON device_tokens(created_at);
+
+-- Row Level Security (optional but recommended)
+-- Enable RLS
+ALTER TABLE device_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for service role (full access)
+CREATE POLICY "Service role has full access"
+  ON device_tokens
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+-- Grant permissions to service role
+GRANT ALL ON device_tokens TO service_role;
@@ -0,0 +1,7 @@
+-- ABBA Broker: Device Token Scopes
+-- Run this migration in your Supabase SQL editor
+
+-- Capabilities granted to each device token.
+-- Existing tokens keep publish access but not admin.
+ALTER TABLE device_tokens
+  ADD COLUMN scopes TEXT[] NOT NULL DEFAULT ARRAY['publish:write', 'publish:read', 'publish:cancel'];
@@ -0,0 +1,42 @@
+-- ABBA Broker: Device Pairings Table
+-- Run this migration in your Supabase SQL editor
+
+-- Create enum type for pairing status
+CREATE TYPE pairing_status AS ENUM (
+  'pending',
+  'approved',
+  'claimed'
+);
+
+-- Create device_pairings table
+CREATE TABLE device_pairings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL,
+  label TEXT,
+  status pairing_status NOT NULL DEFAULT 'pending',
+  profile_id TEXT,
+  scopes TEXT[],
+  device_id UUID REFERENCES device_tokens(id),
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  approved_at TIMESTAMPTZ,
+  claimed_at TIMESTAMPTZ
+);
+
+-- Create indexes for common queries
+CREATE INDEX idx_device_pairings_code ON device_pairings(code);
+CREATE INDEX idx_device_pairings_expires_at ON device_pairings(expires_at);
+
+-- Row Level Security (optional but recommended)
+-- Enable RLS
+ALTER TABLE device_pairings ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for service role (full access)
+CREATE POLICY "Service role has full access"
+  ON device_pairings
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+-- Grant permissions to service role
+GRANT ALL ON device_pairings TO service_role;
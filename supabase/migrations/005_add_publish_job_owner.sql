@@ -0,0 +1,11 @@
+-- ABBA Broker: Publish Job Ownership
+-- Run this migration in your Supabase SQL editor
+
+-- Device that created each job ('env' for the shared ABBA_DEVICE_TOKEN).
+-- Jobs created before this migration have no device and are only visible
+-- to admins and to devices bound to the job's profile.
+ALTER TABLE publish_jobs ADD COLUMN device_id TEXT;
+
+-- Create indexes for ownership lookups
+CREATE INDEX idx_publish_jobs_device_id ON publish_jobs(device_id);
+CREATE INDEX idx_publish_jobs_profile_id ON publish_jobs(profile_id);
@@ -0,0 +1,48 @@
+-- ABBA Broker: Shared Rate Limit Counters
+-- Run this migration in your Supabase SQL editor
+-- Used when RATE_LIMIT_BACKEND=supabase
+
+-- Create rate_limits table (one fixed-window counter per key)
+CREATE TABLE rate_limits (
+  key TEXT PRIMARY KEY,
+  count INTEGER NOT NULL,
+  reset_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX idx_rate_limits_reset_at ON rate_limits(reset_at);
+
+-- Atomically count a hit, starting a new window if the current one expired
+CREATE OR REPLACE FUNCTION rate_limit_hit(p_key TEXT, p_window_ms INTEGER)
+RETURNS TABLE (hit_count INTEGER, window_reset_at TIMESTAMPTZ) AS $$
+  INSERT INTO rate_limits AS r (key, count, reset_at)
+  VALUES (p_key, 1, NOW() + make_interval(secs => p_window_ms / 1000.0))
+  ON CONFLICT (key) DO UPDATE SET
+    count = CASE WHEN r.reset_at <= NOW() THEN 1 ELSE r.count + 1 END,
+    reset_at = CASE WHEN r.reset_at <= NOW() THEN EXCLUDED.reset_at ELSE r.reset_at END
+  RETURNING r.count, r.reset_at;
+$$ LANGUAGE sql;
+
+-- Remove expired counters (schedule with pg_cron, e.g. every 10 minutes)
+CREATE OR REPLACE FUNCTION rate_limit_cleanup()
+RETURNS INTEGER AS $$
+  WITH deleted AS (
+    DELETE FROM rate_limits WHERE reset_at < NOW() - INTERVAL '1 hour' RETURNING 1
+  )
+  SELECT COUNT(*)::INTEGER FROM deleted;
+$$ LANGUAGE sql;
+
+-- Row Level Security (optional but recommended)
+-- Enable RLS
+ALTER TABLE rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for service role (full access)
+CREATE POLICY "Service role has full access"
+  ON rate_limits
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+-- Grant permissions to service role
+GRANT ALL ON rate_limits TO service_role;
+GRANT EXECUTE ON FUNCTION rate_limit_hit(TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION rate_limit_cleanup() TO service_role;
@@ -0,0 +1,85 @@
+-- ABBA Broker: Token Bucket Rate Limits
+-- Run this migration in your Supabase SQL editor
+-- Replaces the fixed-window counters from 006_create_rate_limits.sql
+-- Used when RATE_LIMIT_BACKEND=supabase
+
+DROP FUNCTION IF EXISTS rate_limit_hit(TEXT, INTEGER);
+DROP FUNCTION IF EXISTS rate_limit_cleanup();
+DROP TABLE IF EXISTS rate_limits;
+
+-- Create rate_limit_buckets table (one token bucket per bucket name and client)
+CREATE TABLE rate_limit_buckets (
+  key TEXT PRIMARY KEY,
+  tokens DOUBLE PRECISION NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_rate_limit_buckets_updated_at ON rate_limit_buckets(updated_at);
+
+-- Atomically refill a bucket and take p_cost tokens if there are enough
+CREATE OR REPLACE FUNCTION rate_limit_consume(
+  p_key TEXT,
+  p_cost DOUBLE PRECISION,
+  p_capacity DOUBLE PRECISION,
+  p_refill_per_second DOUBLE PRECISION
+)
+RETURNS TABLE (allowed BOOLEAN, remaining DOUBLE PRECISION) AS $$
+DECLARE
+  v_now TIMESTAMPTZ := clock_timestamp();
+  v_tokens DOUBLE PRECISION;
+  v_updated_at TIMESTAMPTZ;
+BEGIN
+  INSERT INTO rate_limit_buckets (key, tokens, updated_at)
+  VALUES (p_key, p_capacity, v_now)
+  ON CONFLICT (key) DO NOTHING;
+
+  -- Row lock serializes concurrent requests for the same bucket
+  SELECT b.tokens, b.updated_at INTO v_tokens, v_updated_at
+  FROM rate_limit_buckets b
+  WHERE b.key = p_key
+  FOR UPDATE;
+
+  v_tokens := LEAST(
+    p_capacity,
+    v_tokens + GREATEST(0, EXTRACT(EPOCH FROM (v_now - v_updated_at))) * p_refill_per_second
+  );
+
+  allowed := v_tokens >= p_cost;
+  IF allowed THEN
+    v_tokens := v_tokens - p_cost;
+  END IF;
+
+  UPDATE rate_limit_buckets SET tokens = v_tokens, updated_at = v_now WHERE key = p_key;
+
+  remaining := v_tokens;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Remove idle buckets (schedule with pg_cron, e.g. every 10 minutes).
+-- Every configured bucket refills completely well within an hour.
+CREATE OR REPLACE FUNCTION rate_limit_cleanup()
+RETURNS INTEGER AS $$
+  WITH deleted AS (
+    DELETE FROM rate_limit_buckets WHERE updated_at < NOW() - INTERVAL '1 hour' RETURNING 1
+  )
+  SELECT COUNT(*)::INTEGER FROM deleted;
+$$ LANGUAGE sql;
+
+-- Row Level Security (optional but recommended)
+-- Enable RLS
+ALTER TABLE rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for service role (full access)
+CREATE POLICY "Service role has full access"
+  ON rate_limit_buckets
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+-- Grant permissions to service role
+GRANT ALL ON rate_limit_buckets TO service_role;
+GRANT EXECUTE ON FUNCTION
+  rate_limit_consume(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION)
+  TO service_role;
+GRANT EXECUTE ON FUNCTION rate_limit_cleanup() TO service_role;
@@ -0,0 +1,9 @@
+-- ABBA Broker: Publish Quotas
+-- Run this migration in your Supabase SQL editor
+
+-- Bytes received by publish/upload, summed for the daily upload quota
+ALTER TABLE publish_jobs ADD COLUMN uploaded_bytes BIGINT;
+
+-- Create indexes for per-device and per-profile usage queries
+CREATE INDEX idx_publish_jobs_device_id_created_at ON publish_jobs(device_id, created_at);
+CREATE INDEX idx_publish_jobs_profile_id_created_at ON publish_jobs(profile_id, created_at);
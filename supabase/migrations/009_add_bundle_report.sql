@@ -0,0 +1,8 @@
+-- ABBA Broker: Bundle Processing Report
+-- Run this migration in your Supabase SQL editor
+
+-- Fail the publish instead of leaving bundle files out of the deployment
+ALTER TABLE publish_jobs ADD COLUMN strict BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Files included, skipped, renamed and defaulted while processing the bundle
+ALTER TABLE publish_jobs ADD COLUMN bundle_report JSONB;
@@ -0,0 +1,5 @@
+-- ABBA Broker: Secret Scanning
+-- Run this migration in your Supabase SQL editor
+
+-- Possible secrets found in the bundle before deploying (file, line and rule only)
+ALTER TABLE publish_jobs ADD COLUMN secret_findings JSONB;
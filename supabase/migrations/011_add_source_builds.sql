@@ -0,0 +1,12 @@
+-- ABBA Broker: Source Builds
+-- Run this migration in your Supabase SQL editor
+
+-- static deploys the bundle as-is; source has Vercel build it
+CREATE TYPE publish_mode AS ENUM ('static', 'source');
+
+ALTER TABLE publish_jobs ADD COLUMN mode publish_mode NOT NULL DEFAULT 'static';
+
+-- Framework and commands detected for source builds
+ALTER TABLE publish_jobs ADD COLUMN framework TEXT;
+ALTER TABLE publish_jobs ADD COLUMN build_command TEXT;
+ALTER TABLE publish_jobs ADD COLUMN install_command TEXT;
@@ -0,0 +1,5 @@
+-- ABBA Broker: SPA Fallback
+-- Run this migration in your Supabase SQL editor
+
+-- Forced SPA fallback rewrite setting (NULL detects SPA bundles)
+ALTER TABLE publish_jobs ADD COLUMN spa BOOLEAN;
@@ -0,0 +1,8 @@
+-- ABBA Broker: Chunked Uploads
+-- Run this migration in your Supabase SQL editor
+
+-- Bytes of a chunked upload received so far (NULL for single-request uploads)
+ALTER TABLE publish_jobs ADD COLUMN upload_offset BIGINT;
+
+-- Start, end and SHA256 of each chunk received
+ALTER TABLE publish_jobs ADD COLUMN upload_chunks JSONB;
@@ -0,0 +1,7 @@
+-- ABBA Broker: Device Token Signing Keys
+-- Run this migration in your Supabase SQL editor
+
+-- HMAC key for signed requests, derived from the raw token at issue time.
+-- Signed requests used to be keyed on token_hash; existing tokens get no key
+-- and can only be used as bearer tokens until they are issued again.
+ALTER TABLE device_tokens ADD COLUMN signing_key TEXT;
@@ -0,0 +1,49 @@
+-- ABBA Broker: Shared Request Nonces
+-- Run this migration in your Supabase SQL editor
+-- Used when RATE_LIMIT_BACKEND=supabase
+
+-- Create request_nonces table (one row per signed request nonce still in its window)
+CREATE TABLE request_nonces (
+  key TEXT PRIMARY KEY,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX idx_request_nonces_expires_at ON request_nonces(expires_at);
+
+-- Atomically remember a nonce. Returns false if it is still remembered.
+CREATE OR REPLACE FUNCTION nonce_claim(p_key TEXT, p_ttl_ms INTEGER)
+RETURNS BOOLEAN AS $$
+  WITH claimed AS (
+    INSERT INTO request_nonces AS n (key, expires_at)
+    VALUES (p_key, clock_timestamp() + make_interval(secs => p_ttl_ms / 1000.0))
+    ON CONFLICT (key) DO UPDATE SET expires_at = EXCLUDED.expires_at
+      WHERE n.expires_at <= clock_timestamp()
+    RETURNING 1
+  )
+  SELECT EXISTS (SELECT 1 FROM claimed);
+$$ LANGUAGE sql;
+
+-- Remove expired nonces (schedule with pg_cron, e.g. every 10 minutes)
+CREATE OR REPLACE FUNCTION nonce_cleanup()
+RETURNS INTEGER AS $$
+  WITH deleted AS (
+    DELETE FROM request_nonces WHERE expires_at < NOW() RETURNING 1
+  )
+  SELECT COUNT(*)::INTEGER FROM deleted;
+$$ LANGUAGE sql;
+
+-- Row Level Security (optional but recommended)
+-- Enable RLS
+ALTER TABLE request_nonces ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for service role (full access)
+CREATE POLICY "Service role has full access"
+  ON request_nonces
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+-- Grant permissions to service role
+GRANT ALL ON request_nonces TO service_role;
+GRANT EXECUTE ON FUNCTION nonce_claim(TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION nonce_cleanup() TO service_role;
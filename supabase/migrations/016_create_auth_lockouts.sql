@@ -0,0 +1,90 @@
+-- ABBA Broker: Shared Auth Lockouts
+-- Run this migration in your Supabase SQL editor
+-- Used when RATE_LIMIT_BACKEND=supabase
+
+-- Create auth_lockouts table (failed auth attempts per client IP or signing key)
+CREATE TABLE auth_lockouts (
+  key TEXT PRIMARY KEY,
+  failures INTEGER NOT NULL,
+  window_start TIMESTAMPTZ NOT NULL,
+  locked_until TIMESTAMPTZ,
+  lockouts INTEGER NOT NULL DEFAULT 0
+);
+
+-- Atomically count a failure, locking the key out once it reaches p_threshold
+-- within the window. Each repeat lockout doubles, up to p_max_lockout_ms.
+CREATE OR REPLACE FUNCTION auth_lockout_record_failure(
+  p_key TEXT,
+  p_threshold INTEGER,
+  p_window_ms INTEGER,
+  p_base_lockout_ms INTEGER,
+  p_max_lockout_ms INTEGER
+)
+RETURNS SETOF auth_lockouts AS $$
+DECLARE
+  v_now TIMESTAMPTZ := clock_timestamp();
+  v_row auth_lockouts;
+BEGIN
+  INSERT INTO auth_lockouts (key, failures, window_start)
+  VALUES (p_key, 0, v_now)
+  ON CONFLICT (key) DO NOTHING;
+
+  -- Row lock serializes concurrent failures for the same key
+  SELECT * INTO v_row FROM auth_lockouts WHERE key = p_key FOR UPDATE;
+
+  IF v_row.window_start + make_interval(secs => p_window_ms / 1000.0) < v_now THEN
+    v_row.failures := 0;
+    v_row.window_start := v_now;
+  END IF;
+
+  v_row.failures := v_row.failures + 1;
+
+  IF v_row.failures >= p_threshold THEN
+    v_row.locked_until := v_now + make_interval(
+      secs => LEAST(p_base_lockout_ms * 2 ^ v_row.lockouts, p_max_lockout_ms) / 1000.0
+    );
+    v_row.lockouts := v_row.lockouts + 1;
+    v_row.failures := 0;
+    v_row.window_start := v_now;
+  END IF;
+
+  UPDATE auth_lockouts SET
+    failures = v_row.failures,
+    window_start = v_row.window_start,
+    locked_until = v_row.locked_until,
+    lockouts = v_row.lockouts
+  WHERE key = p_key;
+
+  RETURN NEXT v_row;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Remove entries whose window, lockout and backoff history have expired
+-- (schedule with pg_cron, e.g. every 10 minutes)
+CREATE OR REPLACE FUNCTION auth_lockout_cleanup()
+RETURNS INTEGER AS $$
+  WITH deleted AS (
+    DELETE FROM auth_lockouts
+    WHERE GREATEST(window_start, COALESCE(locked_until, window_start)) < NOW() - INTERVAL '1 hour'
+    RETURNING 1
+  )
+  SELECT COUNT(*)::INTEGER FROM deleted;
+$$ LANGUAGE sql;
+
+-- Row Level Security (optional but recommended)
+-- Enable RLS
+ALTER TABLE auth_lockouts ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for service role (full access)
+CREATE POLICY "Service role has full access"
+  ON auth_lockouts
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+-- Grant permissions to service role
+GRANT ALL ON auth_lockouts TO service_role;
+GRANT EXECUTE ON FUNCTION
+  auth_lockout_record_failure(TEXT, INTEGER, INTEGER, INTEGER, INTEGER)
+  TO service_role;
+GRANT EXECUTE ON FUNCTION auth_lockout_cleanup() TO service_role;
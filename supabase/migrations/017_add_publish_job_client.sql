@@ -0,0 +1,10 @@
+-- ABBA Broker: Publish Job Clients
+-- Run this migration in your Supabase SQL editor
+
+-- Client IP that started a job on the shared ABBA_DEVICE_TOKEN (NULL for
+-- registry devices). Every install on that token is device 'env', so env
+-- jobs are only visible to the address that started them. Env jobs created
+-- before this migration have no client and are only visible to admins.
+ALTER TABLE publish_jobs ADD COLUMN client_ip TEXT;
+
+CREATE INDEX idx_publish_jobs_client_ip ON publish_jobs(client_ip);
@@ -0,0 +1,5 @@
+-- ABBA Broker: Output Directory
+-- Run this migration in your Supabase SQL editor
+
+-- Output directory Vercel serves, from abba.json or the detected framework
+ALTER TABLE publish_jobs ADD COLUMN output_directory TEXT;
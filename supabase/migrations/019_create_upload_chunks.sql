@@ -0,0 +1,45 @@
+-- ABBA Broker: Shared Upload Chunks
+-- Run this migration in your Supabase SQL editor
+
+-- Create publish_upload_chunks table (one row per chunk of a chunked upload,
+-- readable by every instance until the bundle is assembled)
+CREATE TABLE publish_upload_chunks (
+  publish_id UUID NOT NULL REFERENCES publish_jobs(id) ON DELETE CASCADE,
+  start_byte BIGINT NOT NULL,
+  -- Chunk bytes, base64-encoded
+  data TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (publish_id, start_byte)
+);
+
+-- Remove chunks of uploads that are no longer in progress or have been idle
+-- for p_max_idle_seconds (schedule with pg_cron, e.g. every 10 minutes)
+CREATE OR REPLACE FUNCTION upload_chunks_cleanup(p_max_idle_seconds INTEGER DEFAULT 3600)
+RETURNS INTEGER AS $$
+  WITH deleted AS (
+    DELETE FROM publish_upload_chunks c
+    USING publish_jobs j
+    WHERE c.publish_id = j.id
+      AND (
+        j.status <> 'uploading'
+        OR j.updated_at < NOW() - make_interval(secs => p_max_idle_seconds)
+      )
+    RETURNING 1
+  )
+  SELECT COUNT(*)::INTEGER FROM deleted;
+$$ LANGUAGE sql;
+
+-- Row Level Security (optional but recommended)
+-- Enable RLS
+ALTER TABLE publish_upload_chunks ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for service role (full access)
+CREATE POLICY "Service role has full access"
+  ON publish_upload_chunks
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+-- Grant permissions to service role
+GRANT ALL ON publish_upload_chunks TO service_role;
+GRANT EXECUTE ON FUNCTION upload_chunks_cleanup(INTEGER) TO service_role;